@@ -0,0 +1,1598 @@
+"use client";
+import React, { useMemo } from "react";
+import {
+  Box,
+  Heading,
+  VStack,
+  Text,
+  Flex,
+  HStack,
+} from "@chakra-ui/react";
+import "katex/dist/katex.min.css";
+import {
+  normalIntegral,
+  applyContinuityCorrection,
+  continuityCorrectionOffset,
+  sumAxisScale,
+  sourceDistribution,
+  sumDistribution,
+  parseCustomPMF,
+  generateSumData,
+  emptySimulation,
+  simulateSamples,
+  empiricalFrequencies,
+  approximationMetrics,
+  summarizeSum,
+  sumSkewness,
+  sumExcessKurtosis,
+  edgeworthIntegral,
+  poissonSum,
+  approximationRegimeMap,
+  type RegimeCell,
+  checkRulesOfThumb,
+  oneProportionZTest,
+  exactBinomialTest,
+  zTestRejectionRegion,
+  confidenceInterval,
+  CONFIDENCE_INTERVAL_METHODS,
+  coverageCurve,
+  COVERAGE_MAX_N,
+  binomialConvergence,
+  latticeIndexRange,
+  latticeMax,
+  latticeValue,
+  formatLatticeValue,
+  snapToLattice,
+  axisRegion,
+  latticeRegionSum,
+  regionProbability,
+  InvalidParameterError,
+  DEFAULT_SOURCE_PARAMETERS,
+  type Alternative,
+  type ConfidenceIntervalMethod,
+  type ContinuityCorrection,
+  type RegionMode,
+  type SourceKind,
+  type SourceParameters,
+  type SimulationState,
+  type XAxisMode,
+  type YAxisMode,
+} from "@/lib/distributions";
+import {
+  activeViewHash,
+  DEFAULT_VISUALIZATION_STATE,
+  maxTrialsFor,
+  parseActiveView,
+  parseVisualizationState,
+  serializeVisualizationState,
+  SIGMA_K_MAX,
+  SIGMA_K_MIN,
+  SIGMA_K_STEP,
+  sourceParametersOf,
+  Z_LIMIT,
+  Z_STEP,
+  type ActiveView,
+  type ChartMode,
+  type ChartView,
+  type VisualizationState,
+} from "@/lib/visualizationState";
+import {
+  chartDataColumns,
+  exportFileName,
+  exportReport,
+  toCSV,
+  type CSVValue,
+  type HypothesisTestResults,
+} from "@/lib/export";
+import {
+  downloadBlob,
+  downloadText,
+  findChartSvg,
+  recordVideo,
+  standaloneSvg,
+  svgToPngBlob,
+  type VideoRecorder,
+} from "@/lib/download";
+import { dragRange, snapToStep } from "@/lib/rangeDrag";
+import {
+  DEFAULT_PLAYBACK,
+  playbackTrialCounts,
+} from "@/lib/playback";
+import {
+  LocalRatioPlot,
+  QuadraticExponentPlot,
+  RiemannSumPlot,
+  StirlingPlot,
+  TaylorLogPlot,
+} from "@/components/proof-plots";
+import { NoteDocumentView } from "@/components/note-document";
+import { BinomialNormalGraph } from "@/components/reference-graphs";
+import { QuizView } from "@/components/quiz-view";
+import { InferenceWorkbench } from "@/components/inference-workbench";
+import { CoverageView } from "@/components/coverage-view";
+import { RegimeView } from "@/components/regime-view";
+import { PinsTable, type PinnedSeries } from "@/components/pins-table";
+import { DistributionChart } from "@/components/distribution-chart";
+import { ConvergenceChart } from "@/components/convergence-chart";
+import { NavBar } from "@/components/nav-bar";
+import { ChartToolbar } from "@/components/chart-toolbar";
+import { SourceControls } from "@/components/source-controls";
+import { ParametersPanel } from "@/components/parameters-panel";
+import { ExpectedValuesPanel } from "@/components/expected-values-panel";
+import { RegionControls } from "@/components/region-controls";
+import { ApproximationOptions } from "@/components/approximation-options";
+import { ProbabilityComparisonPanel } from "@/components/probability-comparison-panel";
+import { ApproximationErrorPanel } from "@/components/approximation-error-panel";
+import { RulesOfThumbPanel } from "@/components/rules-of-thumb-panel";
+import {
+  SIMULATION_SPEEDS,
+  SimulationControls,
+} from "@/components/simulation-controls";
+import { PlaybackControls } from "@/components/playback-controls";
+import type { NoteDocument } from "@/lib/notes/types";
+
+// Simulate mode draws a batch of samples every tick
+const SIMULATION_TICK_MS = 100;
+// Each sample costs n draws, so large n gets smaller batches to keep a tick
+// well under SIMULATION_TICK_MS
+const MAX_DRAWS_PER_TICK = 500000;
+
+// Columns of the convergence table in CSV exports
+const CONVERGENCE_COLUMNS = [
+  "n",
+  "kolmogorov",
+  "totalVariation",
+  "maxLocalError",
+  "rangeError",
+  "berryEsseenBound",
+  "reference",
+];
+// Columns of the regime map table in CSV exports
+const REGIME_COLUMNS = ["n", "p", "normalDistance", "poissonDistance", "better"];
+
+// Columns of the coverage table in CSV exports
+const COVERAGE_COLUMNS = [
+  "p",
+  ...CONFIDENCE_INTERVAL_METHODS.map(({ method }) => method),
+];
+
+// Colors of pinned series, in the order they are handed out, one for each
+// of the MAX_PINS series
+const PIN_COLORS = ["#34d399", "#a78bfa", "#38bdf8", "#fb7185", "#facc15", "#2dd4bf"];
+
+// Background of exported images, matching the page's dark theme
+const EXPORT_BACKGROUND = "#1a202c";
+
+// Log axes cannot show zero errors (e.g. TV at n = 1, p = 1/2), so those
+// points are left out of the line
+function logAxisValue(value: number | undefined): number | null {
+  return value !== undefined && value > 1e-16 ? value : null;
+}
+
+// The regime map does not depend on anything on the page, so it is
+// computed the first time it is shown and kept from then on
+let regimeMap: RegimeCell[] | null = null;
+function cachedRegimeMap(): RegimeCell[] {
+  regimeMap ??= approximationRegimeMap();
+  return regimeMap;
+}
+
+// A video being recorded during playback, and the name to save it under
+interface Recording {
+  recorder: VideoRecorder;
+  fileName: string;
+}
+
+// Finish the recording in progress, if any, and download it
+async function saveRecording(recording: React.RefObject<Recording | null>) {
+  const current = recording.current;
+  if (!current) return;
+  recording.current = null;
+  downloadBlob(await current.recorder.stop(), current.fileName);
+}
+
+interface HomeProps {
+  // The notes and the References/Notes page, built from the content
+  // directory at build time
+  notes: NoteDocument[];
+  references: NoteDocument;
+}
+
+export default function Home({ notes, references }: HomeProps) {
+  const defaults = DEFAULT_VISUALIZATION_STATE;
+  const [activeView, setActiveView] = React.useState<ActiveView>("visualization");
+  // Slug of the notes page shown under "Notes on the Proof"
+  const [activeNote, setActiveNote] = React.useState(notes[0]?.slug);
+  const [n, setN] = React.useState(defaults.n);
+  const [p, setP] = React.useState(defaults.p);
+  const [xMin, setXMin] = React.useState(defaults.xMin);
+  const [xMax, setXMax] = React.useState(defaults.xMax);
+  const [chosenXAxisMode, setXAxisMode] = React.useState<XAxisMode>(
+    defaults.xAxisMode,
+  );
+  // Range endpoints a and b in z units, used in standardized mode
+  const [zMin, setZMin] = React.useState(defaults.zMin);
+  const [zMax, setZMax] = React.useState(defaults.zMax);
+  // Interval, one tail, outside the interval, or the μ ± kσ band
+  const [regionMode, setRegionMode] = React.useState<RegionMode>(
+    defaults.regionMode,
+  );
+  const [sigmaK, setSigmaK] = React.useState(defaults.sigmaK);
+  const [correction, setCorrection] = React.useState<ContinuityCorrection>(
+    defaults.correction,
+  );
+  const [showEdgeworth, setShowEdgeworth] = React.useState(
+    defaults.showEdgeworth,
+  );
+  const [showPoisson, setShowPoisson] = React.useState(defaults.showPoisson);
+  const [ruleThresholds, setRuleThresholds] = React.useState(
+    defaults.ruleThresholds,
+  );
+  const [errorTolerance, setErrorTolerance] = React.useState(
+    defaults.errorTolerance,
+  );
+  const [showTest, setShowTest] = React.useState(defaults.showTest);
+  const [observed, setObserved] = React.useState(defaults.observed);
+  const [alpha, setAlpha] = React.useState(defaults.alpha);
+  const [alternative, setAlternative] = React.useState<Alternative>(
+    defaults.alternative,
+  );
+  const [chosenYAxisMode, setYAxisMode] = React.useState<YAxisMode>(
+    defaults.yAxisMode,
+  );
+  // Distribution of each draw X_i. Bernoulli(p) reproduces the binomial.
+  const [source, setSource] = React.useState<SourceKind>(defaults.source);
+  const [sourceParams, setSourceParams] = React.useState<SourceParameters>(
+    DEFAULT_SOURCE_PARAMETERS,
+  );
+  const [customPMFText, setCustomPMFText] = React.useState(defaults.customPMF);
+  const [customPMFError, setCustomPMFError] = React.useState<string | null>(
+    null,
+  );
+  // Exact theory only, or exact bars plus a Monte Carlo histogram
+  const [chartMode, setChartMode] = React.useState<ChartMode>(defaults.chartMode);
+  const [seed, setSeed] = React.useState(defaults.seed);
+  const [playing, setPlaying] = React.useState(false);
+  const [speed, setSpeed] = React.useState(SIMULATION_SPEEDS[1]);
+  // The distribution at the current n, or its error as n sweeps upwards
+  const [chartView, setChartView] = React.useState<ChartView>(defaults.chartView);
+  const [convergenceMaxN, setConvergenceMaxN] = React.useState(
+    defaults.convergenceMaxN,
+  );
+  const [showRangeError, setShowRangeError] = React.useState(
+    defaults.showRangeError,
+  );
+  const [pins, setPins] = React.useState<PinnedSeries[]>([]);
+  // Playback of n, and the frame on screen while it plays (null when
+  // stopped)
+  const [playback, setPlayback] = React.useState(DEFAULT_PLAYBACK);
+  const [playbackFrame, setPlaybackFrame] = React.useState<number | null>(
+    null,
+  );
+  const recording = React.useRef<Recording | null>(null);
+  const [recordingVideo, setRecordingVideo] = React.useState(false);
+  const nextPinId = React.useRef(1);
+
+  // Restore a shared configuration from the URL once on load. The static
+  // export serves the same HTML for every link, so this has to happen on
+  // the client after the first render.
+  const [urlLoaded, setUrlLoaded] = React.useState(false);
+  React.useEffect(() => {
+    const state = parseVisualizationState(
+      new URLSearchParams(window.location.search),
+    );
+    setN(state.n);
+    setP(state.p);
+    setSource(state.source);
+    setSourceParams(sourceParametersOf(state));
+    setCustomPMFText(state.customPMF);
+    setXMin(state.xMin);
+    setXMax(state.xMax);
+    setZMin(state.zMin);
+    setZMax(state.zMax);
+    setRegionMode(state.regionMode);
+    setSigmaK(state.sigmaK);
+    setXAxisMode(state.xAxisMode);
+    setYAxisMode(state.yAxisMode);
+    setCorrection(state.correction);
+    setShowEdgeworth(state.showEdgeworth);
+    setShowPoisson(state.showPoisson);
+    setShowTest(state.showTest);
+    setObserved(state.observed);
+    setAlpha(state.alpha);
+    setAlternative(state.alternative);
+    setChartView(state.chartView);
+    setChartMode(state.chartMode);
+    setSeed(state.seed);
+    setConvergenceMaxN(state.convergenceMaxN);
+    setShowRangeError(state.showRangeError);
+    setRuleThresholds(state.ruleThresholds);
+    setErrorTolerance(state.errorTolerance);
+    setPins(
+      state.pins.map((pin, i) => ({
+        ...pin,
+        id: nextPinId.current++,
+        color: PIN_COLORS[i],
+      })),
+    );
+    setActiveView(parseActiveView(window.location.hash));
+    setUrlLoaded(true);
+
+    const onHashChange = () =>
+      setActiveView(parseActiveView(window.location.hash));
+    window.addEventListener("hashchange", onHashChange);
+    return () => window.removeEventListener("hashchange", onHashChange);
+  }, []);
+
+  // The current configuration, as written to the URL and to exports
+  const visualizationState: VisualizationState = {
+    n,
+    p,
+    source,
+    faces: sourceParams.faces,
+    lambda: sourceParams.lambda,
+    geometricP: sourceParams.geometricP,
+    rate: sourceParams.rate,
+    customPMF: sourceParams.customPMF.join(", "),
+    xMin,
+    xMax,
+    zMin,
+    zMax,
+    regionMode,
+    sigmaK,
+    xAxisMode: chosenXAxisMode,
+    yAxisMode: chosenYAxisMode,
+    correction,
+    showEdgeworth,
+    showPoisson,
+    showTest,
+    observed,
+    alpha,
+    alternative,
+    chartView,
+    chartMode,
+    seed,
+    convergenceMaxN,
+    showRangeError,
+    ruleThresholds,
+    errorTolerance,
+    pins: pins.map((pin) => ({
+      name: pin.name,
+      n: pin.n,
+      source: pin.source,
+      params: pin.params,
+      xAxisMode: pin.xAxisMode,
+    })),
+  };
+  // Query string for the current configuration (defaults left out)
+  const query = serializeVisualizationState(visualizationState).toString();
+
+  // Keep the address bar in sync so the page can be shared or reloaded as is
+  React.useEffect(() => {
+    if (!urlLoaded) return;
+    const search = query ? `?${query}` : "";
+    window.history.replaceState(
+      null,
+      "",
+      `${window.location.pathname}${search}${activeViewHash(activeView)}`,
+    );
+  }, [urlLoaded, query, activeView]);
+
+  // While it plays, playback can hold the axes on z-scores or proportions
+  // without touching the chosen modes, which come back when it stops
+  const heldAxes = playbackFrame === null ? "free" : playback.axes;
+  const xAxisMode: XAxisMode =
+    heldAxes === "free" ? chosenXAxisMode : heldAxes;
+  const yAxisMode: YAxisMode =
+    heldAxes === "standardized" ? "density" : chosenYAxisMode;
+
+  const useProportions = xAxisMode === "proportions";
+  const standardized = xAxisMode === "standardized";
+  const isBernoulli = source === "bernoulli";
+  const maxTrials = maxTrialsFor(source);
+
+  // The shared p slider drives the Bernoulli source
+  const sourceDist = useMemo(
+    () => sourceDistribution(source, { ...sourceParams, p }),
+    [source, sourceParams, p],
+  );
+
+  // Exact distribution of S_n = X_1 + ... + X_n
+  const sum = useMemo(() => sumDistribution(sourceDist, n), [sourceDist, n]);
+  const sumMin = sum.offset;
+  const sumMax = latticeMax(sum);
+
+  const [simulation, setSimulation] = React.useState<SimulationState>(() =>
+    emptySimulation(seed, sum),
+  );
+  const simulating = chartMode === "simulate";
+
+  // Any change to the distribution or the seed starts a fresh histogram
+  React.useEffect(() => {
+    setSimulation(emptySimulation(seed, sum));
+  }, [seed, sum]);
+
+  const samplesPerTick = Math.min(
+    speed,
+    Math.max(1, Math.floor(MAX_DRAWS_PER_TICK / n)),
+  );
+
+  const drawSamples = React.useCallback(
+    (count: number) =>
+      setSimulation((state) =>
+        simulateSamples(state, sourceDist, n, sum, count),
+      ),
+    [sourceDist, n, sum],
+  );
+
+  React.useEffect(() => {
+    if (!simulating || !playing) return;
+    const id = window.setInterval(
+      () => drawSamples(samplesPerTick),
+      SIMULATION_TICK_MS,
+    );
+    return () => window.clearInterval(id);
+  }, [simulating, playing, samplesPerTick, drawSamples]);
+
+  // Ensure x-values are within valid range when the support of S_n changes
+  // or a shared link asks for a range outside it
+  React.useEffect(() => {
+    if (xMin >= sumMax) setXMin(Math.max(sumMin, sumMax - sum.step));
+    else if (xMin < sumMin) setXMin(sumMin);
+    if (xMax > sumMax) setXMax(sumMax);
+    else if (xMax <= sumMin) setXMax(Math.min(sumMax, sumMin + sum.step));
+  }, [xMin, xMax, sumMin, sumMax, sum.step]);
+
+  // The observed count cannot exceed the number of trials
+  React.useEffect(() => {
+    if (observed > n) setObserved(n);
+  }, [observed, n]);
+
+  // Switch the source distribution, keeping n within the convolution limit
+  // and moving the range to μ ± σ of the new sum
+  const selectSource = (kind: SourceKind) => {
+    const nextDist = sourceDistribution(kind, { ...sourceParams, p });
+    const nextN = Math.min(n, maxTrialsFor(kind));
+    const nextSum = sumDistribution(nextDist, nextN);
+    const mean = nextN * nextDist.mean;
+    const sd = Math.sqrt(nextN * nextDist.variance);
+    setSource(kind);
+    setN(nextN);
+    setXMin(snapToLattice(nextSum, mean - sd));
+    setXMax(snapToLattice(nextSum, mean + sd));
+    if (nextDist.continuous) setCorrection("none");
+  };
+
+  const updateCustomPMF = (text: string) => {
+    setCustomPMFText(text);
+    try {
+      const customPMF = parseCustomPMF(text);
+      setSourceParams((params) => ({ ...params, customPMF }));
+      setCustomPMFError(null);
+    } catch (error) {
+      setCustomPMFError(
+        error instanceof InvalidParameterError ? error.message : String(error),
+      );
+    }
+  };
+
+  // μ, σ and the bar spacing Δx on the current x-axis scale
+  // For counts: μ = np, σ = sqrt(np(1-p)), Δx = 1
+  // For proportions: μ = p, σ = sqrt(p(1-p)/n), Δx = 1/n
+  // For standardized values: μ = 0, σ = 1, Δx = 1/sqrt(np(1-p))
+  // (with np → nμ_X and np(1-p) → nσ_X² for other sources)
+  const scale = useMemo(
+    () =>
+      sumAxisScale(n, sourceDist.mean, sourceDist.variance, sum.step, xAxisMode),
+    [n, sourceDist, sum.step, xAxisMode],
+  );
+  const mu = scale.mean;
+  const sigma = scale.stdDev;
+
+  // Expected successes and failures
+  const expectedSuccesses = useMemo(() => n * p, [n, p]);
+  const expectedFailures = useMemo(() => n * (1 - p), [n, p]);
+
+  // Calculate the selected range in the appropriate scale. In standardized
+  // mode the range is chosen directly as [a, b] in z units.
+  const xMinScaled = useMemo(() => {
+    return standardized ? zMin : scale.toX(xMin);
+  }, [standardized, zMin, xMin, scale]);
+
+  const xMaxScaled = useMemo(() => {
+    return standardized ? zMax : scale.toX(xMax);
+  }, [standardized, zMax, xMax, scale]);
+
+  // The selected region on the current scale: [a, b], one tail, the
+  // outside of [a, b] or μ ± kσ. Tails have an infinite end.
+  const region = useMemo(
+    () => axisRegion(regionMode, xMinScaled, xMaxScaled, scale, sigmaK),
+    [regionMode, xMinScaled, xMaxScaled, scale, sigmaK],
+  );
+
+  // Mean and standard deviation of S_n itself
+  const sumMoments = useMemo(
+    () => ({
+      mean: n * sourceDist.mean,
+      stdDev: Math.sqrt(n * sourceDist.variance),
+    }),
+    [n, sourceDist],
+  );
+
+  // The same region in values of S_n, as counted by the exact sum
+  const sumRegion = useMemo(
+    () =>
+      axisRegion(
+        regionMode,
+        standardized ? scale.toK(zMin) : xMin,
+        standardized ? scale.toK(zMax) : xMax,
+        sumMoments,
+        sigmaK,
+      ),
+    [regionMode, standardized, scale, zMin, zMax, xMin, xMax, sumMoments, sigmaK],
+  );
+
+  // The 68-95-99.7 rule against the exact P(|S_n - μ| ≤ kσ), for the
+  // μ ± kσ band
+  const empiricalRule = useMemo(
+    () =>
+      regionMode === "sigma"
+        ? [1, 2, 3].map((k) => ({
+            k,
+            exact: latticeRegionSum(sum, axisRegion("sigma", 0, 0, sumMoments, k)),
+            normal: normalIntegral(-k, k, 0, 1),
+          }))
+        : [],
+    [regionMode, sum, sumMoments],
+  );
+  const sumFrom = sumRegion.from;
+  const sumTo = sumRegion.to;
+
+  // First and last lattice points of [from, to] (clipped to the support
+  // for tails)
+  const [firstIndex, lastIndex] = useMemo(
+    () => latticeIndexRange(sum, sumFrom, sumTo),
+    [sum, sumFrom, sumTo],
+  );
+
+  // Calculate exact discrete sum and normal integral
+  const binomialDiscreteSum = useMemo(
+    () => latticeRegionSum(sum, sumRegion),
+    [sum, sumRegion],
+  );
+
+  // Half a bar (0.5, 1/(2n) or Δx_n/2) added to each side of the integral
+  // when the continuity correction is on
+  const correctionOffset = useMemo(
+    () => continuityCorrectionOffset(correction, scale.binWidth),
+    [correction, scale],
+  );
+
+  // With the correction on, the integral runs from the outer edge of the
+  // first bar in the range to the outer edge of the last one. The open end
+  // of a tail stays at ±∞.
+  const [integralMin, integralMax] = useMemo(() => {
+    const [from, to] =
+      correctionOffset > 0
+        ? applyContinuityCorrection(
+            scale.toX(latticeValue(sum, firstIndex)),
+            scale.toX(latticeValue(sum, lastIndex)),
+            correctionOffset,
+          )
+        : [region.from, region.to];
+    return [
+      Number.isFinite(region.from) ? from : -Infinity,
+      Number.isFinite(region.to) ? to : Infinity,
+    ];
+  }, [correctionOffset, scale, sum, firstIndex, lastIndex, region]);
+  // Outside [a, b] the approximations are complements, as the exact sum is
+  const integralRegion = useMemo(
+    () => ({ from: integralMin, to: integralMax, outside: region.outside }),
+    [integralMin, integralMax, region.outside],
+  );
+
+  // Whole-distribution error of the normal approximation, next to the
+  // Berry–Esseen bound on the Kolmogorov distance
+  const metrics = useMemo(
+    () => approximationMetrics(sourceDist, sum, n),
+    [sourceDist, sum, n],
+  );
+
+  // Textbook conditions for the approximation, judged against the
+  // Kolmogorov distance (Bernoulli sources only)
+  const ruleChecks = useMemo(
+    () =>
+      isBernoulli
+        ? checkRulesOfThumb(
+            n,
+            p,
+            metrics.kolmogorov,
+            ruleThresholds,
+            errorTolerance,
+          )
+        : [],
+    [isBernoulli, n, p, metrics, ruleThresholds, errorTolerance],
+  );
+
+  // The selected range in z units, which stays meaningful as n changes.
+  // Outside [a, b] the error is the same as inside it.
+  const zRange = useMemo((): [number, number] => {
+    if (standardized) return [region.from, region.to];
+    const z = sumAxisScale(
+      n,
+      sourceDist.mean,
+      sourceDist.variance,
+      sum.step,
+      "standardized",
+    );
+    return [z.toX(sumFrom), z.toX(sumTo)];
+  }, [standardized, region, n, sourceDist, sum.step, sumFrom, sumTo]);
+  // The notes' Riemann sum plot is over the selected z range for Bernoulli
+  // sources, whose lattice it draws, and over (-1, 1] otherwise
+  const proofRange: [number, number] = isBernoulli ? zRange : [-1, 1];
+  // Figures the notes can place with a `::name` line
+  const proofEmbeds = {
+    "stirling-plot": <StirlingPlot n={n} />,
+    "taylor-log-plot": <TaylorLogPlot n={n} p={p} />,
+    "quadratic-exponent-plot": <QuadraticExponentPlot n={n} p={p} />,
+    "local-ratio-plot": <LocalRatioPlot n={n} p={p} />,
+    "riemann-sum-plot": (
+      <RiemannSumPlot n={n} p={p} a={proofRange[0]} b={proofRange[1]} />
+    ),
+  };
+  // Figures for the References/Notes page, on the current n and p
+  const referenceEmbeds = {
+    "proportions-graph": <BinomialNormalGraph n={n} p={p} axis="proportions" />,
+    "counts-graph": <BinomialNormalGraph n={n} p={p} axis="counts" />,
+  };
+  const activeNoteDocument =
+    notes.find((note) => note.slug === activeNote) ?? notes[0];
+
+  // Error metrics for n = 1 ... convergenceMaxN (Bernoulli sources only)
+  const convergenceData = useMemo(() => {
+    if (chartView !== "convergence" || !isBernoulli) return [];
+    return binomialConvergence(
+      p,
+      convergenceMaxN,
+      showRangeError ? zRange : null,
+      correction,
+    ).map((point) => ({
+      n: point.n,
+      kolmogorov: logAxisValue(point.kolmogorov),
+      totalVariation: logAxisValue(point.totalVariation),
+      maxLocalError: logAxisValue(point.maxLocalError),
+      rangeError: logAxisValue(point.rangeError),
+      berryEsseenBound: logAxisValue(point.berryEsseenBound),
+      reference: logAxisValue(point.reference),
+    }));
+  }, [
+    chartView,
+    isBernoulli,
+    p,
+    convergenceMaxN,
+    showRangeError,
+    zRange,
+    correction,
+  ]);
+
+  // Skewness and excess kurtosis of S_n (the same on every x-axis scale)
+  const skewness = sumSkewness(sourceDist, n);
+  const excessKurtosis = sumExcessKurtosis(sourceDist, n);
+
+  // The first-order Edgeworth expansion over the same bounds as the normal
+  const edgeworthIntegralValue = useMemo(
+    () =>
+      regionProbability(integralRegion, (from, to) =>
+        edgeworthIntegral(from, to, mu, sigma, skewness),
+      ),
+    [integralRegion, mu, sigma, skewness],
+  );
+
+  // Poisson(np) over the same counts as the exact sum (Bernoulli only)
+  const poissonShown = showPoisson && isBernoulli;
+  // The upper tail runs past n, where Poisson still has mass
+  const poissonRangeValue = useMemo(
+    () =>
+      regionProbability(
+        {
+          from: latticeValue(sum, firstIndex),
+          to: Number.isFinite(sumTo) ? latticeValue(sum, lastIndex) : Infinity,
+          outside: sumRegion.outside,
+        },
+        (from, to) => poissonSum(n * p, from, to),
+      ),
+    [n, p, sum, firstIndex, lastIndex, sumTo, sumRegion.outside],
+  );
+
+  // The regime map and the coverage curves are slow to compute, so they
+  // follow the view switch (and for coverage, n and α) in a deferred render
+  // that does not hold up the sliders
+  const deferredChartView = React.useDeferredValue(chartView);
+
+  // Normal against Poisson error over (n, p); computed only when shown
+  const regimeCells = useMemo(
+    () => (deferredChartView === "regime" ? cachedRegimeMap() : []),
+    [deferredChartView],
+  );
+
+  // Tests of H₀: p = p₀ (the p slider) for the observed count, and
+  // confidence intervals at level 1 - α (Bernoulli sources only)
+  const testShown = showTest && isBernoulli;
+  const hypothesisTest = useMemo((): HypothesisTestResults | null => {
+    if (!testShown || observed > n) return null;
+    return {
+      zTest: oneProportionZTest(observed, n, p, alternative, correction),
+      exactTest: exactBinomialTest(observed, n, p, alternative),
+      rejectionRegion: zTestRejectionRegion(n, p, alpha, alternative, correction),
+      confidenceIntervals: Object.fromEntries(
+        CONFIDENCE_INTERVAL_METHODS.map(({ method }) => [
+          method,
+          confidenceInterval(method, observed, n, 1 - alpha),
+        ]),
+      ) as Record<ConfidenceIntervalMethod, [number, number]>,
+    };
+  }, [testShown, observed, n, p, alternative, alpha, correction]);
+
+  // Exact coverage of each interval method against p at the current n
+  // (capped), at the confidence level 1 - α
+  const coverageN = React.useDeferredValue(Math.min(n, COVERAGE_MAX_N));
+  const coverageAlpha = React.useDeferredValue(alpha);
+  const coverageData = useMemo(
+    () =>
+      deferredChartView === "coverage" && isBernoulli
+        ? coverageCurve(coverageN, 1 - coverageAlpha)
+        : [],
+    [deferredChartView, isBernoulli, coverageN, coverageAlpha],
+  );
+
+  const normalIntegralValue = useMemo(
+    () =>
+      regionProbability(integralRegion, (from, to) =>
+        normalIntegral(from, to, mu, sigma),
+      ),
+    [integralRegion, mu, sigma],
+  );
+
+  // Integral bounds as shown in labels and formulas; a tail's open end is
+  // ±∞
+  const formatBound = (value: number) =>
+    !Number.isFinite(value)
+      ? value > 0
+        ? "∞"
+        : "−∞"
+      : xAxisMode === "counts"
+        ? formatLatticeValue(value)
+        : value.toFixed(correctionOffset > 0 ? 4 : 3);
+  const latexBound = (value: number) =>
+    Number.isFinite(value)
+      ? formatBound(value)
+      : value > 0
+        ? "\\infty"
+        : "-\\infty";
+
+  const { points: data, barWidth } = useMemo(
+    () =>
+      generateSumData(sum, scale, {
+        yAxisMode,
+        symbols: isBernoulli ? undefined : { count: "s", mean: "x̄" },
+        empirical:
+          simulating && simulation.samples > 0
+            ? empiricalFrequencies(simulation)
+            : undefined,
+        skewness: showEdgeworth ? skewness : undefined,
+        poissonMean: poissonShown ? n * p : undefined,
+      }),
+    [
+      sum,
+      scale,
+      yAxisMode,
+      isBernoulli,
+      simulating,
+      simulation,
+      showEdgeworth,
+      skewness,
+      poissonShown,
+      n,
+      p,
+    ],
+  );
+
+  // Freeze the current configuration as a named series
+  const pinCurrent = () => {
+    const usedColors = new Set(pins.map((pin) => pin.color));
+    const color = PIN_COLORS.find((candidate) => !usedColors.has(candidate));
+    if (!color) return;
+    const name = isBernoulli
+      ? `n=${n}, p=${+p.toFixed(3)}`
+      : `${sourceDist.name}, n=${n}`;
+    setPins([
+      ...pins,
+      {
+        id: nextPinId.current++,
+        name,
+        color,
+        n,
+        source,
+        params: { ...sourceParams, p },
+        xAxisMode,
+      },
+    ]);
+  };
+
+  const renamePin = (id: number, name: string) =>
+    setPins(pins.map((pin) => (pin.id === id ? { ...pin, name } : pin)));
+
+  const unpin = (id: number) => setPins(pins.filter((pin) => pin.id !== id));
+
+  // Pinned series redrawn on the current axes, with their comparison rows.
+  // The μ ± kσ band is taken around each pin's own mean.
+  const pinnedCurves = useMemo(
+    () =>
+      pins.map((pin) => {
+        const pinSource = sourceDistribution(pin.source, pin.params);
+        const pinSum = sumDistribution(pinSource, pin.n);
+        const pinScale = sumAxisScale(
+          pin.n,
+          pinSource.mean,
+          pinSource.variance,
+          pinSum.step,
+          xAxisMode,
+        );
+        return {
+          pin,
+          sourceName: pinSource.name,
+          points: generateSumData(pinSum, pinScale, { yAxisMode }).points,
+          summary: summarizeSum(
+            pinSource,
+            pin.n,
+            pinSum,
+            pinScale,
+            axisRegion(regionMode, xMinScaled, xMaxScaled, pinScale, sigmaK),
+          ),
+        };
+      }),
+    [pins, xAxisMode, yAxisMode, regionMode, xMinScaled, xMaxScaled, sigmaK],
+  );
+
+  const currentSummary = useMemo(
+    () => summarizeSum(sourceDist, n, sum, scale, region),
+    [sourceDist, n, sum, scale, region],
+  );
+
+  // For large n only the bulk of the distribution is plotted, so clip the
+  // shaded range to the plotted window (padded by half a bar either side)
+  const halfBar = barWidth / 2;
+  // Playback can hold the z axis at ±Z_LIMIT, where the support of Z_n
+  // would otherwise widen with n, and the density axis at the bell's height
+  const axesLocked = heldAxes === "standardized";
+  // Widen the plotted window to take in every pinned series
+  const plotXMin = axesLocked
+    ? -Z_LIMIT
+    : Math.min(
+        data[0].x - halfBar,
+        ...pinnedCurves.map((curve) => curve.points[0].x),
+      );
+  const plotXMax = axesLocked
+    ? Z_LIMIT
+    : Math.max(
+        data[data.length - 1].x + halfBar,
+        ...pinnedCurves.map((curve) => curve.points[curve.points.length - 1].x),
+      );
+  const shadedXMin = Math.min(Math.max(integralMin, plotXMin), plotXMax);
+  const shadedXMax = Math.min(Math.max(integralMax, plotXMin), plotXMax);
+  // Outside [a, b] the two pieces run out to the edges of the chart
+  const shadedAreas: [number, number][] = region.outside
+    ? [
+        [plotXMin, shadedXMin],
+        [shadedXMax, plotXMax],
+      ]
+    : [[shadedXMin, shadedXMax]];
+
+  // Dragging on the chart sets the range the sliders set: snapped to the
+  // lattice (integer k, or k/n for proportions), or free in z units. The end
+  // that is not dragged stays put: the other edge when an edge is grabbed,
+  // the press point for a new range, or the end of the scale for a tail.
+  // In the μ ± kσ band the drag sets k instead.
+  const dragAnchor = React.useRef(0);
+  const dragRangeTo = (x: number) => {
+    if (regionMode === "sigma") {
+      const k = snapToStep(Math.abs(x - mu) / sigma, SIGMA_K_STEP);
+      setSigmaK(Math.min(Math.max(k, SIGMA_K_MIN), SIGMA_K_MAX));
+    } else if (standardized) {
+      const [a, b] = dragRange(dragAnchor.current, x, -Z_LIMIT, Z_LIMIT, Z_STEP);
+      setZMin(a);
+      setZMax(b);
+    } else {
+      const [a, b] = dragRange(
+        dragAnchor.current,
+        snapToLattice(sum, scale.toK(x)),
+        sumMin,
+        sumMax,
+        sum.step,
+      );
+      setXMin(a);
+      setXMax(b);
+    }
+  };
+  const startRangeDrag = (x: number, edge: number | null) => {
+    const [a, b] = standardized ? [zMin, zMax] : [xMin, xMax];
+    if (regionMode === "below") dragAnchor.current = -Infinity;
+    else if (regionMode === "above") dragAnchor.current = Infinity;
+    // Grabbing one edge anchors the other
+    else if (edge !== null) dragAnchor.current = edge === 0 ? b : a;
+    else {
+      dragAnchor.current = standardized ? x : snapToLattice(sum, scale.toK(x));
+    }
+    dragRangeTo(x);
+  };
+
+  // The z-test's rejection region on the current x-axis scale, cut to the
+  // plotted window; a side that is off the chart is left out
+  const rejectionAreas: [number, number][] = [];
+  if (hypothesisTest) {
+    const { below, above } = hypothesisTest.rejectionRegion;
+    if (below !== null && scale.toX(below) > plotXMin) {
+      rejectionAreas.push([plotXMin, Math.min(scale.toX(below), plotXMax)]);
+    }
+    if (above !== null && scale.toX(above) < plotXMax) {
+      rejectionAreas.push([Math.max(scale.toX(above), plotXMin), plotXMax]);
+    }
+  }
+
+  // Exports cover whichever chart is showing: the distribution at the
+  // current n, the convergence sweep, the regime map or the coverage curves
+  const chartRef = React.useRef<HTMLDivElement>(null);
+  const [exportError, setExportError] = React.useState<string | null>(null);
+
+  const exportTable = (): {
+    rows: Record<string, CSVValue>[];
+    columns: string[];
+  } => {
+    switch (chartView) {
+      case "convergence":
+        return { rows: convergenceData, columns: CONVERGENCE_COLUMNS };
+      case "regime":
+        return {
+          rows: regimeCells.map((cell) => ({
+            n: cell.n,
+            p: cell.p,
+            normalDistance: cell.normalDistance,
+            poissonDistance: cell.poissonDistance,
+            better:
+              cell.poissonDistance < cell.normalDistance ? "poisson" : "normal",
+          })),
+          columns: REGIME_COLUMNS,
+        };
+      case "coverage":
+        return { rows: coverageData, columns: COVERAGE_COLUMNS };
+      case "distribution":
+        return {
+          rows: data.map((point) => ({ ...point })),
+          columns: chartDataColumns(data),
+        };
+    }
+  };
+  const exportName = (extension: string) =>
+    exportFileName(visualizationState, chartView, extension);
+
+  const chartSvg = () => {
+    const svg = chartRef.current && findChartSvg(chartRef.current);
+    if (!svg) throw new Error("There is no chart to export");
+    return standaloneSvg(svg, EXPORT_BACKGROUND);
+  };
+
+  const exportSvg = () => {
+    try {
+      downloadText(chartSvg().text, exportName("svg"), "image/svg+xml");
+      setExportError(null);
+    } catch (error) {
+      setExportError(String(error));
+    }
+  };
+
+  const exportPng = async () => {
+    try {
+      const { text, width, height } = chartSvg();
+      downloadBlob(await svgToPngBlob(text, width, height), exportName("png"));
+      setExportError(null);
+    } catch (error) {
+      setExportError(String(error));
+    }
+  };
+
+  const exportCsv = () => {
+    const { rows, columns } = exportTable();
+    downloadText(toCSV(rows, columns), exportName("csv"), "text/csv");
+  };
+
+  const exportJson = () => {
+    const report = exportReport(
+      visualizationState,
+      {
+        range: [region.from, region.to],
+        integralBounds: [integralMin, integralMax],
+        exactProbability: binomialDiscreteSum,
+        normalProbability: normalIntegralValue,
+        difference: Math.abs(binomialDiscreteSum - normalIntegralValue),
+        ...(showEdgeworth && { edgeworthProbability: edgeworthIntegralValue }),
+        ...(poissonShown && { poissonProbability: poissonRangeValue }),
+        ...(hypothesisTest && { hypothesisTest }),
+        metrics,
+      },
+      exportTable().rows,
+    );
+    downloadText(
+      JSON.stringify(report, null, 2),
+      exportName("json"),
+      "application/json",
+    );
+  };
+
+  // The n of each playback frame, within the limits of the current source
+  const playbackCounts = useMemo(() => {
+    const clampN = (value: number) => Math.min(Math.max(value, 1), maxTrials);
+    return playbackTrialCounts(
+      clampN(playback.from),
+      clampN(playback.to),
+      playback.frames,
+      playback.spacing,
+    );
+  }, [playback, maxTrials]);
+
+  const startPlayback = (record: boolean) => {
+    if (record) {
+      try {
+        const { width, height } = chartSvg();
+        recording.current = {
+          recorder: recordVideo(width, height),
+          fileName: exportName("webm"),
+        };
+        setRecordingVideo(true);
+        setExportError(null);
+      } catch (error) {
+        setExportError(String(error));
+        return;
+      }
+    }
+    setN(playbackCounts[0]);
+    setPlaybackFrame(0);
+  };
+
+  const stopPlayback = () => {
+    setPlaybackFrame(null);
+    setRecordingVideo(false);
+    saveRecording(recording).catch((error) => setExportError(String(error)));
+  };
+
+  // Each frame stays on screen for 1/fps seconds before the next n is set.
+  // When recording, the frame is drawn into the video once the chart shows
+  // it, and the next n waits until the drawing is done; a recording plays
+  // once, without looping.
+  React.useEffect(() => {
+    if (playbackFrame === null) return;
+    const recorder = recording.current?.recorder;
+    const shownAt = performance.now();
+    let cancelled = false;
+    let timer: number | undefined;
+    const advance = () => {
+      const next = playbackFrame + 1;
+      if (next < playbackCounts.length) {
+        setN(playbackCounts[next]);
+        setPlaybackFrame(next);
+      } else if (playback.loop && !recorder) {
+        setN(playbackCounts[0]);
+        setPlaybackFrame(0);
+      } else {
+        setPlaybackFrame(null);
+        setRecordingVideo(false);
+        saveRecording(recording).catch((error) =>
+          setExportError(String(error)),
+        );
+      }
+    };
+    const animationFrame = window.requestAnimationFrame(async () => {
+      const svg = chartRef.current && findChartSvg(chartRef.current);
+      if (recorder && svg) {
+        try {
+          await recorder.addFrame(standaloneSvg(svg, EXPORT_BACKGROUND).text);
+        } catch (error) {
+          setExportError(String(error));
+        }
+      }
+      if (cancelled) return;
+      const elapsed = performance.now() - shownAt;
+      timer = window.setTimeout(
+        advance,
+        Math.max(0, 1000 / playback.fps - elapsed),
+      );
+    });
+    return () => {
+      cancelled = true;
+      window.cancelAnimationFrame(animationFrame);
+      window.clearTimeout(timer);
+    };
+  }, [playbackFrame, playbackCounts, playback.loop, playback.fps]);
+
+  // LaTeX for μ and σ on the current scale
+  const muFormula = standardized
+    ? `\\mu = \\mathbb{E}[X_n] = 0`
+    : isBernoulli
+      ? useProportions
+        ? `\\mu = p = ${mu.toFixed(4)}`
+        : `\\mu = np = ${mu.toFixed(2)}`
+      : useProportions
+        ? `\\mu = \\mu_X = ${mu.toFixed(4)}`
+        : `\\mu = n\\mu_X = ${mu.toFixed(2)}`;
+  const sigmaFormula = standardized
+    ? `\\sigma = \\sqrt{\\mathrm{Var}(X_n)} = 1`
+    : isBernoulli
+      ? useProportions
+        ? `\\sigma = \\sqrt{\\frac{p(1-p)}{n}} = ${sigma.toFixed(4)}`
+        : `\\sigma = \\sqrt{np(1-p)} = ${sigma.toFixed(2)}`
+      : useProportions
+        ? `\\sigma = \\frac{\\sigma_X}{\\sqrt{n}} = ${sigma.toFixed(4)}`
+        : `\\sigma = \\sigma_X\\sqrt{n} = ${sigma.toFixed(2)}`;
+
+  // Symbol for a position on the x axis in labels
+  const axisSymbol = standardized
+    ? "z"
+    : useProportions
+      ? isBernoulli
+        ? "p̂"
+        : "x̄"
+      : "x";
+
+  // The selected region as an event on the current scale
+  const regionVariable = isBernoulli
+    ? standardized
+      ? "X_n"
+      : useProportions
+        ? "\\hat{p}"
+        : "X"
+    : standardized
+      ? "Z_n"
+      : useProportions
+        ? "\\bar{X}_n"
+        : "S_n";
+  const regionValue = (value: number) =>
+    standardized
+      ? value.toFixed(2)
+      : useProportions
+        ? value.toFixed(3)
+        : formatLatticeValue(value);
+  const regionLow = regionValue(region.from);
+  const regionHigh = regionValue(region.to);
+  const regionEvent = {
+    between: `${regionLow} \\le ${regionVariable} \\le ${regionHigh}`,
+    below: `${regionVariable} \\le ${regionHigh}`,
+    above: `${regionVariable} \\ge ${regionLow}`,
+    outside: `${regionVariable} < ${regionLow} \\text{ or } ${regionVariable} > ${regionHigh}`,
+    sigma: `|${regionVariable} - \\mu| \\le ${sigmaK.toFixed(1)}\\sigma`,
+  }[regionMode];
+  const regionText = {
+    between: `[${regionLow}, ${regionHigh}]`,
+    below: `(−∞, ${regionHigh}]`,
+    above: `[${regionLow}, ∞)`,
+    outside: `outside [${regionLow}, ${regionHigh}]`,
+    sigma: `μ ± ${sigmaK.toFixed(1)}σ = [${regionLow}, ${regionHigh}]`,
+  }[regionMode];
+  // Header of the pinned series table, where μ ± kσ is each pin's own
+  const regionHeader = {
+    between: `P(${formatBound(xMinScaled)} ≤ ${axisSymbol} ≤ ${formatBound(xMaxScaled)})`,
+    below: `P(${axisSymbol} ≤ ${formatBound(xMaxScaled)})`,
+    above: `P(${axisSymbol} ≥ ${formatBound(xMinScaled)})`,
+    outside: `P(${axisSymbol} ∉ [${formatBound(xMinScaled)}, ${formatBound(xMaxScaled)}])`,
+    sigma: `P(|${axisSymbol} − μ| ≤ ${sigmaK.toFixed(1)}σ)`,
+  }[regionMode];
+
+  // A binomial range is written out as a sum over the lattice; everything
+  // else as the probability of an event
+  const exactFormula =
+    isBernoulli && regionMode === "between"
+      ? standardized
+        ? `\\sum_{${zMin.toFixed(2)} \\le x_{n,k} \\le ${zMax.toFixed(2)}} P(X_n = x_{n,k}) = ${binomialDiscreteSum.toFixed(6)}`
+        : useProportions
+          ? `\\sum_{\\hat{p}=${xMinScaled.toFixed(3)}}^{\\hat{p}=${xMaxScaled.toFixed(3)}} P(\\hat{p}) = ${binomialDiscreteSum.toFixed(6)}`
+          : `\\sum_{k=${xMin}}^{${xMax}} P(X=k) = ${binomialDiscreteSum.toFixed(6)}`
+      : `P(${regionEvent}) = ${
+          regionMode === "sigma"
+            ? `P(${regionLow} \\le ${regionVariable} \\le ${regionHigh}) = `
+            : ""
+        }${binomialDiscreteSum.toFixed(6)}`;
+
+  // The normal approximation of the region; outside [a, b] it is the
+  // complement of the integral over [a, b]
+  const normalInside = standardized
+    ? !Number.isFinite(integralMin)
+      ? `\\Phi(${latexBound(integralMax)})`
+      : !Number.isFinite(integralMax)
+        ? `1 - \\Phi(${latexBound(integralMin)})`
+        : `\\Phi(${latexBound(integralMax)}) - \\Phi(${latexBound(integralMin)})`
+    : useProportions
+      ? `\\int_{${latexBound(integralMin)}}^{${latexBound(integralMax)}} f(\\hat{p}) \\, d\\hat{p}`
+      : `\\int_{${latexBound(integralMin)}}^{${latexBound(integralMax)}} f(x) \\, dx`;
+  const normalFormula = !region.outside
+    ? normalInside
+    : standardized
+      ? `1 - [${normalInside}]`
+      : `1 - ${normalInside}`;
+
+  // The Edgeworth density is written in z, so the bounds are standardized
+  // whatever the x-axis shows
+  const zBound = (value: number) =>
+    standardized || !Number.isFinite(value)
+      ? latexBound(value)
+      : ((value - mu) / sigma).toFixed(4);
+  const edgeworthFormula = `${region.outside ? "1 - " : ""}\\int_{${zBound(integralMin)}}^{${zBound(integralMax)}} \\varphi(z)\\left[1 + \\tfrac{\\gamma_1}{6}(z^3 - 3z)\\right] \\, dz`;
+  // Poisson(np) summed over the same lattice points as the exact sum
+  const poissonFormula = `${region.outside ? "1 - " : ""}\\sum_{k=${latticeValue(sum, firstIndex)}}^{${Number.isFinite(sumTo) ? latticeValue(sum, lastIndex) : "\\infty"}} \\frac{e^{-\\lambda}\\lambda^k}{k!}`;
+
+  return (
+    <Box
+      width="100vw"
+      height="100vh"
+      bg="gray.900"
+      p={0}
+      m={0}
+      overflow="hidden"
+    >
+      <Flex
+        width="100%"
+        height="100%"
+        direction="column"
+        overflow="hidden"
+      >
+      <NavBar activeView={activeView} onActiveViewChange={setActiveView} />
+
+      {/* Main Content Area */}
+      <Flex flex={1} direction="row" overflow="hidden" minHeight={0}>
+        {activeView === "visualization" ? (
+          <>
+            {/* Sidebar */}
+            <Box
+              width="300px"
+              height="100%"
+              bg="gray.800"
+              borderRight="1px solid"
+              borderColor="gray.700"
+              p={2}
+              overflowY="auto"
+            >
+        <VStack align="stretch" gap={1.5}>
+          <Heading size="sm" color="gray.100" mb={1}>
+            Settings
+          </Heading>
+
+          <SourceControls
+            source={source}
+            onSourceChange={selectSource}
+            customPMFText={customPMFText}
+            customPMFError={customPMFError}
+            onCustomPMFChange={updateCustomPMF}
+            parameters={{ ...sourceParams, p }}
+            onParameterChange={(key, value) => {
+              if (key === "p") setP(value);
+              else setSourceParams((params) => ({ ...params, [key]: value }));
+            }}
+            xAxisMode={xAxisMode}
+            xAxisLocked={heldAxes !== "free"}
+            onXAxisModeChange={(mode) => {
+              setXAxisMode(mode);
+              // Standardized bars are meant to sit on φ(x), which needs
+              // heights scaled by 1/Δx_n
+              if (mode === "standardized") setYAxisMode("density");
+            }}
+            n={n}
+            maxTrials={maxTrials}
+            onNChange={setN}
+          />
+
+          <ParametersPanel
+            n={n}
+            p={p}
+            isBernoulli={isBernoulli}
+            source={sourceDist}
+            muFormula={muFormula}
+            sigmaFormula={sigmaFormula}
+            binWidth={standardized ? scale.binWidth : null}
+            skewness={skewness}
+            excessKurtosis={excessKurtosis}
+          />
+
+          {isBernoulli && (
+            <ExpectedValuesPanel
+              expectedSuccesses={expectedSuccesses}
+              expectedFailures={expectedFailures}
+              threshold={ruleThresholds.np10}
+            />
+          )}
+
+          <RegionControls
+            regionMode={regionMode}
+            onRegionModeChange={setRegionMode}
+            standardized={standardized}
+            zMin={zMin}
+            zMax={zMax}
+            onZMinChange={setZMin}
+            onZMaxChange={setZMax}
+            lattice={sum}
+            xMin={xMin}
+            xMax={xMax}
+            onXMinChange={setXMin}
+            onXMaxChange={setXMax}
+            sigmaK={sigmaK}
+            onSigmaKChange={setSigmaK}
+          />
+
+          <ApproximationOptions
+            continuous={sourceDist.continuous}
+            isBernoulli={isBernoulli}
+            xAxisMode={xAxisMode}
+            correction={correction}
+            onCorrectionChange={setCorrection}
+            showEdgeworth={showEdgeworth}
+            onShowEdgeworthChange={setShowEdgeworth}
+            showPoisson={showPoisson}
+            onShowPoissonChange={setShowPoisson}
+          />
+
+          <ProbabilityComparisonPanel
+            isBernoulli={isBernoulli}
+            regionText={regionText}
+            correctedBounds={
+              correctionOffset > 0
+                ? [formatBound(integralMin), formatBound(integralMax)]
+                : null
+            }
+            exactFormula={exactFormula}
+            exact={binomialDiscreteSum}
+            normalFormula={normalFormula}
+            normal={normalIntegralValue}
+            edgeworth={
+              showEdgeworth
+                ? { formula: edgeworthFormula, value: edgeworthIntegralValue }
+                : null
+            }
+            poisson={
+              poissonShown
+                ? { formula: poissonFormula, value: poissonRangeValue, mean: n * p }
+                : null
+            }
+            empiricalRule={empiricalRule}
+            regionVariable={regionVariable}
+          />
+
+          <ApproximationErrorPanel metrics={metrics} />
+
+          {isBernoulli && (
+            <RulesOfThumbPanel
+              checks={ruleChecks}
+              onThresholdChange={(id, threshold) =>
+                setRuleThresholds((current) => ({ ...current, [id]: threshold }))
+              }
+              errorTolerance={errorTolerance}
+              onErrorToleranceChange={setErrorTolerance}
+              kolmogorov={metrics.kolmogorov}
+            />
+          )}
+
+          {isBernoulli && (
+            <InferenceWorkbench
+              n={n}
+              p={p}
+              showTest={showTest}
+              onShowTestChange={setShowTest}
+              observed={observed}
+              onObservedChange={setObserved}
+              alternative={alternative}
+              onAlternativeChange={setAlternative}
+              alpha={alpha}
+              onAlphaChange={setAlpha}
+              correction={correction}
+              results={hypothesisTest}
+            />
+          )}
+        </VStack>
+      </Box>
+
+      {/* Main content */}
+      <Flex flex={1} direction="column" height="100%" minHeight={0} overflow="hidden">
+        <Box p={6} borderBottom="1px solid" borderColor="gray.700" flexShrink={0}>
+          <Heading size="xl" color="gray.100">
+            De Moivre-Laplace Theorem
+          </Heading>
+          <Text color="gray.400" mt={1} fontSize="sm">
+            by: Sanay Nesargi
+          </Text>
+          <Text color="gray.400" mt={2} fontSize="sm">
+            {isBernoulli
+              ? "Binomial Distribution Visualization"
+              : `Sum of n i.i.d. ${sourceDist.name} Draws`}
+          </Text>
+        </Box>
+
+        <Flex
+          flex={1}
+          direction="column"
+          p={6}
+          minHeight={0}
+          overflow="hidden"
+        >
+          <ChartToolbar
+            chartView={chartView}
+            onChartViewChange={(view) => {
+              setChartView(view);
+              setPlaying(false);
+            }}
+            convergenceMaxN={convergenceMaxN}
+            onConvergenceMaxNChange={setConvergenceMaxN}
+            showRangeError={showRangeError}
+            onShowRangeErrorChange={setShowRangeError}
+            yAxisMode={yAxisMode}
+            onYAxisModeChange={setYAxisMode}
+            yAxisLocked={heldAxes === "standardized"}
+            chartMode={chartMode}
+            onChartModeChange={(mode) => {
+              setChartMode(mode);
+              setPlaying(false);
+            }}
+            canPin={pins.length < PIN_COLORS.length}
+            hasPins={pins.length > 0}
+            onPin={pinCurrent}
+            onClearPins={() => setPins([])}
+            alpha={alpha}
+            onAlphaChange={setAlpha}
+            onExportSvg={exportSvg}
+            onExportPng={exportPng}
+            onExportCsv={exportCsv}
+            onExportJson={exportJson}
+            exportError={exportError}
+          />
+          {chartView === "distribution" && simulating && (
+            <SimulationControls
+              playing={playing}
+              onPlayingChange={setPlaying}
+              onStep={() => drawSamples(1)}
+              onReset={() => setSimulation(emptySimulation(seed, sum))}
+              speed={speed}
+              onSpeedChange={setSpeed}
+              seed={seed}
+              onSeedChange={setSeed}
+              samples={simulation.samples}
+              samplesPerTick={samplesPerTick}
+            />
+          )}
+          {chartView === "distribution" && (
+            <PlaybackControls
+              settings={playback}
+              onSettingsChange={setPlayback}
+              maxTrials={maxTrials}
+              frame={playbackFrame}
+              frameCount={playbackCounts.length}
+              recording={recordingVideo}
+              onStart={startPlayback}
+              onStop={stopPlayback}
+            />
+          )}
+          {chartView === "convergence" ? (
+            <ConvergenceChart
+              isBernoulli={isBernoulli}
+              data={convergenceData}
+              maxN={convergenceMaxN}
+              showRangeError={showRangeError}
+              zRange={zRange}
+              rangeOutside={region.outside}
+              chartRef={chartRef}
+            />
+          ) : chartView === "coverage" ? (
+            <CoverageView
+              n={coverageN}
+              p={p}
+              alpha={coverageAlpha}
+              isBernoulli={isBernoulli}
+              data={coverageData}
+              chartRef={chartRef}
+            />
+          ) : chartView === "regime" ? (
+            <RegimeView
+              n={n}
+              p={p}
+              isBernoulli={isBernoulli}
+              cells={regimeCells}
+              totalVariation={metrics.totalVariation}
+              chartRef={chartRef}
+            />
+          ) : (
+            <DistributionChart
+              data={data}
+              xDomain={[plotXMin, plotXMax]}
+              xAxisMode={xAxisMode}
+              yAxisMode={yAxisMode}
+              axesLocked={axesLocked}
+              step={sum.step}
+              isBernoulli={isBernoulli}
+              bounds={[integralMin, integralMax]}
+              shadedAreas={shadedAreas}
+              rejectionAreas={rejectionAreas}
+              observed={
+                hypothesisTest
+                  ? { x: scale.toX(observed), count: observed }
+                  : null
+              }
+              axisSymbol={axisSymbol}
+              formatBound={formatBound}
+              showEdgeworth={showEdgeworth}
+              showPoisson={poissonShown}
+              showSimulated={simulating && simulation.samples > 0}
+              pinnedCurves={pinnedCurves}
+              animate={playbackFrame === null}
+              chartRef={chartRef}
+              onRangeDragStart={startRangeDrag}
+              onRangeDrag={dragRangeTo}
+            />
+          )}
+          {chartView === "distribution" && pins.length > 0 && (
+            <PinsTable
+              n={n}
+              currentSourceName={sourceDist.name}
+              currentSummary={currentSummary}
+              pinnedCurves={pinnedCurves}
+              regionHeader={regionHeader}
+              standardized={standardized}
+              yAxisMode={yAxisMode}
+              onRename={renamePin}
+              onUnpin={unpin}
+            />
+          )}
+        </Flex>
+      </Flex>
+          </>
+        ) : activeView === "notes" ? (
+          <Flex flex={1} direction="column" height="100%" overflowY="auto">
+            <Box p={6} maxWidth="1200px" mx="auto" width="100%">
+              {notes.length > 1 && (
+                <HStack gap={2} mb={4} wrap="wrap">
+                  {notes.map((note) => (
+                    <Box
+                      key={note.slug}
+                      as="button"
+                      onClick={() => setActiveNote(note.slug)}
+                      px={3}
+                      py={1}
+                      borderRadius="md"
+                      bg={note.slug === activeNoteDocument.slug ? "blue.600" : "gray.700"}
+                      color={note.slug === activeNoteDocument.slug ? "white" : "gray.300"}
+                      _hover={{
+                        bg: note.slug === activeNoteDocument.slug ? "blue.700" : "gray.600",
+                      }}
+                      cursor="pointer"
+                      transition="all 0.2s"
+                    >
+                      <Text fontSize="xs" fontWeight="medium">
+                        {note.title}
+                      </Text>
+                    </Box>
+                  ))}
+                </HStack>
+              )}
+              <NoteDocumentView note={activeNoteDocument} embeds={proofEmbeds} />
+            </Box>
+          </Flex>
+        ) : activeView === "references" ? (
+          <Flex flex={1} direction="column" height="100%" overflowY="auto">
+            <Box p={6} maxWidth="1200px" mx="auto" width="100%">
+              <NoteDocumentView note={references} embeds={referenceEmbeds} />
+            </Box>
+          </Flex>
+        ) : activeView === "quiz" ? (
+          <Flex flex={1} direction="column" height="100%" overflowY="auto">
+            <Box p={6} maxWidth="1200px" mx="auto" width="100%">
+              <QuizView />
+            </Box>
+          </Flex>
+        ) : null}
+      </Flex>
+    </Flex>
+    </Box>
+  );
+}
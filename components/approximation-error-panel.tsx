@@ -0,0 +1,60 @@
+"use client";
+
+import { Box, Text } from "@chakra-ui/react";
+import { BlockMath } from "react-katex";
+import {
+  BERRY_ESSEEN_CONSTANT,
+  type ApproximationMetrics,
+} from "@/lib/distributions";
+
+// Distances between the exact distribution and the normal, next to the
+// Berry–Esseen bound on the largest of them
+export function ApproximationErrorPanel({
+  metrics,
+}: {
+  metrics: ApproximationMetrics;
+}) {
+  return (
+    <Box mt={1} p={1.5} bg="gray.700" borderRadius="md">
+      <Text color="gray.300" fontSize="xs" mb={0.5} fontWeight="bold">
+        Approximation Error:
+      </Text>
+      <Box mb={0.5}>
+        <Text color="gray.200" fontSize="xs" mb={0.5}>
+          Kolmogorov distance:
+        </Text>
+        <BlockMath
+          math={`\\sup_x |F_n(x) - \\Phi(x)| = ${metrics.kolmogorov.toExponential(3)}`}
+        />
+      </Box>
+      <Box mb={0.5}>
+        <Text color="gray.200" fontSize="xs" mb={0.5}>
+          Berry–Esseen bound (C = {BERRY_ESSEEN_CONSTANT}):
+        </Text>
+        <BlockMath
+          math={`\\frac{C\\rho}{\\sigma_X^3\\sqrt{n}} = ${metrics.berryEsseenBound.toExponential(3)}`}
+        />
+        <Text color="gray.400" fontSize="xs">
+          Actual / bound:{" "}
+          {(metrics.kolmogorov / metrics.berryEsseenBound).toFixed(3)}
+        </Text>
+      </Box>
+      <Box mb={0.5}>
+        <Text color="gray.200" fontSize="xs" mb={0.5}>
+          Total variation (vs. discretized normal):
+        </Text>
+        <BlockMath
+          math={`\\tfrac{1}{2}\\sum_k |P(S_n = k) - \\Delta\\Phi_k| = ${metrics.totalVariation.toExponential(3)}`}
+        />
+      </Box>
+      <Box>
+        <Text color="gray.200" fontSize="xs" mb={0.5}>
+          Max local error:
+        </Text>
+        <BlockMath
+          math={`\\max_k |P(S_n = k) - \\varphi(x_{n,k})\\Delta x| = ${metrics.maxLocalError.toExponential(3)}`}
+        />
+      </Box>
+    </Box>
+  );
+}
@@ -0,0 +1,113 @@
+"use client";
+
+import { Box, SegmentGroup, Text } from "@chakra-ui/react";
+import type { ContinuityCorrection, XAxisMode } from "@/lib/distributions";
+
+// The continuity correction of the normal approximation and the other
+// approximations that can be drawn next to it
+export function ApproximationOptions({
+  continuous,
+  isBernoulli,
+  xAxisMode,
+  correction,
+  onCorrectionChange,
+  showEdgeworth,
+  onShowEdgeworthChange,
+  showPoisson,
+  onShowPoissonChange,
+}: {
+  // Continuous sources have no gaps between values to correct for
+  continuous: boolean;
+  // The Poisson overlay is only offered for Bernoulli sources
+  isBernoulli: boolean;
+  xAxisMode: XAxisMode;
+  correction: ContinuityCorrection;
+  onCorrectionChange: (correction: ContinuityCorrection) => void;
+  showEdgeworth: boolean;
+  onShowEdgeworthChange: (show: boolean) => void;
+  showPoisson: boolean;
+  onShowPoissonChange: (show: boolean) => void;
+}) {
+  const standardized = xAxisMode === "standardized";
+  const useProportions = xAxisMode === "proportions";
+
+  return (
+    <>
+      {!continuous && (
+        <Box>
+          <Text color="gray.300" mb={0.5} fontSize="xs">
+            Normal Approximation Correction
+          </Text>
+          <SegmentGroup.Root
+            value={correction}
+            onValueChange={(details) =>
+              onCorrectionChange(details.value as ContinuityCorrection)
+            }
+            size="xs"
+            width="100%"
+          >
+            <SegmentGroup.Indicator />
+            <SegmentGroup.Items
+              flex={1}
+              items={[
+                { value: "none", label: "None" },
+                {
+                  value: "continuity",
+                  label: standardized
+                    ? "±Δx/2"
+                    : useProportions
+                      ? "±1/(2n)"
+                      : "±0.5",
+                },
+              ]}
+            />
+          </SegmentGroup.Root>
+        </Box>
+      )}
+
+      <Box>
+        <Text color="gray.300" mb={0.5} fontSize="xs">
+          Edgeworth Curve (skewness correction)
+        </Text>
+        <SegmentGroup.Root
+          value={showEdgeworth ? "on" : "off"}
+          onValueChange={(details) => onShowEdgeworthChange(details.value === "on")}
+          size="xs"
+          width="100%"
+        >
+          <SegmentGroup.Indicator />
+          <SegmentGroup.Items
+            flex={1}
+            items={[
+              { value: "off", label: "Off" },
+              { value: "on", label: "On" },
+            ]}
+          />
+        </SegmentGroup.Root>
+      </Box>
+
+      {isBernoulli && (
+        <Box>
+          <Text color="gray.300" mb={0.5} fontSize="xs">
+            Poisson Overlay (λ = np)
+          </Text>
+          <SegmentGroup.Root
+            value={showPoisson ? "on" : "off"}
+            onValueChange={(details) => onShowPoissonChange(details.value === "on")}
+            size="xs"
+            width="100%"
+          >
+            <SegmentGroup.Indicator />
+            <SegmentGroup.Items
+              flex={1}
+              items={[
+                { value: "off", label: "Off" },
+                { value: "on", label: "On" },
+              ]}
+            />
+          </SegmentGroup.Root>
+        </Box>
+      )}
+    </>
+  );
+}
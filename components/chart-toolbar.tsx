@@ -0,0 +1,241 @@
+"use client";
+
+import { Box, Button, HStack, SegmentGroup, Text } from "@chakra-ui/react";
+import type { YAxisMode } from "@/lib/distributions";
+import {
+  CONVERGENCE_MAX_N_OPTIONS,
+  SIGNIFICANCE_LEVELS,
+  type ChartMode,
+  type ChartView,
+} from "@/lib/visualizationState";
+import { REGIME_COLORS } from "@/components/regime-view";
+
+// The row above the chart: which view to show, the settings of that view,
+// pins, and image and data exports
+export function ChartToolbar({
+  chartView,
+  onChartViewChange,
+  convergenceMaxN,
+  onConvergenceMaxNChange,
+  showRangeError,
+  onShowRangeErrorChange,
+  yAxisMode,
+  onYAxisModeChange,
+  yAxisLocked,
+  chartMode,
+  onChartModeChange,
+  canPin,
+  hasPins,
+  onPin,
+  onClearPins,
+  alpha,
+  onAlphaChange,
+  onExportSvg,
+  onExportPng,
+  onExportCsv,
+  onExportJson,
+  exportError,
+}: {
+  chartView: ChartView;
+  onChartViewChange: (view: ChartView) => void;
+  convergenceMaxN: number;
+  onConvergenceMaxNChange: (maxN: number) => void;
+  showRangeError: boolean;
+  onShowRangeErrorChange: (show: boolean) => void;
+  yAxisMode: YAxisMode;
+  onYAxisModeChange: (mode: YAxisMode) => void;
+  // Playback holding the axes on z-scores fixes the y axis to density
+  yAxisLocked: boolean;
+  chartMode: ChartMode;
+  onChartModeChange: (mode: ChartMode) => void;
+  // False once every pin color is in use
+  canPin: boolean;
+  hasPins: boolean;
+  onPin: () => void;
+  onClearPins: () => void;
+  // Significance level of the coverage view's intervals
+  alpha: number;
+  onAlphaChange: (alpha: number) => void;
+  onExportSvg: () => void;
+  onExportPng: () => void;
+  onExportCsv: () => void;
+  onExportJson: () => void;
+  // Message of the last export that failed, if any
+  exportError: string | null;
+}) {
+  return (
+    <>
+      <HStack gap={2} mb={2} flexShrink={0} flexWrap="wrap">
+        <Text color="gray.300" fontSize="xs">
+          View:
+        </Text>
+        <SegmentGroup.Root
+          value={chartView}
+          onValueChange={(details) =>
+            onChartViewChange(details.value as ChartView)
+          }
+          size="xs"
+        >
+          <SegmentGroup.Indicator />
+          <SegmentGroup.Items
+            items={[
+              { value: "distribution", label: "Distribution" },
+              { value: "convergence", label: "Convergence" },
+              { value: "regime", label: "Normal vs Poisson" },
+              { value: "coverage", label: "CI Coverage" },
+            ]}
+          />
+        </SegmentGroup.Root>
+        {chartView === "convergence" && (
+          <>
+            <Text color="gray.300" fontSize="xs" ml={4}>
+              Max n:
+            </Text>
+            <SegmentGroup.Root
+              value={String(convergenceMaxN)}
+              onValueChange={(details) =>
+                onConvergenceMaxNChange(Number(details.value))
+              }
+              size="xs"
+            >
+              <SegmentGroup.Indicator />
+              <SegmentGroup.Items
+                items={CONVERGENCE_MAX_N_OPTIONS.map((value) => ({
+                  value: String(value),
+                  label: value.toLocaleString(),
+                }))}
+              />
+            </SegmentGroup.Root>
+            <Text color="gray.300" fontSize="xs" ml={4}>
+              Range error:
+            </Text>
+            <SegmentGroup.Root
+              value={showRangeError ? "on" : "off"}
+              onValueChange={(details) =>
+                onShowRangeErrorChange(details.value === "on")
+              }
+              size="xs"
+            >
+              <SegmentGroup.Indicator />
+              <SegmentGroup.Items
+                items={[
+                  { value: "off", label: "Off" },
+                  { value: "on", label: "On" },
+                ]}
+              />
+            </SegmentGroup.Root>
+          </>
+        )}
+        {chartView === "distribution" && (
+          <>
+            <Text color="gray.300" fontSize="xs" ml={4}>
+              Y Axis:
+            </Text>
+            <SegmentGroup.Root
+              value={yAxisMode}
+              disabled={yAxisLocked}
+              onValueChange={(details) =>
+                onYAxisModeChange(details.value as YAxisMode)
+              }
+              size="xs"
+            >
+              <SegmentGroup.Indicator />
+              <SegmentGroup.Items
+                items={[
+                  { value: "probability", label: "Probability" },
+                  { value: "density", label: "Density" },
+                ]}
+              />
+            </SegmentGroup.Root>
+            <Text color="gray.300" fontSize="xs" ml={4}>
+              Mode:
+            </Text>
+            <SegmentGroup.Root
+              value={chartMode}
+              onValueChange={(details) =>
+                onChartModeChange(details.value as ChartMode)
+              }
+              size="xs"
+            >
+              <SegmentGroup.Indicator />
+              <SegmentGroup.Items
+                items={[
+                  { value: "exact", label: "Exact" },
+                  { value: "simulate", label: "Simulate" },
+                ]}
+              />
+            </SegmentGroup.Root>
+            <Button
+              size="xs"
+              colorPalette="teal"
+              ml={4}
+              disabled={!canPin}
+              onClick={onPin}
+            >
+              Pin
+            </Button>
+            {hasPins && (
+              <Button size="xs" variant="outline" onClick={onClearPins}>
+                Clear pins
+              </Button>
+            )}
+          </>
+        )}
+        {chartView === "coverage" && (
+          <>
+            <Text color="gray.300" fontSize="xs" ml={4}>
+              Confidence:
+            </Text>
+            <SegmentGroup.Root
+              value={String(alpha)}
+              onValueChange={(details) => onAlphaChange(Number(details.value))}
+              size="xs"
+            >
+              <SegmentGroup.Indicator />
+              <SegmentGroup.Items
+                items={SIGNIFICANCE_LEVELS.map((level) => ({
+                  value: String(level),
+                  label: `${Math.round((1 - level) * 100)}%`,
+                }))}
+              />
+            </SegmentGroup.Root>
+          </>
+        )}
+        {chartView === "regime" && (
+          <Text color="gray.300" fontSize="xs" ml={4}>
+            Lower total variation distance:{" "}
+            <Text as="span" color={REGIME_COLORS.normal}>
+              normal
+            </Text>{" "}
+            or{" "}
+            <Text as="span" color={REGIME_COLORS.poisson}>
+              Poisson
+            </Text>
+            ; paler cells are closer calls
+          </Text>
+        )}
+        <Box flex={1} />
+        <Text color="gray.300" fontSize="xs">
+          Export:
+        </Text>
+        <Button size="xs" variant="outline" onClick={onExportSvg}>
+          SVG
+        </Button>
+        <Button size="xs" variant="outline" onClick={onExportPng}>
+          PNG
+        </Button>
+        <Button size="xs" variant="outline" onClick={onExportCsv}>
+          CSV
+        </Button>
+        <Button size="xs" variant="outline" onClick={onExportJson}>
+          JSON
+        </Button>
+      </HStack>
+      {exportError && (
+        <Text color="red.300" fontSize="xs" mb={2}>
+          Export failed: {exportError}
+        </Text>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,193 @@
+"use client";
+
+import { useMemo, type RefObject } from "react";
+import { Box, Text } from "@chakra-ui/react";
+import {
+  CartesianGrid,
+  Legend,
+  Line,
+  LineChart,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from "recharts";
+import { powerOfTenTicks } from "@/lib/distributions";
+
+// Error metrics at one n, with the values a log axis cannot show left out
+export interface ConvergenceChartPoint {
+  n: number;
+  kolmogorov: number | null;
+  totalVariation: number | null;
+  maxLocalError: number | null;
+  rangeError: number | null;
+  berryEsseenBound: number | null;
+  reference: number | null;
+}
+
+const formatZ = (z: number) =>
+  Number.isFinite(z) ? z.toFixed(2) : z > 0 ? "∞" : "−∞";
+
+// How the distances between the binomial and the normal shrink with n, on
+// log-log axes next to the Berry–Esseen bound and an n^(-1/2) reference
+export function ConvergenceChart({
+  isBernoulli,
+  data,
+  maxN,
+  showRangeError,
+  zRange,
+  rangeOutside,
+  chartRef,
+}: {
+  isBernoulli: boolean;
+  data: ConvergenceChartPoint[];
+  maxN: number;
+  showRangeError: boolean;
+  // The integration range in z-scores, and whether the region is outside it
+  zRange: [number, number];
+  rangeOutside: boolean;
+  // The chart's container, for image exports
+  chartRef: RefObject<HTMLDivElement | null>;
+}) {
+  const yTicks = useMemo(() => {
+    const values = data.flatMap((point) =>
+      [
+        point.kolmogorov,
+        point.totalVariation,
+        point.maxLocalError,
+        point.rangeError,
+        point.berryEsseenBound,
+      ].filter((value): value is number => value !== null),
+    );
+    if (values.length === 0) return [1e-3, 1];
+    return powerOfTenTicks(Math.min(...values), Math.max(...values));
+  }, [data]);
+
+  return (
+    <Box flex={1} minHeight={0} ref={chartRef}>
+      {isBernoulli ? (
+        <ResponsiveContainer width="100%" height="100%">
+          <LineChart
+            data={data}
+            margin={{ top: 20, right: 30, left: 20, bottom: 20 }}
+          >
+            <CartesianGrid
+              strokeDasharray="3 3"
+              stroke="#4a5568"
+              opacity={0.3}
+            />
+            <XAxis
+              dataKey="n"
+              type="number"
+              scale="log"
+              domain={[1, maxN]}
+              ticks={powerOfTenTicks(1, maxN)}
+              stroke="#a0aec0"
+              tick={{ fill: "#a0aec0" }}
+              label={{
+                value: "n (number of trials, log scale)",
+                position: "insideBottom",
+                offset: -5,
+                fill: "#cbd5e0",
+                style: { fontSize: "14px" },
+              }}
+            />
+            <YAxis
+              type="number"
+              scale="log"
+              domain={[
+                yTicks[0],
+                yTicks[yTicks.length - 1],
+              ]}
+              ticks={yTicks}
+              allowDataOverflow
+              tickFormatter={(value: number) => value.toExponential(0)}
+              stroke="#a0aec0"
+              tick={{ fill: "#a0aec0" }}
+              label={{
+                value: "Error (log scale)",
+                angle: -90,
+                position: "insideLeft",
+                fill: "#cbd5e0",
+                style: { fontSize: "14px" },
+              }}
+            />
+            <Tooltip
+              contentStyle={{
+                backgroundColor: "rgba(26, 32, 44, 0.95)",
+                border: "1px solid #4a5568",
+                borderRadius: "8px",
+                color: "#cbd5e0",
+              }}
+              labelStyle={{ color: "#e2e8f0" }}
+              labelFormatter={(value) => `n = ${value}`}
+              formatter={(value: number | undefined, name: string | undefined) => {
+                if (value === undefined || name === undefined) return ["", ""];
+                return [value.toExponential(3), name];
+              }}
+            />
+            <Legend verticalAlign="top" wrapperStyle={{ fontSize: "12px" }} />
+            <Line
+              dataKey="kolmogorov"
+              name="Kolmogorov distance"
+              stroke="#60a5fa"
+              strokeWidth={2}
+              dot={false}
+              isAnimationActive={false}
+            />
+            <Line
+              dataKey="totalVariation"
+              name="Total variation"
+              stroke="#4ade80"
+              strokeWidth={2}
+              dot={false}
+              isAnimationActive={false}
+            />
+            <Line
+              dataKey="maxLocalError"
+              name="Max local error"
+              stroke="#c084fc"
+              strokeWidth={2}
+              dot={false}
+              isAnimationActive={false}
+            />
+            {showRangeError && (
+              <Line
+                dataKey="rangeError"
+                name={`Range error, z ${rangeOutside ? "∉" : "∈"} [${formatZ(zRange[0])}, ${formatZ(zRange[1])}]`}
+                stroke="#f59e0b"
+                strokeWidth={2}
+                dot={false}
+                isAnimationActive={false}
+              />
+            )}
+            <Line
+              dataKey="berryEsseenBound"
+              name="Berry–Esseen bound"
+              stroke="#f87171"
+              strokeWidth={2}
+              strokeDasharray="6 4"
+              dot={false}
+              isAnimationActive={false}
+            />
+            <Line
+              dataKey="reference"
+              name="Reference slope n^(-1/2)"
+              stroke="#a0aec0"
+              strokeWidth={1.5}
+              strokeDasharray="2 4"
+              dot={false}
+              isAnimationActive={false}
+            />
+          </LineChart>
+        </ResponsiveContainer>
+      ) : (
+        <Text color="gray.400" fontSize="sm">
+          The convergence sweep recomputes the exact distribution for
+          every n, which is only fast enough for Bernoulli sources.
+          Choose Bernoulli(p) to see it.
+        </Text>
+      )}
+    </Box>
+  );
+}
@@ -0,0 +1,171 @@
+"use client";
+
+import { useMemo, type RefObject } from "react";
+import { Box, Flex, Text } from "@chakra-ui/react";
+import {
+  CartesianGrid,
+  Legend,
+  Line,
+  LineChart,
+  ReferenceLine,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from "recharts";
+import {
+  CONFIDENCE_INTERVAL_METHODS,
+  COVERAGE_MAX_N,
+  type ConfidenceIntervalMethod,
+  type CoveragePoint,
+} from "@/lib/distributions";
+
+// Line colors of the interval methods
+const INTERVAL_COLORS: Record<ConfidenceIntervalMethod, string> = {
+  wald: "#f87171",
+  wilson: "#60a5fa",
+  agrestiCoull: "#4ade80",
+  clopperPearson: "#c084fc",
+};
+
+// Exact coverage of each confidence interval method against p, at the
+// current n (capped at COVERAGE_MAX_N) and the level 1 - α. The page
+// computes the curves, which it also exports.
+export function CoverageView({
+  n,
+  p,
+  alpha,
+  isBernoulli,
+  data,
+  chartRef,
+}: {
+  n: number;
+  p: number;
+  alpha: number;
+  isBernoulli: boolean;
+  data: CoveragePoint[];
+  // The chart's container, for image exports
+  chartRef: RefObject<HTMLDivElement | null>;
+}) {
+  const coverageN = Math.min(n, COVERAGE_MAX_N);
+  const yMin = useMemo(() => {
+    const lowest = Math.min(
+      ...data.flatMap((point) =>
+        CONFIDENCE_INTERVAL_METHODS.map(({ method }) => point[method]),
+      ),
+    );
+    // Keep the interesting band near the nominal level readable; the Wald
+    // curve may dive below it at extreme p
+    return Math.max(0.5, Math.floor(lowest * 20) / 20);
+  }, [data]);
+
+  return (
+    <Flex flex={1} minHeight={0} direction="column">
+      {isBernoulli ? (
+        <>
+          <Box flex={1} minHeight={0} ref={chartRef}>
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart
+                data={data}
+                margin={{ top: 20, right: 30, left: 20, bottom: 20 }}
+              >
+                <CartesianGrid
+                  strokeDasharray="3 3"
+                  stroke="#4a5568"
+                  opacity={0.3}
+                />
+                <XAxis
+                  dataKey="p"
+                  type="number"
+                  domain={[0, 1]}
+                  ticks={[0, 0.2, 0.4, 0.6, 0.8, 1]}
+                  stroke="#a0aec0"
+                  tick={{ fill: "#a0aec0" }}
+                  label={{
+                    value: "p (true success probability)",
+                    position: "insideBottom",
+                    offset: -5,
+                    fill: "#cbd5e0",
+                    style: { fontSize: "14px" },
+                  }}
+                />
+                <YAxis
+                  type="number"
+                  domain={[yMin, 1]}
+                  allowDataOverflow
+                  tickFormatter={(value: number) => value.toFixed(2)}
+                  stroke="#a0aec0"
+                  tick={{ fill: "#a0aec0" }}
+                  label={{
+                    value: "Coverage probability",
+                    angle: -90,
+                    position: "insideLeft",
+                    fill: "#cbd5e0",
+                    style: { fontSize: "14px" },
+                  }}
+                />
+                <Tooltip
+                  contentStyle={{
+                    backgroundColor: "rgba(26, 32, 44, 0.95)",
+                    border: "1px solid #4a5568",
+                    borderRadius: "8px",
+                    color: "#cbd5e0",
+                  }}
+                  labelStyle={{ color: "#e2e8f0" }}
+                  labelFormatter={(value) =>
+                    `p = ${Number(value).toFixed(4)}`
+                  }
+                  formatter={(value: number | undefined, name: string | undefined) => {
+                    if (value === undefined || name === undefined) return ["", ""];
+                    return [value.toFixed(4), name];
+                  }}
+                />
+                <Legend verticalAlign="top" wrapperStyle={{ fontSize: "12px" }} />
+                <ReferenceLine
+                  y={1 - alpha}
+                  stroke="#e2e8f0"
+                  strokeWidth={1.5}
+                  strokeDasharray="6 4"
+                  label={{
+                    value: `nominal ${Math.round((1 - alpha) * 100)}%`,
+                    position: "insideBottomRight",
+                    fill: "#e2e8f0",
+                    fontSize: 12,
+                  }}
+                />
+                <ReferenceLine
+                  x={p}
+                  stroke="#a0aec0"
+                  strokeDasharray="2 4"
+                />
+                {CONFIDENCE_INTERVAL_METHODS.map(({ method, label }) => (
+                  <Line
+                    key={method}
+                    dataKey={method}
+                    name={label}
+                    stroke={INTERVAL_COLORS[method]}
+                    strokeWidth={1.5}
+                    dot={false}
+                    isAnimationActive={false}
+                  />
+                ))}
+              </LineChart>
+            </ResponsiveContainer>
+          </Box>
+          <Text color="gray.300" fontSize="xs" mt={2} flexShrink={0}>
+            Exact coverage P(lower(X) ≤ p ≤ upper(X)) for X ~
+            Binomial({coverageN}, p), summed over all outcomes; the
+            dotted line marks the current p.
+            {n > COVERAGE_MAX_N &&
+              ` n is capped at ${COVERAGE_MAX_N.toLocaleString()} for this view.`}
+          </Text>
+        </>
+      ) : (
+        <Text color="gray.400" fontSize="sm">
+          Coverage is computed for intervals for a binomial
+          proportion. Choose Bernoulli(p) to see it.
+        </Text>
+      )}
+    </Flex>
+  );
+}
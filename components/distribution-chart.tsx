@@ -0,0 +1,384 @@
+"use client";
+
+import { useRef, useState, type PointerEvent, type RefObject } from "react";
+import { Box } from "@chakra-ui/react";
+import {
+  Bar,
+  CartesianGrid,
+  ComposedChart,
+  DefaultZIndexes,
+  Legend,
+  Line,
+  ReferenceArea,
+  ReferenceLine,
+  ResponsiveContainer,
+  Tooltip,
+  usePlotArea,
+  useXAxisDomain,
+  XAxis,
+  YAxis,
+  ZIndexLayer,
+} from "recharts";
+import {
+  formatLatticeValue,
+  type BinomialChartPoint,
+  type XAxisMode,
+  type YAxisMode,
+} from "@/lib/distributions";
+import { grabbedEdge } from "@/lib/rangeDrag";
+import type { PinnedCurve } from "@/components/pins-table";
+
+// Top of the density axis while playback holds the axes on z-scores: a
+// little above φ(0) ≈ 0.4
+const LOCKED_DENSITY_MAX = 0.45;
+
+// A transparent layer over the plot area of a chart that reports presses
+// and drags as x values. `edges` are the range edges drawn on the chart
+// (null for an open end); a press close to one takes hold of it.
+function RangeDragLayer({
+  edges,
+  onDragStart,
+  onDrag,
+}: {
+  edges: (number | null)[];
+  onDragStart: (x: number, edge: number | null) => void;
+  onDrag: (x: number) => void;
+}) {
+  const plotArea = usePlotArea();
+  const domain = useXAxisDomain();
+  const [nearEdge, setNearEdge] = useState(false);
+  const dragging = useRef(false);
+  if (!plotArea || !domain || typeof domain[0] !== "number") return null;
+
+  const [domainMin, domainMax] = domain as number[];
+  const toPixel = (x: number) =>
+    plotArea.x +
+    ((x - domainMin) / (domainMax - domainMin)) * plotArea.width;
+  const edgePixels = edges.map((edge) => (edge === null ? null : toPixel(edge)));
+  // Pointer position in chart pixels, kept inside the plot area
+  const pointerPixel = (event: PointerEvent<SVGRectElement>) => {
+    const svg = event.currentTarget.ownerSVGElement;
+    const left = svg ? svg.getBoundingClientRect().left : 0;
+    return Math.min(
+      Math.max(event.clientX - left, plotArea.x),
+      plotArea.x + plotArea.width,
+    );
+  };
+  const toValue = (pixel: number) =>
+    domainMin +
+    ((pixel - plotArea.x) / plotArea.width) * (domainMax - domainMin);
+
+  return (
+    <ZIndexLayer zIndex={DefaultZIndexes.label + 1}>
+      <rect
+        x={plotArea.x}
+        y={plotArea.y}
+        width={plotArea.width}
+        height={plotArea.height}
+        fill="transparent"
+        style={{
+          cursor: nearEdge ? "ew-resize" : "crosshair",
+          touchAction: "none",
+        }}
+        onPointerDown={(event) => {
+          event.currentTarget.setPointerCapture(event.pointerId);
+          dragging.current = true;
+          const pixel = pointerPixel(event);
+          onDragStart(toValue(pixel), grabbedEdge(pixel, edgePixels));
+        }}
+        onPointerMove={(event) => {
+          const pixel = pointerPixel(event);
+          if (dragging.current) onDrag(toValue(pixel));
+          else setNearEdge(grabbedEdge(pixel, edgePixels) !== null);
+        }}
+        onPointerUp={() => {
+          dragging.current = false;
+        }}
+        onPointerCancel={() => {
+          dragging.current = false;
+        }}
+      />
+    </ZIndexLayer>
+  );
+}
+
+// The exact distribution of the sum as bars, with the normal curve, the
+// optional Edgeworth, Poisson and simulated series and any pinned series
+// over it. The integration range is shaded and can be dragged on the chart.
+export function DistributionChart({
+  data,
+  xDomain,
+  xAxisMode,
+  yAxisMode,
+  axesLocked,
+  step,
+  isBernoulli,
+  bounds,
+  shadedAreas,
+  rejectionAreas,
+  observed,
+  axisSymbol,
+  formatBound,
+  showEdgeworth,
+  showPoisson,
+  showSimulated,
+  pinnedCurves,
+  animate,
+  chartRef,
+  onRangeDragStart,
+  onRangeDrag,
+}: {
+  data: BinomialChartPoint[];
+  xDomain: [number, number];
+  xAxisMode: XAxisMode;
+  yAxisMode: YAxisMode;
+  // Whether playback holds the axes still on z-scores
+  axesLocked: boolean;
+  // Spacing of the lattice on the count axis
+  step: number;
+  isBernoulli: boolean;
+  // Integration bounds on the x axis; a tail's open end is infinite
+  bounds: [number, number];
+  shadedAreas: [number, number][];
+  rejectionAreas: [number, number][];
+  // The observed count of a hypothesis test and where it falls on the x axis
+  observed: { x: number; count: number } | null;
+  axisSymbol: string;
+  formatBound: (value: number) => string;
+  showEdgeworth: boolean;
+  showPoisson: boolean;
+  showSimulated: boolean;
+  pinnedCurves: PinnedCurve[];
+  // Off during playback, where frames follow each other too fast to animate
+  animate: boolean;
+  // The chart's container, for image exports
+  chartRef: RefObject<HTMLDivElement | null>;
+  onRangeDragStart: (x: number, edge: number | null) => void;
+  onRangeDrag: (x: number) => void;
+}) {
+  const standardized = xAxisMode === "standardized";
+  const useProportions = xAxisMode === "proportions";
+
+  // Series names follow the y-axis mode: in probability mode the curve is
+  // the density times the bar width Δx, in density mode the bars are divided
+  // by it
+  const exactName = isBernoulli ? "Binomial PMF" : "Exact P(Sₙ)";
+  const binomialSeriesName =
+    yAxisMode === "density" ? `${exactName} / Δx` : exactName;
+  const normalSeriesName =
+    yAxisMode === "density" ? "Normal density" : "Normal density × Δx";
+  const simulatedSeriesName =
+    yAxisMode === "density" ? "Simulated frequency / Δx" : "Simulated frequency";
+
+  return (
+    <Box flex={1} minHeight={0} ref={chartRef}>
+      <ResponsiveContainer width="100%" height="100%">
+        <ComposedChart
+          data={data}
+          margin={{ top: 20, right: 30, left: 20, bottom: 20 }}
+        >
+          <CartesianGrid
+            strokeDasharray="3 3"
+            stroke="#4a5568"
+            opacity={0.3}
+          />
+          <XAxis
+            dataKey="x"
+            type="number"
+            domain={xDomain}
+            allowDataOverflow={axesLocked}
+            allowDecimals={xAxisMode !== "counts" || step < 1}
+            tickFormatter={(value: number) =>
+              xAxisMode === "counts"
+                ? formatLatticeValue(value)
+                : value.toFixed(2)
+            }
+            stroke="#a0aec0"
+            tick={{ fill: "#a0aec0" }}
+            label={{
+              value: isBernoulli
+                ? standardized
+                  ? "x_{n,k} = (k − np)/√(npq) (standardized)"
+                  : useProportions
+                    ? "p̂ (sample proportion)"
+                    : "k (number of successes)"
+                : standardized
+                  ? "(Sₙ − nμ_X)/(σ_X√n) (standardized)"
+                  : useProportions
+                    ? "X̄ₙ (sample mean)"
+                    : "Sₙ (sum of n draws)",
+              position: "insideBottom",
+              offset: -5,
+              fill: "#cbd5e0",
+              style: { fontSize: "14px" },
+            }}
+          />
+          <YAxis
+            domain={
+              axesLocked && yAxisMode === "density"
+                ? [0, (dataMax: number) => Math.max(dataMax, LOCKED_DENSITY_MAX)]
+                : undefined
+            }
+            stroke="#a0aec0"
+            tick={{ fill: "#a0aec0" }}
+            label={{
+              value: yAxisMode === "density" ? "Density" : "Probability",
+              angle: -90,
+              position: "insideLeft",
+              fill: "#cbd5e0",
+              style: { fontSize: "14px" },
+            }}
+          />
+          {shadedAreas.map(([x1, x2]) => (
+            <ReferenceArea
+              key={x1}
+              x1={x1}
+              x2={x2}
+              fill="#22c55e"
+              fillOpacity={0.2}
+              stroke="none"
+            />
+          ))}
+          {bounds
+            .filter((bound) => Number.isFinite(bound))
+            .map((bound) => (
+              <ReferenceLine
+                key={bound}
+                x={bound}
+                stroke="#22c55e"
+                strokeWidth={2}
+                strokeDasharray="5 5"
+                label={{
+                  value: `${axisSymbol}=${formatBound(bound)}`,
+                  position: "top",
+                  fill: "#22c55e",
+                  fontSize: 12,
+                }}
+              />
+            ))}
+          {rejectionAreas.map(([x1, x2]) => (
+            <ReferenceArea
+              key={x1}
+              x1={x1}
+              x2={x2}
+              fill="#ef4444"
+              fillOpacity={0.15}
+              stroke="none"
+            />
+          ))}
+          {observed && (
+            <ReferenceLine
+              x={observed.x}
+              stroke="#e2e8f0"
+              strokeWidth={2}
+              label={{
+                value: `x=${observed.count}`,
+                position: "insideTopRight",
+                fill: "#e2e8f0",
+                fontSize: 12,
+              }}
+            />
+          )}
+          <Tooltip
+            contentStyle={{
+              backgroundColor: "rgba(26, 32, 44, 0.95)",
+              border: "1px solid #4a5568",
+              borderRadius: "8px",
+              color: "#cbd5e0",
+            }}
+            labelStyle={{ color: "#e2e8f0" }}
+            formatter={(value: number | undefined, name: string | undefined) => {
+              if (value === undefined || name === undefined) return ["", ""];
+              return [value.toFixed(6), name];
+            }}
+          />
+          <Bar
+            dataKey="y"
+            fill="#60a5fa"
+            name={binomialSeriesName}
+            opacity={0.7}
+            isAnimationActive={animate}
+          />
+          <Line
+            type="monotone"
+            dataKey="normalY"
+            stroke="#f59e0b"
+            strokeWidth={3}
+            dot={false}
+            name={normalSeriesName}
+            isAnimationActive={animate}
+          />
+          {showEdgeworth && (
+            <Line
+              type="monotone"
+              dataKey="edgeworthY"
+              stroke="#f97316"
+              strokeWidth={2}
+              strokeDasharray="6 3"
+              dot={false}
+              isAnimationActive={animate}
+              name={
+                yAxisMode === "density"
+                  ? "Edgeworth density"
+                  : "Edgeworth density × Δx"
+              }
+            />
+          )}
+          {showPoisson && (
+            <Line
+              type="linear"
+              dataKey="poissonY"
+              stroke="#c084fc"
+              strokeWidth={1}
+              strokeDasharray="2 3"
+              dot={data.length <= 100 ? { r: 3, fill: "#c084fc" } : false}
+              isAnimationActive={animate}
+              name={
+                yAxisMode === "density"
+                  ? "Poisson(np) probability / Δx"
+                  : "Poisson(np) probability"
+              }
+            />
+          )}
+          {showSimulated && (
+            <Line
+              type="step"
+              dataKey="empiricalY"
+              stroke="#f472b6"
+              strokeWidth={2}
+              dot={false}
+              isAnimationActive={false}
+              name={simulatedSeriesName}
+            />
+          )}
+          {pinnedCurves.map(({ pin, points }) => (
+            <Line
+              key={pin.id}
+              data={points}
+              type="step"
+              dataKey="y"
+              stroke={pin.color}
+              strokeWidth={2}
+              dot={false}
+              isAnimationActive={false}
+              name={pin.name}
+            />
+          ))}
+          {pinnedCurves.length > 0 && (
+            <Legend
+              verticalAlign="top"
+              wrapperStyle={{ fontSize: "12px" }}
+            />
+          )}
+          <RangeDragLayer
+            edges={bounds.map((edge) =>
+              Number.isFinite(edge) ? edge : null,
+            )}
+            onDragStart={onRangeDragStart}
+            onDrag={onRangeDrag}
+          />
+        </ComposedChart>
+      </ResponsiveContainer>
+    </Box>
+  );
+}
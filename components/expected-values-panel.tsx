@@ -0,0 +1,64 @@
+"use client";
+
+import { Box, Text } from "@chakra-ui/react";
+import { BlockMath } from "react-katex";
+
+// The expected numbers of successes and failures, in green when both
+// reach the np ≥ threshold rule of thumb
+export function ExpectedValuesPanel({
+  expectedSuccesses,
+  expectedFailures,
+  threshold,
+}: {
+  expectedSuccesses: number;
+  expectedFailures: number;
+  threshold: number;
+}) {
+  return (
+    <Box mt={1} p={1.5} bg="gray.700" borderRadius="md">
+      <Text color="gray.300" fontSize="xs" mb={0.5} fontWeight="bold">
+        Expected Values:
+      </Text>
+      <Box mb={0.5}>
+        <Text color="gray.200" fontSize="xs" mb={0.5}>
+          Expected Successes:
+        </Text>
+        <Box
+          css={{
+            "& .katex": {
+              color:
+                expectedSuccesses >= threshold
+                  ? "#4ade80"
+                  : "#f87171",
+            },
+          }}
+        >
+          <BlockMath math={`E[X] = np = ${expectedSuccesses.toFixed(2)}`} />
+        </Box>
+      </Box>
+      <Box>
+        <Text color="gray.200" fontSize="xs" mb={0.5}>
+          Expected Failures:
+        </Text>
+        <Box
+          css={{
+            "& .katex": {
+              color:
+                expectedFailures >= threshold
+                  ? "#4ade80"
+                  : "#f87171",
+            },
+          }}
+        >
+          <BlockMath math={`E[n-X] = n(1-p) = ${expectedFailures.toFixed(2)}`} />
+        </Box>
+      </Box>
+      {expectedSuccesses < threshold && (
+        <Text color="gray.400" fontSize="xs">
+          With few expected successes Poisson(np) is often closer than
+          the normal; turn on the Poisson overlay to compare.
+        </Text>
+      )}
+    </Box>
+  );
+}
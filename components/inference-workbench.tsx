@@ -0,0 +1,199 @@
+"use client";
+
+import {
+  Box,
+  HStack,
+  Input,
+  NativeSelect,
+  SegmentGroup,
+  Text,
+} from "@chakra-ui/react";
+import { BlockMath, InlineMath } from "react-katex";
+import {
+  CONFIDENCE_INTERVAL_METHODS,
+  type Alternative,
+  type ContinuityCorrection,
+} from "@/lib/distributions";
+import type { HypothesisTestResults } from "@/lib/export";
+import { SIGNIFICANCE_LEVELS } from "@/lib/visualizationState";
+
+// Alternatives of the hypothesis test as written in the workbench
+const ALTERNATIVE_LABELS: Record<Alternative, string> = {
+  twoSided: "p ≠ p₀ (two-sided)",
+  less: "p < p₀",
+  greater: "p > p₀",
+};
+
+// Sidebar panel for testing H₀: p = p₀ (the p slider) against x successes
+// out of n, with confidence intervals for p. The results are worked out by
+// the page, which also shades the rejection region on the chart.
+export function InferenceWorkbench({
+  n,
+  p,
+  showTest,
+  onShowTestChange,
+  observed,
+  onObservedChange,
+  alternative,
+  onAlternativeChange,
+  alpha,
+  onAlphaChange,
+  correction,
+  results,
+}: {
+  n: number;
+  p: number;
+  showTest: boolean;
+  onShowTestChange: (showTest: boolean) => void;
+  observed: number;
+  onObservedChange: (observed: number) => void;
+  alternative: Alternative;
+  onAlternativeChange: (alternative: Alternative) => void;
+  alpha: number;
+  onAlphaChange: (alpha: number) => void;
+  correction: ContinuityCorrection;
+  // null while the test is off
+  results: HypothesisTestResults | null;
+}) {
+  return (
+    <Box mt={1} p={1.5} bg="gray.700" borderRadius="md">
+      <HStack justify="space-between" mb={0.5}>
+        <Text color="gray.300" fontSize="xs" fontWeight="bold">
+          Hypothesis Test:
+        </Text>
+        <SegmentGroup.Root
+          value={showTest ? "on" : "off"}
+          onValueChange={(details) => onShowTestChange(details.value === "on")}
+          size="xs"
+        >
+          <SegmentGroup.Indicator />
+          <SegmentGroup.Items
+            items={[
+              { value: "off", label: "Off" },
+              { value: "on", label: "On" },
+            ]}
+          />
+        </SegmentGroup.Root>
+      </HStack>
+      {results && (
+        <>
+          <Box color="gray.200" fontSize="xs" mb={1}>
+            <InlineMath math={`H_0: p = p_0 = ${p.toFixed(2)}`} /> (the
+            p slider)
+          </Box>
+          <HStack gap={1} mb={1}>
+            <Text color="gray.200" fontSize="xs">
+              Observed x:
+            </Text>
+            <Input
+              size="xs"
+              width="80px"
+              type="number"
+              min={0}
+              max={n}
+              value={observed}
+              onChange={(event) => {
+                const value = Number(event.currentTarget.value);
+                if (Number.isInteger(value) && value >= 0 && value <= n) {
+                  onObservedChange(value);
+                }
+              }}
+              color="gray.100"
+            />
+            <Text color="gray.200" fontSize="xs">
+              of n = {n}
+            </Text>
+          </HStack>
+          <NativeSelect.Root size="xs" mb={1}>
+            <NativeSelect.Field
+              value={alternative}
+              onChange={(event) =>
+                onAlternativeChange(event.currentTarget.value as Alternative)
+              }
+              bg="gray.700"
+              color="gray.100"
+            >
+              {(Object.keys(ALTERNATIVE_LABELS) as Alternative[]).map(
+                (value) => (
+                  <option key={value} value={value}>
+                    {ALTERNATIVE_LABELS[value]}
+                  </option>
+                ),
+              )}
+            </NativeSelect.Field>
+            <NativeSelect.Indicator />
+          </NativeSelect.Root>
+          <HStack gap={1} mb={1}>
+            <Text color="gray.200" fontSize="xs">
+              α:
+            </Text>
+            <SegmentGroup.Root
+              value={String(alpha)}
+              onValueChange={(details) => onAlphaChange(Number(details.value))}
+              size="xs"
+            >
+              <SegmentGroup.Indicator />
+              <SegmentGroup.Items
+                items={SIGNIFICANCE_LEVELS.map((level) => ({
+                  value: String(level),
+                  label: String(level),
+                }))}
+              />
+            </SegmentGroup.Root>
+          </HStack>
+          <BlockMath
+            math={`z = \\frac{\\hat{p} - p_0}{\\sqrt{p_0(1-p_0)/n}} = ${results.zTest.statistic.toFixed(4)}`}
+          />
+          {correction === "continuity" && (
+            <Text color="gray.400" fontSize="xs">
+              With the continuity correction, x is moved half a count
+              towards np₀.
+            </Text>
+          )}
+          {[
+            { label: "p-value (normal)", result: results.zTest },
+            { label: "p-value (exact)", result: results.exactTest },
+          ].map(({ label, result }) => (
+            <HStack key={label} justify="space-between">
+              <Text color="gray.200" fontSize="xs">
+                {label}: {result.pValue.toPrecision(4)}
+              </Text>
+              <Text
+                fontSize="xs"
+                fontWeight="bold"
+                color={result.pValue <= alpha ? "#f87171" : "#4ade80"}
+              >
+                {result.pValue <= alpha ? "reject H₀" : "keep H₀"}
+              </Text>
+            </HStack>
+          ))}
+          <Text color="gray.300" fontSize="xs" mt={1} mb={0.5}>
+            {Math.round((1 - alpha) * 100)}% confidence intervals for p:
+          </Text>
+          {CONFIDENCE_INTERVAL_METHODS.map(({ method, label }) => {
+            const [lower, upper] =
+              results.confidenceIntervals[method];
+            const covers = lower <= p && p <= upper;
+            return (
+              <HStack key={method} justify="space-between">
+                <Text color="gray.200" fontSize="xs">
+                  {label}: [{lower.toFixed(4)}, {upper.toFixed(4)}]
+                </Text>
+                <Text
+                  fontSize="xs"
+                  color={covers ? "gray.400" : "#f87171"}
+                >
+                  {covers ? "contains p₀" : "misses p₀"}
+                </Text>
+              </HStack>
+            );
+          })}
+          <Text color="gray.400" fontSize="xs" mt={1}>
+            The red band on the chart is the z-test&apos;s rejection
+            region; the white line marks x.
+          </Text>
+        </>
+      )}
+    </Box>
+  );
+}
@@ -0,0 +1,52 @@
+"use client";
+
+import { Box, HStack, Text } from "@chakra-ui/react";
+import type { ActiveView } from "@/lib/visualizationState";
+
+const VIEW_LINKS: { view: ActiveView; label: string }[] = [
+  { view: "visualization", label: "De Moivre-Laplace Visualization" },
+  { view: "notes", label: "Notes on the Proof" },
+  { view: "references", label: "References/Notes" },
+  { view: "quiz", label: "Quiz" },
+];
+
+// The bar across the top of the page that switches between its views
+export function NavBar({
+  activeView,
+  onActiveViewChange,
+}: {
+  activeView: ActiveView;
+  onActiveViewChange: (view: ActiveView) => void;
+}) {
+  return (
+    <Box
+      width="100%"
+      bg="gray.800"
+      borderBottom="1px solid"
+      borderColor="gray.700"
+      p={1.5}
+    >
+      <HStack gap={3} justify="flex-end" pr={4}>
+        {VIEW_LINKS.map(({ view, label }) => (
+          <Box
+            key={view}
+            as="button"
+            onClick={() => onActiveViewChange(view)}
+            px={3}
+            py={1}
+            borderRadius="md"
+            bg={activeView === view ? "blue.600" : "gray.700"}
+            color={activeView === view ? "white" : "gray.300"}
+            _hover={{ bg: activeView === view ? "blue.700" : "gray.600" }}
+            cursor="pointer"
+            transition="all 0.2s"
+          >
+            <Text fontSize="xs" fontWeight="medium">
+              {label}
+            </Text>
+          </Box>
+        ))}
+      </HStack>
+    </Box>
+  );
+}
@@ -0,0 +1,255 @@
+"use client";
+
+import { Fragment, type MouseEvent, type ReactNode } from "react";
+import { Box, Heading, Link, Text, VStack } from "@chakra-ui/react";
+import { BlockMath, InlineMath } from "react-katex";
+import type { Block, Inline, NoteDocument, Reference } from "@/lib/notes/types";
+
+// Renders a notes page built from the content directory. Figures named by
+// `::name` lines come from `embeds`, so they can follow the page's state.
+
+const equationId = (label: string) => `eq-${label}`;
+const referenceId = (key: string) => `ref-${key}`;
+
+// The URL hash names the page view, so links within the notes scroll to
+// their target instead of following the #anchor
+function InternalLink({ target, children }: { target: string; children: ReactNode }) {
+  const scroll = (event: MouseEvent) => {
+    event.preventDefault();
+    document
+      .getElementById(target)
+      ?.scrollIntoView({ behavior: "smooth", block: "start" });
+  };
+  return (
+    <Link
+      href={`#${target}`}
+      onClick={scroll}
+      color="blue.400"
+      _hover={{ textDecoration: "underline" }}
+    >
+      {children}
+    </Link>
+  );
+}
+
+function InlineContent({ nodes }: { nodes: Inline[] }) {
+  return (
+    <>
+      {nodes.map((node, i) => {
+        switch (node.type) {
+          case "text":
+            return <Fragment key={i}>{node.text}</Fragment>;
+          case "math":
+            return <InlineMath key={i} math={node.tex} />;
+          case "strong":
+            return (
+              <Text as="span" key={i} fontWeight="bold">
+                <InlineContent nodes={node.children} />
+              </Text>
+            );
+          case "emphasis":
+            return (
+              <Text as="span" key={i} fontStyle="italic">
+                <InlineContent nodes={node.children} />
+              </Text>
+            );
+          case "link":
+            return (
+              <Link
+                key={i}
+                href={node.href}
+                target="_blank"
+                rel="noopener noreferrer"
+                color="blue.400"
+                _hover={{ textDecoration: "underline" }}
+              >
+                <InlineContent nodes={node.children} />
+              </Link>
+            );
+          case "eqref":
+            return (
+              <InternalLink key={i} target={equationId(node.label)}>
+                ({node.number})
+              </InternalLink>
+            );
+          case "cite":
+            return (
+              <Fragment key={i}>
+                (
+                {node.keys.map((key, j) => (
+                  <Fragment key={key}>
+                    {j > 0 && "; "}
+                    <InternalLink target={referenceId(key)}>
+                      {node.labels?.[j] ?? key}
+                    </InternalLink>
+                  </Fragment>
+                ))}
+                )
+              </Fragment>
+            );
+        }
+      })}
+    </>
+  );
+}
+
+function ReferenceList({ references }: { references: Reference[] }) {
+  return (
+    <VStack align="stretch" gap={3}>
+      {references.map((reference) => (
+        <Box key={reference.key} id={referenceId(reference.key)}>
+          <Text color="gray.300" fontSize="sm" lineHeight="tall">
+            {reference.segments.map((segment, i) => (
+              <Text
+                as="span"
+                key={i}
+                fontWeight={segment.style === "bold" ? "bold" : undefined}
+                fontStyle={segment.style === "italic" ? "italic" : undefined}
+              >
+                {segment.text}
+              </Text>
+            ))}
+            {reference.url && (
+              <>
+                {" "}
+                <Link
+                  href={reference.url}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  color="blue.400"
+                  _hover={{ textDecoration: "underline" }}
+                >
+                  {reference.url.replace(/^https?:\/\//, "")}
+                </Link>
+              </>
+            )}
+          </Text>
+        </Box>
+      ))}
+    </VStack>
+  );
+}
+
+function BlockContent({
+  block,
+  embeds,
+}: {
+  block: Block;
+  embeds: Record<string, ReactNode>;
+}) {
+  switch (block.type) {
+    case "heading":
+      return (
+        <Heading
+          id={block.id}
+          size={block.level <= 2 ? "md" : "sm"}
+          color="gray.100"
+          mt={4}
+          mb={1}
+        >
+          <InlineContent nodes={block.children} />
+        </Heading>
+      );
+    case "paragraph":
+      return (
+        <Text color="gray.300" fontSize="sm" lineHeight="tall">
+          <InlineContent nodes={block.children} />
+        </Text>
+      );
+    case "list":
+      return (
+        <VStack align="stretch" gap={1} ml={4}>
+          {block.items.map((item, i) => (
+            <Text key={i} color="gray.300" fontSize="sm">
+              {block.ordered ? `${block.start + i}. ` : "• "}
+              <InlineContent nodes={item} />
+            </Text>
+          ))}
+        </VStack>
+      );
+    case "math":
+      return (
+        <Box id={block.label && equationId(block.label)} overflowX="auto">
+          <BlockMath math={block.tex} />
+        </Box>
+      );
+    case "directive":
+      return (
+        embeds[block.name] ?? (
+          <Text color="red.300" fontSize="xs">
+            Unknown figure ::{block.name}
+          </Text>
+        )
+      );
+    case "bibliography":
+      return <ReferenceList references={block.references} />;
+  }
+}
+
+export function NoteDocumentView({
+  note,
+  embeds = {},
+}: {
+  note: NoteDocument;
+  embeds?: Record<string, ReactNode>;
+}) {
+  const listsReferences = note.blocks.some((block) => block.type === "bibliography");
+  return (
+    <>
+      <Heading size="xl" color="gray.100" mb={4}>
+        {note.title}
+      </Heading>
+      {note.author && (
+        <Text color="gray.400" mb={6} fontSize="sm">
+          by: {note.author}
+        </Text>
+      )}
+
+      {note.toc.length > 0 && (
+        <Box
+          mb={6}
+          p={4}
+          bg="gray.800"
+          borderRadius="md"
+          border="1px solid"
+          borderColor="gray.700"
+        >
+          <Heading size="sm" color="gray.100" mb={2}>
+            Contents
+          </Heading>
+          <VStack align="stretch" gap={1}>
+            {note.toc.map((entry) => (
+              <Text key={entry.id} fontSize="sm" ml={(entry.level - 2) * 4}>
+                <InternalLink target={entry.id}>
+                  <InlineContent nodes={entry.children} />
+                </InternalLink>
+              </Text>
+            ))}
+          </VStack>
+        </Box>
+      )}
+
+      <Box
+        p={6}
+        bg="gray.800"
+        borderRadius="md"
+        border="1px solid"
+        borderColor="gray.700"
+      >
+        <VStack align="stretch" gap={2}>
+          {note.blocks.map((block, i) => (
+            <BlockContent key={i} block={block} embeds={embeds} />
+          ))}
+          {!listsReferences && note.references.length > 0 && (
+            <>
+              <Heading size="md" color="gray.100" mt={4} mb={1}>
+                References
+              </Heading>
+              <ReferenceList references={note.references} />
+            </>
+          )}
+        </VStack>
+      </Box>
+    </>
+  );
+}
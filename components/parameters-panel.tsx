@@ -0,0 +1,102 @@
+"use client";
+
+import { Box, Text } from "@chakra-ui/react";
+import { BlockMath } from "react-katex";
+import type { SourceDistribution } from "@/lib/distributions";
+
+// n and the source's parameters, with the mean, spread and shape of the
+// sum they give on the current x axis
+export function ParametersPanel({
+  n,
+  p,
+  isBernoulli,
+  source,
+  muFormula,
+  sigmaFormula,
+  binWidth,
+  skewness,
+  excessKurtosis,
+}: {
+  n: number;
+  p: number;
+  isBernoulli: boolean;
+  source: SourceDistribution;
+  // μ and σ in LaTeX, on the current x axis
+  muFormula: string;
+  sigmaFormula: string;
+  // Spacing of the bars on a standardized axis, otherwise null
+  binWidth: number | null;
+  skewness: number;
+  excessKurtosis: number;
+}) {
+  return (
+    <Box mt={1} p={1.5} bg="gray.700" borderRadius="md">
+      <Text color="gray.300" fontSize="xs" mb={0.5} fontWeight="bold">
+        Calculated Parameters:
+      </Text>
+      <Text color="gray.200" fontSize="xs" mb={0.5}>
+        n (trials): {n}
+      </Text>
+      {isBernoulli ? (
+        <Text color="gray.200" fontSize="xs" mb={0.5}>
+          p (probability): {p.toFixed(3)}
+        </Text>
+      ) : (
+        <Text color="gray.200" fontSize="xs" mb={0.5}>
+          X_i ~ {source.name}: μ_X = {source.mean.toFixed(3)}, σ_X ={" "}
+          {Math.sqrt(source.variance).toFixed(3)}
+        </Text>
+      )}
+      <Box mb={0.5}>
+        <Text color="gray.200" fontSize="xs" mb={0.5}>
+          μ (mean):
+        </Text>
+        <BlockMath math={muFormula} />
+      </Box>
+      <Box>
+        <Text color="gray.200" fontSize="xs" mb={0.5}>
+          σ (std dev):
+        </Text>
+        <BlockMath math={sigmaFormula} />
+      </Box>
+      {binWidth !== null && (
+        <Box mt={0.5}>
+          <Text color="gray.200" fontSize="xs" mb={0.5}>
+            Δx (bar spacing):
+          </Text>
+          <BlockMath
+            math={
+              isBernoulli
+                ? `\\Delta x_n = \\frac{1}{\\sqrt{np(1-p)}} = ${binWidth.toFixed(4)}`
+                : `\\Delta x_n = \\frac{h}{\\sigma_X\\sqrt{n}} = ${binWidth.toFixed(4)}`
+            }
+          />
+        </Box>
+      )}
+      <Box mt={0.5}>
+        <Text color="gray.200" fontSize="xs" mb={0.5}>
+          Skewness:
+        </Text>
+        <BlockMath
+          math={
+            isBernoulli
+              ? `\\gamma_1 = \\frac{q-p}{\\sqrt{npq}} = ${skewness.toFixed(4)}`
+              : `\\gamma_1 = \\frac{\\gamma_X}{\\sqrt{n}} = ${skewness.toFixed(4)}`
+          }
+        />
+      </Box>
+      <Box mt={0.5}>
+        <Text color="gray.200" fontSize="xs" mb={0.5}>
+          Excess kurtosis:
+        </Text>
+        <BlockMath
+          math={
+            isBernoulli
+              ? `\\gamma_2 = \\frac{1-6pq}{npq} = ${excessKurtosis.toFixed(4)}`
+              : `\\gamma_2 = \\frac{\\kappa_X}{n} = ${excessKurtosis.toFixed(4)}`
+          }
+        />
+      </Box>
+    </Box>
+  );
+}
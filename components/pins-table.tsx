@@ -0,0 +1,168 @@
+"use client";
+
+import { Box, Button, HStack, Input, Table, Text } from "@chakra-ui/react";
+import type {
+  BinomialChartPoint,
+  SumSummary,
+  YAxisMode,
+} from "@/lib/distributions";
+import type { PinState } from "@/lib/visualizationState";
+
+// A pinned configuration as drawn on the chart. It is redrawn on the
+// current axes, so pins made in different modes can still be compared.
+export interface PinnedSeries extends PinState {
+  id: number;
+  color: string;
+}
+
+// A pinned series on the current axes, with the summary for its row
+export interface PinnedCurve {
+  pin: PinnedSeries;
+  sourceName: string;
+  points: BinomialChartPoint[];
+  summary: SumSummary;
+}
+
+// Moments and range probabilities of the current configuration next to
+// each pinned series, whose names can be edited in place
+export function PinsTable({
+  n,
+  currentSourceName,
+  currentSummary,
+  pinnedCurves,
+  regionHeader,
+  standardized,
+  yAxisMode,
+  onRename,
+  onUnpin,
+}: {
+  n: number;
+  currentSourceName: string;
+  currentSummary: SumSummary;
+  pinnedCurves: PinnedCurve[];
+  // Header of the range probability column
+  regionHeader: string;
+  standardized: boolean;
+  yAxisMode: YAxisMode;
+  onRename: (id: number, name: string) => void;
+  onUnpin: (id: number) => void;
+}) {
+  return (
+    <Box flexShrink={0} maxHeight="220px" overflowY="auto" mt={2}>
+      {!(standardized && yAxisMode === "density") && (
+        <Text color="gray.400" fontSize="xs" mb={1}>
+          Tip: z-scores with a density y axis put every series on the
+          same scale as φ(x).
+        </Text>
+      )}
+      <Table.Root size="sm" variant="outline">
+        <Table.Header>
+          <Table.Row bg="gray.700">
+            <Table.ColumnHeader color="gray.300">Series</Table.ColumnHeader>
+            <Table.ColumnHeader color="gray.300">X_i</Table.ColumnHeader>
+            <Table.ColumnHeader color="gray.300">n</Table.ColumnHeader>
+            <Table.ColumnHeader color="gray.300">Pinned in</Table.ColumnHeader>
+            <Table.ColumnHeader color="gray.300">μ</Table.ColumnHeader>
+            <Table.ColumnHeader color="gray.300">σ</Table.ColumnHeader>
+            <Table.ColumnHeader color="gray.300">Skewness</Table.ColumnHeader>
+            <Table.ColumnHeader color="gray.300">Ex. kurtosis</Table.ColumnHeader>
+            <Table.ColumnHeader color="gray.300">
+              {regionHeader}
+            </Table.ColumnHeader>
+            <Table.ColumnHeader color="gray.300">Normal</Table.ColumnHeader>
+            <Table.ColumnHeader />
+          </Table.Row>
+        </Table.Header>
+        <Table.Body>
+          <Table.Row bg="gray.800">
+            <Table.Cell color="gray.100">
+              <HStack gap={2}>
+                <Box width="10px" height="10px" bg="#60a5fa" borderRadius="sm" />
+                <Text fontSize="xs">Current</Text>
+              </HStack>
+            </Table.Cell>
+            <Table.Cell color="gray.200" fontSize="xs">{currentSourceName}</Table.Cell>
+            <Table.Cell color="gray.200" fontSize="xs">{n}</Table.Cell>
+            <Table.Cell color="gray.200" fontSize="xs">–</Table.Cell>
+            <Table.Cell color="gray.200" fontSize="xs">
+              {currentSummary.mean.toFixed(4)}
+            </Table.Cell>
+            <Table.Cell color="gray.200" fontSize="xs">
+              {currentSummary.stdDev.toFixed(4)}
+            </Table.Cell>
+            <Table.Cell color="gray.200" fontSize="xs">
+              {currentSummary.skewness.toFixed(4)}
+            </Table.Cell>
+            <Table.Cell color="gray.200" fontSize="xs">
+              {currentSummary.excessKurtosis.toFixed(4)}
+            </Table.Cell>
+            <Table.Cell color="gray.200" fontSize="xs">
+              {currentSummary.rangeProbability.toFixed(6)}
+            </Table.Cell>
+            <Table.Cell color="gray.200" fontSize="xs">
+              {currentSummary.normalProbability.toFixed(6)}
+            </Table.Cell>
+            <Table.Cell />
+          </Table.Row>
+          {pinnedCurves.map(({ pin, sourceName, summary }) => (
+            <Table.Row key={pin.id} bg="gray.800">
+              <Table.Cell color="gray.100">
+                <HStack gap={2}>
+                  <Box
+                    width="10px"
+                    height="10px"
+                    bg={pin.color}
+                    borderRadius="sm"
+                    flexShrink={0}
+                  />
+                  <Input
+                    size="xs"
+                    value={pin.name}
+                    onChange={(event) =>
+                      onRename(pin.id, event.currentTarget.value)
+                    }
+                    color="gray.100"
+                    minWidth="120px"
+                  />
+                </HStack>
+              </Table.Cell>
+              <Table.Cell color="gray.200" fontSize="xs">{sourceName}</Table.Cell>
+              <Table.Cell color="gray.200" fontSize="xs">{pin.n}</Table.Cell>
+              <Table.Cell color="gray.200" fontSize="xs">
+                {pin.xAxisMode}
+              </Table.Cell>
+              <Table.Cell color="gray.200" fontSize="xs">
+                {summary.mean.toFixed(4)}
+              </Table.Cell>
+              <Table.Cell color="gray.200" fontSize="xs">
+                {summary.stdDev.toFixed(4)}
+              </Table.Cell>
+              <Table.Cell color="gray.200" fontSize="xs">
+                {summary.skewness.toFixed(4)}
+              </Table.Cell>
+              <Table.Cell color="gray.200" fontSize="xs">
+                {summary.excessKurtosis.toFixed(4)}
+              </Table.Cell>
+              <Table.Cell color="gray.200" fontSize="xs">
+                {summary.rangeProbability.toFixed(6)}
+              </Table.Cell>
+              <Table.Cell color="gray.200" fontSize="xs">
+                {summary.normalProbability.toFixed(6)}
+              </Table.Cell>
+              <Table.Cell>
+                <Button
+                  size="2xs"
+                  variant="ghost"
+                  color="gray.300"
+                  onClick={() => onUnpin(pin.id)}
+                >
+                  Unpin
+                </Button>
+              </Table.Cell>
+            </Table.Row>
+          ))}
+        </Table.Body>
+      </Table.Root>
+    </Box>
+  );
+}
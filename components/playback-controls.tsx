@@ -0,0 +1,183 @@
+"use client";
+
+import { Fragment } from "react";
+import { Button, HStack, Input, SegmentGroup, Text } from "@chakra-ui/react";
+import {
+  PLAYBACK_FPS_OPTIONS,
+  type PlaybackAxes,
+  type PlaybackSettings,
+  type PlaybackSpacing,
+} from "@/lib/playback";
+
+// Plays the distribution chart through a range of n, optionally recording
+// it to a video, with the settings of the sweep alongside
+export function PlaybackControls({
+  settings,
+  onSettingsChange,
+  maxTrials,
+  frame,
+  frameCount,
+  recording,
+  onStart,
+  onStop,
+}: {
+  settings: PlaybackSettings;
+  onSettingsChange: (settings: PlaybackSettings) => void;
+  maxTrials: number;
+  // Index of the frame on screen, or null when playback is stopped
+  frame: number | null;
+  frameCount: number;
+  recording: boolean;
+  onStart: (record: boolean) => void;
+  onStop: () => void;
+}) {
+  return (
+    <HStack gap={2} mb={2} flexShrink={0} flexWrap="wrap">
+      <Button
+        size="xs"
+        colorPalette="blue"
+        width="60px"
+        onClick={() => (frame === null ? onStart(false) : onStop())}
+      >
+        {frame === null ? "Play n" : "Stop"}
+      </Button>
+      <Button
+        size="xs"
+        variant="outline"
+        disabled={frame !== null}
+        onClick={() => onStart(true)}
+      >
+        Record
+      </Button>
+      <Text color="gray.300" fontSize="xs" ml={2}>
+        n from
+      </Text>
+      {(["from", "to"] as const).map((field) => (
+        <Fragment key={field}>
+          {field === "to" && (
+            <Text color="gray.300" fontSize="xs">
+              to
+            </Text>
+          )}
+          <Input
+            size="xs"
+            width="70px"
+            type="number"
+            min={1}
+            max={maxTrials}
+            value={settings[field]}
+            onChange={(event) => {
+              const value = Math.round(Number(event.currentTarget.value));
+              if (Number.isFinite(value) && value >= 1) {
+                onSettingsChange({ ...settings, [field]: value });
+              }
+            }}
+            color="gray.100"
+          />
+        </Fragment>
+      ))}
+      <Text color="gray.300" fontSize="xs">
+        in
+      </Text>
+      <Input
+        size="xs"
+        width="60px"
+        type="number"
+        min={2}
+        value={settings.frames}
+        onChange={(event) => {
+          const value = Math.round(Number(event.currentTarget.value));
+          if (Number.isFinite(value) && value >= 2) {
+            onSettingsChange({ ...settings, frames: value });
+          }
+        }}
+        color="gray.100"
+      />
+      <Text color="gray.300" fontSize="xs">
+        steps
+      </Text>
+      <SegmentGroup.Root
+        value={settings.spacing}
+        onValueChange={(details) =>
+          onSettingsChange({
+            ...settings,
+            spacing: details.value as PlaybackSpacing,
+          })
+        }
+        size="xs"
+      >
+        <SegmentGroup.Indicator />
+        <SegmentGroup.Items
+          items={[
+            { value: "linear", label: "Linear" },
+            { value: "log", label: "Log" },
+          ]}
+        />
+      </SegmentGroup.Root>
+      <Text color="gray.300" fontSize="xs" ml={2}>
+        Frames/s:
+      </Text>
+      <SegmentGroup.Root
+        value={String(settings.fps)}
+        onValueChange={(details) =>
+          onSettingsChange({ ...settings, fps: Number(details.value) })
+        }
+        size="xs"
+      >
+        <SegmentGroup.Indicator />
+        <SegmentGroup.Items
+          items={PLAYBACK_FPS_OPTIONS.map((fps) => ({
+            value: String(fps),
+            label: String(fps),
+          }))}
+        />
+      </SegmentGroup.Root>
+      <Text color="gray.300" fontSize="xs" ml={2}>
+        Loop:
+      </Text>
+      <SegmentGroup.Root
+        value={settings.loop ? "on" : "off"}
+        onValueChange={(details) =>
+          onSettingsChange({ ...settings, loop: details.value === "on" })
+        }
+        size="xs"
+      >
+        <SegmentGroup.Indicator />
+        <SegmentGroup.Items
+          items={[
+            { value: "off", label: "Off" },
+            { value: "on", label: "On" },
+          ]}
+        />
+      </SegmentGroup.Root>
+      <Text color="gray.300" fontSize="xs" ml={2}>
+        Axes:
+      </Text>
+      <SegmentGroup.Root
+        value={settings.axes}
+        onValueChange={(details) =>
+          onSettingsChange({
+            ...settings,
+            axes: details.value as PlaybackAxes,
+          })
+        }
+        size="xs"
+      >
+        <SegmentGroup.Indicator />
+        <SegmentGroup.Items
+          items={[
+            { value: "free", label: "As set" },
+            { value: "standardized", label: "Lock z" },
+            { value: "proportions", label: "Lock p̂" },
+          ]}
+        />
+      </SegmentGroup.Root>
+      {frame !== null && (
+        <Text color="gray.300" fontSize="xs" ml={2}>
+          Frame {frame + 1} of {frameCount}
+          {recording && " (recording)"}
+        </Text>
+      )}
+    </HStack>
+  );
+}
@@ -0,0 +1,140 @@
+"use client";
+
+import { Box, HStack, Text } from "@chakra-ui/react";
+import { BlockMath, InlineMath } from "react-katex";
+
+// A probability as a LaTeX formula and its value
+interface ApproximationTerm {
+  formula: string;
+  value: number;
+}
+
+// The exact probability of the selected region against its normal
+// approximation, and against the Edgeworth and Poisson ones when they are
+// shown
+export function ProbabilityComparisonPanel({
+  isBernoulli,
+  regionText,
+  correctedBounds,
+  exactFormula,
+  exact,
+  normalFormula,
+  normal,
+  edgeworth,
+  poisson,
+  empiricalRule,
+  regionVariable,
+}: {
+  isBernoulli: boolean;
+  regionText: string;
+  // Integral bounds after the continuity correction, when there is one
+  correctedBounds: [string, string] | null;
+  // The exact sum, with its value already written in
+  exactFormula: string;
+  exact: number;
+  normalFormula: string;
+  normal: number;
+  edgeworth: ApproximationTerm | null;
+  // The Poisson(np) sum, with np as its mean
+  poisson: (ApproximationTerm & { mean: number }) | null;
+  // The 68-95-99.7 rule for the μ ± kσ region, empty for other regions
+  empiricalRule: { k: number; exact: number; normal: number }[];
+  // The region's random variable in LaTeX
+  regionVariable: string;
+}) {
+  return (
+    <Box mt={1} p={1.5} bg="gray.700" borderRadius="md">
+      <Text color="gray.300" fontSize="xs" mb={0.5} fontWeight="bold">
+        Probability Comparison:
+      </Text>
+      <Text color="gray.200" fontSize="xs" mb={0.5}>
+        Region: {regionText}
+      </Text>
+      {correctedBounds && (
+        <Text color="gray.200" fontSize="xs" mb={0.5}>
+          Corrected integral bounds: [{correctedBounds[0]}, {correctedBounds[1]}]
+        </Text>
+      )}
+
+      <Box mb={0.5}>
+        <Text color="gray.200" fontSize="xs" mb={0.5}>
+          {isBernoulli ? "Binomial (discrete sum):" : "Exact (convolution):"}
+        </Text>
+        <BlockMath math={exactFormula} />
+      </Box>
+
+      <Box mb={0.5}>
+        <Text color="gray.200" fontSize="xs" mb={0.5}>
+          Normal (integral):
+        </Text>
+        <BlockMath
+          math={`${normalFormula} = ${normal.toFixed(6)}`}
+        />
+      </Box>
+
+      {edgeworth && (
+        <Box mb={0.5}>
+          <Text color="gray.200" fontSize="xs" mb={0.5}>
+            Edgeworth (integral):
+          </Text>
+          <BlockMath
+            math={`${edgeworth.formula} = ${edgeworth.value.toFixed(6)}`}
+          />
+          <BlockMath
+            math={`|\\text{${isBernoulli ? "Binomial" : "Exact"}} - \\text{Edgeworth}| = ${Math.abs(
+              exact - edgeworth.value,
+            ).toFixed(6)}`}
+          />
+        </Box>
+      )}
+
+      {poisson && (
+        <Box mb={0.5}>
+          <Text color="gray.200" fontSize="xs" mb={0.5}>
+            Poisson (discrete sum):
+          </Text>
+          <BlockMath
+            math={`${poisson.formula} = ${poisson.value.toFixed(6)}, \\; \\lambda = ${poisson.mean.toFixed(2)}`}
+          />
+          <BlockMath
+            math={`|\\text{Binomial} - \\text{Poisson}| = ${Math.abs(
+              exact - poisson.value,
+            ).toFixed(6)}`}
+          />
+        </Box>
+      )}
+
+      <Box mb={0.5}>
+        <Text color="gray.200" fontSize="xs" mb={0.5}>
+          Difference:
+        </Text>
+        <BlockMath
+          math={`|\\text{${isBernoulli ? "Binomial" : "Exact"}} - \\text{Normal}| = ${Math.abs(
+            exact - normal,
+          ).toFixed(6)}`}
+        />
+      </Box>
+
+      {empiricalRule.length > 0 && (
+        <Box mb={0.5}>
+          <Text color="gray.200" fontSize="xs" mb={0.5}>
+            68-95-99.7 rule ({isBernoulli ? "binomial" : "exact"} vs
+            normal):
+          </Text>
+          {empiricalRule.map(({ k, exact, normal }) => (
+            <HStack key={k} gap={1} justify="space-between">
+              <Box color="gray.100" fontSize="xs">
+                <InlineMath
+                  math={`P(|${regionVariable} - \\mu| \\le ${k}\\sigma)`}
+                />
+              </Box>
+              <Text color="gray.300" fontSize="xs">
+                {exact.toFixed(4)} vs {normal.toFixed(4)}
+              </Text>
+            </HStack>
+          ))}
+        </Box>
+      )}
+    </Box>
+  );
+}
@@ -0,0 +1,419 @@
+"use client";
+
+import { useMemo, type ReactElement, type ReactNode } from "react";
+import { Box, Text } from "@chakra-ui/react";
+import {
+  CartesianGrid,
+  ComposedChart,
+  Legend,
+  Line,
+  ReferenceArea,
+  ReferenceDot,
+  ReferenceLine,
+  ResponsiveContainer,
+  Scatter,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from "recharts";
+import { InlineMath } from "react-katex";
+import {
+  localLimitPoints,
+  logTaylorArguments,
+  logTaylorComparison,
+  logTaylorError,
+  normalPDF,
+  riemannComparison,
+  stirlingComparison,
+} from "@/lib/distributions";
+
+// Small live charts for the steps of the proof in the notes, each with the
+// numbers it shows at the current n and p
+
+const PLOT_HEIGHT = 220;
+// Lattice points and densities are drawn for |x| ≤ X_LIMIT
+const X_LIMIT = 4;
+// The proof takes y = O(1); the captions measure errors for |y| ≤ Y_BOUND
+const Y_BOUND = 3;
+
+// x = -X_LIMIT ... X_LIMIT in `count` even steps
+const gridPoints = (count: number) =>
+  Array.from({ length: count }, (_, i) => -X_LIMIT + (2 * X_LIMIT * i) / (count - 1));
+
+const TAYLOR_POINTS = logTaylorComparison(-0.9, 1.5);
+const PARABOLA_POINTS = gridPoints(81).map((x) => ({ x, parabola: (-x * x) / 2 }));
+const DENSITY_POINTS = gridPoints(161).map((x) => ({ x, phi: normalPDF(x, 0, 1) }));
+
+export const AXIS_PROPS = {
+  stroke: "#a0aec0",
+  tick: { fill: "#a0aec0", fontSize: 11 },
+};
+
+export const TOOLTIP_PROPS = {
+  contentStyle: {
+    backgroundColor: "rgba(26, 32, 44, 0.95)",
+    border: "1px solid #4a5568",
+    borderRadius: "8px",
+    color: "#cbd5e0",
+  },
+  labelStyle: { color: "#e2e8f0" },
+};
+
+const formatNumber = (value: number, digits: number = 4) =>
+  Math.abs(value) >= 1e-3 || value === 0
+    ? value.toFixed(digits)
+    : value.toExponential(2);
+
+// A small chart above a caption with the numbers it shows
+export function ProofPlot({
+  caption,
+  children,
+}: {
+  caption: ReactNode;
+  children: ReactElement;
+}) {
+  return (
+    <Box
+      mt={3}
+      p={3}
+      bg="gray.900"
+      borderRadius="md"
+      border="1px solid"
+      borderColor="gray.700"
+    >
+      <Box height={`${PLOT_HEIGHT}px`}>
+        <ResponsiveContainer width="100%" height="100%">
+          {children}
+        </ResponsiveContainer>
+      </Box>
+      <Text color="gray.400" fontSize="xs" mt={2}>
+        {caption}
+      </Text>
+    </Box>
+  );
+}
+
+// Step 3: m!/(√(2πm)(m/e)^m) for m = 1 ... n
+export function StirlingPlot({ n }: { n: number }) {
+  const points = useMemo(() => stirlingComparison(Math.max(n, 2)), [n]);
+  const atN = points.find((point) => point.m === n) ?? points[0];
+  return (
+    <ProofPlot
+      caption={
+        <>
+          At <InlineMath math={`m = n = ${atN.m}`} />:{" "}
+          <InlineMath
+            math={`\\log_{10} n! = ${(atN.logExact / Math.LN10).toFixed(4)}`}
+          />
+          , Stirling{" "}
+          <InlineMath math={(atN.logStirling / Math.LN10).toFixed(4)} />, ratio{" "}
+          <InlineMath math={atN.ratio.toFixed(6)} /> (
+          <InlineMath math={`1 + 1/(12n) = ${(1 + 1 / (12 * atN.m)).toFixed(6)}`} />
+          )
+        </>
+      }
+    >
+      <ComposedChart data={points} margin={{ top: 8, right: 16, bottom: 4, left: 4 }}>
+        <CartesianGrid strokeDasharray="3 3" stroke="#4a5568" opacity={0.3} />
+        <XAxis
+          dataKey="m"
+          type="number"
+          scale="log"
+          domain={[1, "dataMax"]}
+          {...AXIS_PROPS}
+        />
+        <YAxis
+          domain={[1, "auto"]}
+          tickFormatter={(value: number) => value.toFixed(3)}
+          width={52}
+          {...AXIS_PROPS}
+        />
+        <Tooltip
+          {...TOOLTIP_PROPS}
+          labelFormatter={(value) => `m = ${value}`}
+          formatter={(value: number | undefined) => [
+            value === undefined ? "" : value.toFixed(6),
+            "m! / Stirling",
+          ]}
+        />
+        <ReferenceLine y={1} stroke="#718096" strokeDasharray="4 4" />
+        <Line
+          dataKey="ratio"
+          stroke="#63b3ed"
+          strokeWidth={2}
+          dot={false}
+          isAnimationActive={false}
+        />
+        <ReferenceDot x={atN.m} y={atN.ratio} r={4} fill="#f6ad55" stroke="none" />
+      </ComposedChart>
+    </ProofPlot>
+  );
+}
+
+// Step 4: log(1 + u) against u - u²/2, with the arguments the proof
+// expands at for |y| ≤ Y_BOUND shaded
+export function TaylorLogPlot({ n, p }: { n: number; p: number }) {
+  const [uMin, uMax] = useMemo(
+    () => logTaylorArguments(n, p, Y_BOUND),
+    [n, p],
+  );
+  const error = Math.max(logTaylorError(uMin), logTaylorError(uMax));
+  return (
+    <ProofPlot
+      caption={
+        <>
+          For <InlineMath math={`|y| \\le ${Y_BOUND}`} /> at{" "}
+          <InlineMath math={`n = ${n}, p = ${p.toFixed(2)}`} /> the arguments lie in{" "}
+          <InlineMath math={`u \\in [${uMin.toFixed(3)}, ${uMax.toFixed(3)}]`} />{" "}
+          (shaded), where{" "}
+          <InlineMath
+            math={`|\\log(1+u) - (u - u^2/2)| \\le ${formatNumber(error)}`}
+          />
+        </>
+      }
+    >
+      <ComposedChart
+        data={TAYLOR_POINTS}
+        margin={{ top: 8, right: 16, bottom: 4, left: 4 }}
+      >
+        <CartesianGrid strokeDasharray="3 3" stroke="#4a5568" opacity={0.3} />
+        <XAxis
+          dataKey="u"
+          type="number"
+          domain={[-0.9, 1.5]}
+          ticks={[-0.5, 0, 0.5, 1, 1.5]}
+          {...AXIS_PROPS}
+        />
+        <YAxis
+          domain={[-2.5, 1]}
+          allowDataOverflow
+          width={52}
+          {...AXIS_PROPS}
+        />
+        <Tooltip
+          {...TOOLTIP_PROPS}
+          labelFormatter={(value) => `u = ${Number(value).toFixed(3)}`}
+          formatter={(value: number | undefined, name: string | undefined) => [
+            value === undefined ? "" : value.toFixed(4),
+            name,
+          ]}
+        />
+        <Legend wrapperStyle={{ fontSize: 11 }} />
+        <ReferenceArea x1={uMin} x2={uMax} fill="#48bb78" fillOpacity={0.2} />
+        <Line
+          dataKey="log"
+          name="log(1 + u)"
+          stroke="#63b3ed"
+          strokeWidth={2}
+          dot={false}
+          isAnimationActive={false}
+        />
+        <Line
+          dataKey="taylor"
+          name="u − u²/2"
+          stroke="#f6ad55"
+          strokeWidth={2}
+          strokeDasharray="5 3"
+          dot={false}
+          isAnimationActive={false}
+        />
+      </ComposedChart>
+    </ProofPlot>
+  );
+}
+
+// Step 5: log(P(S_n = k)√(2πnpq)) at each lattice point against -y²/2
+export function QuadraticExponentPlot({ n, p }: { n: number; p: number }) {
+  const points = useMemo(() => localLimitPoints(n, p, X_LIMIT), [n, p]);
+  const error = points
+    .filter((point) => Math.abs(point.x) <= Y_BOUND)
+    .reduce(
+      (max, point) => Math.max(max, Math.abs(point.logScaledPMF - point.parabola)),
+      0,
+    );
+  return (
+    <ProofPlot
+      caption={
+        <>
+          Largest gap for <InlineMath math={`|y| \\le ${Y_BOUND}`} /> at{" "}
+          <InlineMath math={`n = ${n}, p = ${p.toFixed(2)}`} />:{" "}
+          <InlineMath math={formatNumber(error)} />; the gap shrinks like{" "}
+          <InlineMath math="n^{-1/2}" />
+        </>
+      }
+    >
+      <ComposedChart margin={{ top: 8, right: 16, bottom: 4, left: 4 }}>
+        <CartesianGrid strokeDasharray="3 3" stroke="#4a5568" opacity={0.3} />
+        <XAxis
+          dataKey="x"
+          type="number"
+          domain={[-X_LIMIT, X_LIMIT]}
+          ticks={[-4, -3, -2, -1, 0, 1, 2, 3, 4]}
+          {...AXIS_PROPS}
+        />
+        <YAxis
+          domain={[-(X_LIMIT * X_LIMIT) / 2 - 1, 1]}
+          allowDataOverflow
+          width={52}
+          {...AXIS_PROPS}
+        />
+        <Tooltip
+          {...TOOLTIP_PROPS}
+          labelFormatter={(value) => `y = ${Number(value).toFixed(3)}`}
+          formatter={(value: number | undefined, name: string | undefined) => [
+            value === undefined ? "" : value.toFixed(4),
+            name,
+          ]}
+        />
+        <Legend wrapperStyle={{ fontSize: 11 }} />
+        <Line
+          data={PARABOLA_POINTS}
+          dataKey="parabola"
+          name="−y²/2"
+          stroke="#f6ad55"
+          strokeWidth={2}
+          dot={false}
+          isAnimationActive={false}
+        />
+        <Scatter
+          data={points}
+          dataKey="logScaledPMF"
+          name="log(P(Sₙ = k) √(2πnpq))"
+          fill="#63b3ed"
+          isAnimationActive={false}
+        />
+      </ComposedChart>
+    </ProofPlot>
+  );
+}
+
+// Step 7: the local ratio P(S_n = k)/(φ(x)Δx) at each lattice point
+export function LocalRatioPlot({ n, p }: { n: number; p: number }) {
+  const points = useMemo(() => localLimitPoints(n, p, X_LIMIT), [n, p]);
+  const centre = points.reduce((best, point) =>
+    Math.abs(point.x) < Math.abs(best.x) ? point : best,
+  );
+  const error = points
+    .filter((point) => Math.abs(point.x) <= Y_BOUND)
+    .reduce((max, point) => Math.max(max, Math.abs(point.ratio - 1)), 0);
+  return (
+    <ProofPlot
+      caption={
+        <>
+          Ratio nearest the mean (<InlineMath math={`x = ${centre.x.toFixed(3)}`} />):{" "}
+          <InlineMath math={centre.ratio.toFixed(5)} />; largest{" "}
+          <InlineMath math="|\text{ratio} - 1|" /> for{" "}
+          <InlineMath math={`|x| \\le ${Y_BOUND}`} />:{" "}
+          <InlineMath math={formatNumber(error)} />
+        </>
+      }
+    >
+      <ComposedChart data={points} margin={{ top: 8, right: 16, bottom: 4, left: 4 }}>
+        <CartesianGrid strokeDasharray="3 3" stroke="#4a5568" opacity={0.3} />
+        <XAxis
+          dataKey="x"
+          type="number"
+          domain={[-X_LIMIT, X_LIMIT]}
+          ticks={[-4, -3, -2, -1, 0, 1, 2, 3, 4]}
+          {...AXIS_PROPS}
+        />
+        <YAxis domain={[0, 2]} allowDataOverflow width={52} {...AXIS_PROPS} />
+        <Tooltip
+          {...TOOLTIP_PROPS}
+          labelFormatter={(value) => `x = ${Number(value).toFixed(3)}`}
+          formatter={(value: number | undefined) => [
+            value === undefined ? "" : value.toFixed(5),
+            "P(Sₙ = k) / (φ(x)Δx)",
+          ]}
+        />
+        <ReferenceLine y={1} stroke="#718096" strokeDasharray="4 4" />
+        <Line
+          dataKey="ratio"
+          stroke="#63b3ed"
+          strokeWidth={2}
+          dot={points.length <= 60}
+          isAnimationActive={false}
+        />
+      </ComposedChart>
+    </ProofPlot>
+  );
+}
+
+// Step 8: the rectangles φ(x_{n,k})Δx over (a, b] against the area under φ
+export function RiemannSumPlot({
+  n,
+  p,
+  a,
+  b,
+}: {
+  n: number;
+  p: number;
+  a: number;
+  b: number;
+}) {
+  const points = useMemo(() => localLimitPoints(n, p, X_LIMIT), [n, p]);
+  const { riemannSum, integral, exact } = useMemo(
+    () => riemannComparison(n, p, a, b),
+    [n, p, a, b],
+  );
+  const clip = (x: number) => Math.min(Math.max(x, -X_LIMIT), X_LIMIT);
+  const latexBound = (x: number) =>
+    Number.isFinite(x) ? x.toFixed(3) : x > 0 ? "\\infty" : "-\\infty";
+  return (
+    <ProofPlot
+      caption={
+        <>
+          Over <InlineMath math={`(${latexBound(a)}, ${latexBound(b)}]`} />:
+          Riemann sum <InlineMath math={riemannSum.toFixed(5)} />, integral{" "}
+          <InlineMath math={`\\Phi(b) - \\Phi(a) = ${integral.toFixed(5)}`} />, exact{" "}
+          <InlineMath math={`\\mathbb{P}(a < X_n \\le b) = ${exact.toFixed(5)}`} />
+        </>
+      }
+    >
+      <ComposedChart margin={{ top: 8, right: 16, bottom: 4, left: 4 }}>
+        <CartesianGrid strokeDasharray="3 3" stroke="#4a5568" opacity={0.3} />
+        <XAxis
+          dataKey="x"
+          type="number"
+          domain={[-X_LIMIT, X_LIMIT]}
+          ticks={[-4, -3, -2, -1, 0, 1, 2, 3, 4]}
+          {...AXIS_PROPS}
+        />
+        <YAxis domain={[0, 0.45]} width={52} {...AXIS_PROPS} />
+        <Tooltip
+          {...TOOLTIP_PROPS}
+          labelFormatter={(value) => `x = ${Number(value).toFixed(3)}`}
+          formatter={(value: number | undefined) => [
+            value === undefined ? "" : value.toFixed(5),
+            "φ(x)",
+          ]}
+        />
+        {a < b && (
+          <ReferenceArea
+            x1={clip(a)}
+            x2={clip(b)}
+            fill="#48bb78"
+            fillOpacity={0.2}
+          />
+        )}
+        <Line
+          data={points}
+          dataKey="density"
+          type="step"
+          stroke="#63b3ed"
+          strokeWidth={1.5}
+          dot={false}
+          isAnimationActive={false}
+        />
+        <Line
+          data={DENSITY_POINTS}
+          dataKey="phi"
+          stroke="#f6ad55"
+          strokeWidth={2}
+          dot={false}
+          isAnimationActive={false}
+        />
+      </ComposedChart>
+    </ProofPlot>
+  );
+}
@@ -0,0 +1,276 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import {
+  Box,
+  Button,
+  Heading,
+  HStack,
+  Input,
+  NativeSelect,
+  SegmentGroup,
+  Text,
+  VStack,
+} from "@chakra-ui/react";
+import { BlockMath, InlineMath } from "react-katex";
+import {
+  DEFAULT_QUIZ_PROGRESS,
+  generateQuizProblem,
+  isQuizAnswerCorrect,
+  parseQuizProgress,
+  QUIZ_DIFFICULTIES,
+  QUIZ_STORAGE_KEY,
+  QUIZ_TOLERANCES,
+  quizEventLatex,
+  quizSolutionSteps,
+  recordQuizAnswer,
+  solveQuizProblem,
+  type QuizDifficulty,
+  type QuizProgress,
+} from "@/lib/quiz";
+
+const DIFFICULTY_LABELS: Record<QuizDifficulty, string> = {
+  easy: "Easy",
+  medium: "Medium",
+  hard: "Hard",
+};
+
+// Exercise mode: one generated problem at a time, checked against the
+// normal approximation and then worked through. The site is static, so
+// the score lives in localStorage.
+export function QuizView() {
+  // The view is never the server-rendered one, so it can read the stored
+  // progress as it mounts
+  const [progress, setProgress] = useState<QuizProgress>(() =>
+    typeof window === "undefined"
+      ? DEFAULT_QUIZ_PROGRESS
+      : parseQuizProgress(window.localStorage.getItem(QUIZ_STORAGE_KEY)),
+  );
+  const [answerText, setAnswerText] = useState("");
+  const [verdict, setVerdict] = useState<boolean | null>(null);
+
+  useEffect(() => {
+    window.localStorage.setItem(QUIZ_STORAGE_KEY, JSON.stringify(progress));
+  }, [progress]);
+
+  const { seed, index, difficulty, tolerance } = progress;
+  const problem = useMemo(
+    () => generateQuizProblem(seed, index, difficulty),
+    [seed, index, difficulty],
+  );
+  const solution = useMemo(() => solveQuizProblem(problem), [problem]);
+  const steps = useMemo(() => quizSolutionSteps(problem, solution), [problem, solution]);
+
+  const answer = Number(answerText.trim());
+  const answerValid = answerText.trim() !== "" && answer >= 0 && answer <= 1;
+  const checked = verdict !== null;
+
+  const moveTo = (changes: Partial<QuizProgress>) => {
+    setProgress((current) => ({ ...current, ...changes }));
+    setAnswerText("");
+    setVerdict(null);
+  };
+
+  const check = () => {
+    if (!answerValid || checked) return;
+    const correct = isQuizAnswerCorrect(answer, solution, tolerance);
+    setVerdict(correct);
+    setProgress((current) => recordQuizAnswer(current, correct));
+  };
+
+  const resetScores = () => {
+    moveTo({
+      index: 0,
+      scores: DEFAULT_QUIZ_PROGRESS.scores,
+      streak: 0,
+      bestStreak: 0,
+    });
+  };
+
+  return (
+    <VStack align="stretch" gap={4}>
+      <Heading size="xl" color="gray.100">
+        Quiz
+      </Heading>
+      <Text color="gray.400" fontSize="sm">
+        Approximate each binomial probability with the normal distribution.
+        Problems come from the seed, so a class sharing a seed sees the same
+        sequence.
+      </Text>
+
+      <HStack gap={4} wrap="wrap" align="flex-end">
+        <Box>
+          <Text color="gray.300" mb={0.5} fontSize="xs">
+            Difficulty
+          </Text>
+          <SegmentGroup.Root
+            value={difficulty}
+            onValueChange={(details) =>
+              moveTo({ difficulty: details.value as QuizDifficulty })
+            }
+            size="xs"
+          >
+            <SegmentGroup.Indicator />
+            <SegmentGroup.Items
+              items={QUIZ_DIFFICULTIES.map((level) => ({
+                value: level,
+                label: DIFFICULTY_LABELS[level],
+              }))}
+            />
+          </SegmentGroup.Root>
+        </Box>
+        <Box width="120px">
+          <Text color="gray.300" mb={0.5} fontSize="xs">
+            Seed
+          </Text>
+          <Input
+            size="xs"
+            type="number"
+            min={1}
+            value={seed}
+            onChange={(event) => {
+              const value = Number(event.currentTarget.value);
+              if (Number.isInteger(value) && value >= 1) {
+                moveTo({ seed: value, index: 0 });
+              }
+            }}
+            color="gray.100"
+            borderColor="gray.600"
+          />
+        </Box>
+        <Box width="120px">
+          <Text color="gray.300" mb={0.5} fontSize="xs">
+            Tolerance
+          </Text>
+          <NativeSelect.Root size="xs">
+            <NativeSelect.Field
+              value={tolerance}
+              onChange={(event) =>
+                setProgress((current) => ({
+                  ...current,
+                  tolerance: Number(event.currentTarget.value),
+                }))
+              }
+              bg="gray.700"
+              color="gray.100"
+            >
+              {QUIZ_TOLERANCES.map((value) => (
+                <option key={value} value={value}>
+                  ± {value}
+                </option>
+              ))}
+            </NativeSelect.Field>
+            <NativeSelect.Indicator />
+          </NativeSelect.Root>
+        </Box>
+      </HStack>
+
+      <Box
+        p={6}
+        bg="gray.800"
+        borderRadius="md"
+        border="1px solid"
+        borderColor="gray.700"
+      >
+        <Text color="gray.400" fontSize="xs" mb={2}>
+          Problem {index + 1}
+        </Text>
+        <Text color="gray.200" fontSize="sm" lineHeight="tall">
+          Let <InlineMath math={`X \\sim \\text{Binomial}(${problem.n}, ${problem.p})`} />.
+          Using the normal approximation
+          {problem.correction === "continuity"
+            ? " with continuity correction"
+            : " without continuity correction"}
+          , approximate <InlineMath math={`P(${quizEventLatex(problem)})`} />.
+        </Text>
+
+        <HStack gap={2} mt={4}>
+          <Input
+            size="sm"
+            width="160px"
+            placeholder="e.g. 0.8123"
+            value={answerText}
+            disabled={checked}
+            onChange={(event) => setAnswerText(event.currentTarget.value)}
+            onKeyDown={(event) => {
+              if (event.key === "Enter") check();
+            }}
+            color="gray.100"
+            borderColor={
+              answerText.trim() !== "" && !answerValid ? "red.400" : "gray.600"
+            }
+          />
+          <Button
+            size="sm"
+            colorPalette="teal"
+            disabled={!answerValid || checked}
+            onClick={check}
+          >
+            Check
+          </Button>
+          <Button size="sm" variant="outline" onClick={() => moveTo({ index: index + 1 })}>
+            {checked ? "Next problem" : "Skip"}
+          </Button>
+        </HStack>
+        {answerText.trim() !== "" && !answerValid && (
+          <Text color="red.300" fontSize="xs" mt={1}>
+            Enter a probability between 0 and 1
+          </Text>
+        )}
+
+        {checked && (
+          <Box mt={4} p={3} bg="gray.700" borderRadius="md">
+            <Text
+              color={verdict ? "green.300" : "red.300"}
+              fontSize="sm"
+              fontWeight="bold"
+              mb={2}
+            >
+              {verdict
+                ? `Correct, within ±${tolerance} of ${solution.approximation.toFixed(4)}`
+                : `Not quite: the approximation is ${solution.approximation.toFixed(4)} (±${tolerance})`}
+            </Text>
+            <Text color="gray.300" fontSize="xs" mb={0.5} fontWeight="bold">
+              Worked solution:
+            </Text>
+            {steps.map((step, i) => (
+              <Box key={i} overflowX="auto">
+                <BlockMath math={step} />
+              </Box>
+            ))}
+          </Box>
+        )}
+      </Box>
+
+      <Box
+        p={4}
+        bg="gray.800"
+        borderRadius="md"
+        border="1px solid"
+        borderColor="gray.700"
+      >
+        <HStack justify="space-between" mb={2}>
+          <Heading size="sm" color="gray.100">
+            Progress
+          </Heading>
+          <Button size="xs" variant="outline" onClick={resetScores}>
+            Reset progress
+          </Button>
+        </HStack>
+        <HStack gap={6} wrap="wrap">
+          {QUIZ_DIFFICULTIES.map((level) => {
+            const score = progress.scores[level];
+            return (
+              <Text key={level} color="gray.300" fontSize="sm">
+                {DIFFICULTY_LABELS[level]}: {score.correct}/{score.answered}
+              </Text>
+            );
+          })}
+          <Text color="gray.300" fontSize="sm">
+            Streak: {progress.streak} (best {progress.bestStreak})
+          </Text>
+        </HStack>
+      </Box>
+    </VStack>
+  );
+}
@@ -0,0 +1,91 @@
+"use client";
+
+import { useMemo } from "react";
+import {
+  Bar,
+  CartesianGrid,
+  ComposedChart,
+  Line,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from "recharts";
+import { InlineMath } from "react-katex";
+import { generateBinomialData } from "@/lib/distributions";
+import { AXIS_PROPS, ProofPlot, TOOLTIP_PROPS } from "./proof-plots";
+
+// Read-only Binomial(n, p) against its normal approximation, in counts or
+// in proportions, for the References/Notes page. Bars are densities, so
+// each bar's area is P(S_n = k) and the curve is the normal density.
+export function BinomialNormalGraph({
+  n,
+  p,
+  axis,
+}: {
+  n: number;
+  p: number;
+  axis: "counts" | "proportions";
+}) {
+  const data = useMemo(
+    () => generateBinomialData(n, p, axis, "density"),
+    [n, p, axis],
+  );
+  const q = 1 - p;
+  const caption =
+    axis === "proportions"
+      ? `\\hat{p} \\approx \\mathcal{N}\\!\\left(p, \\tfrac{p(1-p)}{n}\\right) = \\mathcal{N}\\!\\left(${p.toFixed(2)}, ${Math.sqrt((p * q) / n).toFixed(4)}^2\\right)`
+      : `S_n \\approx \\mathcal{N}(np, np(1-p)) = \\mathcal{N}\\!\\left(${(n * p).toFixed(2)}, ${Math.sqrt(n * p * q).toFixed(3)}^2\\right)`;
+  return (
+    <ProofPlot
+      caption={
+        <>
+          Binomial(<InlineMath math={`n = ${n}, p = ${p.toFixed(2)}`} />):{" "}
+          <InlineMath math={caption} />
+        </>
+      }
+    >
+      <ComposedChart data={data} margin={{ top: 8, right: 16, bottom: 4, left: 4 }}>
+        <CartesianGrid strokeDasharray="3 3" stroke="#4a5568" opacity={0.3} />
+        <XAxis
+          dataKey="x"
+          type="number"
+          domain={["dataMin", "dataMax"]}
+          allowDecimals={axis === "proportions"}
+          tickFormatter={(value: number) =>
+            axis === "proportions" ? value.toFixed(2) : String(value)
+          }
+          {...AXIS_PROPS}
+        />
+        <YAxis
+          tickFormatter={(value: number) => String(+value.toFixed(3))}
+          width={52}
+          {...AXIS_PROPS}
+        />
+        <Tooltip
+          {...TOOLTIP_PROPS}
+          labelFormatter={(_, payload) => payload?.[0]?.payload?.label ?? ""}
+          formatter={(value: number | undefined, name: string | undefined) => [
+            value === undefined ? "" : value.toFixed(5),
+            name,
+          ]}
+        />
+        <Bar
+          dataKey="y"
+          name="Binomial"
+          fill="#60a5fa"
+          opacity={0.7}
+          isAnimationActive={false}
+        />
+        <Line
+          type="monotone"
+          dataKey="normalY"
+          name="Normal"
+          stroke="#f59e0b"
+          strokeWidth={2}
+          dot={false}
+          isAnimationActive={false}
+        />
+      </ComposedChart>
+    </ProofPlot>
+  );
+}
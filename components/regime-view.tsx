@@ -0,0 +1,174 @@
+"use client";
+
+import { useMemo, type RefObject } from "react";
+import { Box, Flex, Text } from "@chakra-ui/react";
+import {
+  ComposedChart,
+  Legend,
+  Line,
+  ReferenceArea,
+  ReferenceDot,
+  ResponsiveContainer,
+  XAxis,
+  YAxis,
+} from "recharts";
+import {
+  binomialPoissonDistance,
+  powerOfTenTicks,
+  REGIME_MAX_N,
+  type RegimeCell,
+} from "@/lib/distributions";
+
+// Cell colors of the regime map: where each approximation wins
+export const REGIME_COLORS = { normal: "#f59e0b", poisson: "#c084fc" };
+
+// The rule of thumb np ≥ 10 and n(1-p) ≥ 10, drawn on the regime map as
+// the curves p = 10/n and p = 1 - 10/n
+const RULE_OF_THUMB_COUNT = 10;
+const RULE_OF_THUMB_CURVE = Array.from({ length: 50 }, (_, i) => {
+  const n =
+    RULE_OF_THUMB_COUNT * Math.pow(REGIME_MAX_N / RULE_OF_THUMB_COUNT, i / 49);
+  return { n, p: RULE_OF_THUMB_COUNT / n, q: 1 - RULE_OF_THUMB_COUNT / n };
+});
+
+// Map of (n, p) colored by whether the normal or the Poisson approximation
+// is closer to the binomial, with the current configuration marked when
+// the source is Bernoulli. The page computes the cells, which it also
+// exports.
+export function RegimeView({
+  n,
+  p,
+  isBernoulli,
+  cells,
+  totalVariation,
+  chartRef,
+}: {
+  n: number;
+  p: number;
+  isBernoulli: boolean;
+  cells: RegimeCell[];
+  // Total variation distance from the current binomial to the normal
+  totalVariation: number;
+  // The chart's container, for image exports
+  chartRef: RefObject<HTMLDivElement | null>;
+}) {
+  const poissonDistance = useMemo(
+    () => (isBernoulli ? binomialPoissonDistance(n, p) : null),
+    [isBernoulli, n, p],
+  );
+
+  return (
+    <Flex flex={1} minHeight={0} direction="column">
+      <Box flex={1} minHeight={0} ref={chartRef}>
+        <ResponsiveContainer width="100%" height="100%">
+          <ComposedChart
+            margin={{ top: 20, right: 30, left: 20, bottom: 20 }}
+          >
+            <XAxis
+              dataKey="n"
+              type="number"
+              scale="log"
+              domain={[1, REGIME_MAX_N]}
+              ticks={powerOfTenTicks(1, REGIME_MAX_N)}
+              allowDataOverflow
+              stroke="#a0aec0"
+              tick={{ fill: "#a0aec0" }}
+              label={{
+                value: "n (number of trials, log scale)",
+                position: "insideBottom",
+                offset: -5,
+                fill: "#cbd5e0",
+                style: { fontSize: "14px" },
+              }}
+            />
+            <YAxis
+              type="number"
+              domain={[0, 1]}
+              ticks={[0, 0.2, 0.4, 0.6, 0.8, 1]}
+              allowDataOverflow
+              stroke="#a0aec0"
+              tick={{ fill: "#a0aec0" }}
+              label={{
+                value: "p",
+                angle: -90,
+                position: "insideLeft",
+                fill: "#cbd5e0",
+                style: { fontSize: "14px" },
+              }}
+            />
+            {cells.map((cell) => {
+              const poissonBetter =
+                cell.poissonDistance < cell.normalDistance;
+              // One decade between the errors gives a solid cell
+              const margin = Math.abs(
+                Math.log10(
+                  Math.max(cell.poissonDistance, 1e-300) /
+                    Math.max(cell.normalDistance, 1e-300),
+                ),
+              );
+              return (
+                <ReferenceArea
+                  key={`${cell.n}-${cell.p}`}
+                  x1={cell.nRange[0]}
+                  x2={cell.nRange[1]}
+                  y1={cell.pRange[0]}
+                  y2={cell.pRange[1]}
+                  fill={
+                    poissonBetter
+                      ? REGIME_COLORS.poisson
+                      : REGIME_COLORS.normal
+                  }
+                  fillOpacity={0.15 + 0.7 * Math.min(1, margin)}
+                  stroke="none"
+                />
+              );
+            })}
+            <Line
+              data={RULE_OF_THUMB_CURVE}
+              dataKey="p"
+              stroke="#f87171"
+              strokeWidth={2}
+              strokeDasharray="6 4"
+              dot={false}
+              isAnimationActive={false}
+              name="np = 10"
+            />
+            <Line
+              data={RULE_OF_THUMB_CURVE}
+              dataKey="q"
+              stroke="#f87171"
+              strokeWidth={2}
+              strokeDasharray="2 4"
+              dot={false}
+              isAnimationActive={false}
+              name="n(1 − p) = 10"
+            />
+            {isBernoulli && n <= REGIME_MAX_N && (
+              <ReferenceDot
+                x={n}
+                y={p}
+                r={6}
+                fill="#e2e8f0"
+                stroke="#1a202c"
+                strokeWidth={2}
+              />
+            )}
+            <Legend verticalAlign="top" wrapperStyle={{ fontSize: "12px" }} />
+          </ComposedChart>
+        </ResponsiveContainer>
+      </Box>
+      <Text color="gray.300" fontSize="xs" mt={2} flexShrink={0}>
+        {poissonDistance !== null ? (
+          <>
+            At n = {n}, p = {p.toFixed(2)} (white dot
+            {n > REGIME_MAX_N && ", off the map"}): total variation{" "}
+            {totalVariation.toExponential(3)} to the normal,{" "}
+            {poissonDistance.toExponential(3)} to Poisson(np).
+          </>
+        ) : (
+          "Choose Bernoulli(p) to place the current configuration on the map."
+        )}
+      </Text>
+    </Flex>
+  );
+}
@@ -0,0 +1,223 @@
+"use client";
+
+import { Box, SegmentGroup, Slider, Text } from "@chakra-ui/react";
+import {
+  formatLatticeValue,
+  latticeMax,
+  snapToLattice,
+  type LatticeDistribution,
+  type RegionMode,
+} from "@/lib/distributions";
+import {
+  SIGMA_K_MAX,
+  SIGMA_K_MIN,
+  SIGMA_K_STEP,
+  Z_LIMIT,
+  Z_STEP,
+} from "@/lib/visualizationState";
+
+// Region modes as offered in the sidebar
+const REGION_OPTIONS: { value: RegionMode; label: string }[] = [
+  { value: "between", label: "[a, b]" },
+  { value: "below", label: "≤ b" },
+  { value: "above", label: "≥ a" },
+  { value: "outside", label: "Outside" },
+  { value: "sigma", label: "μ ± kσ" },
+];
+
+// The region whose probability is compared, and the sliders for its ends:
+// z-scores on a standardized axis, lattice points of the sum otherwise
+export function RegionControls({
+  regionMode,
+  onRegionModeChange,
+  standardized,
+  zMin,
+  zMax,
+  onZMinChange,
+  onZMaxChange,
+  lattice,
+  xMin,
+  xMax,
+  onXMinChange,
+  onXMaxChange,
+  sigmaK,
+  onSigmaKChange,
+}: {
+  regionMode: RegionMode;
+  onRegionModeChange: (mode: RegionMode) => void;
+  standardized: boolean;
+  zMin: number;
+  zMax: number;
+  onZMinChange: (z: number) => void;
+  onZMaxChange: (z: number) => void;
+  // Distribution of the sum, whose points the x sliders snap to
+  lattice: LatticeDistribution;
+  xMin: number;
+  xMax: number;
+  onXMinChange: (x: number) => void;
+  onXMaxChange: (x: number) => void;
+  // Half-width of the μ ± kσ region
+  sigmaK: number;
+  onSigmaKChange: (k: number) => void;
+}) {
+  // Which of the a and b sliders the region uses
+  const usesA = regionMode !== "below" && regionMode !== "sigma";
+  const usesB = regionMode !== "above" && regionMode !== "sigma";
+
+  return (
+    <>
+      <Box>
+        <Text color="gray.300" mb={0.5} fontSize="xs">
+          Region
+        </Text>
+        <SegmentGroup.Root
+          value={regionMode}
+          onValueChange={(details) =>
+            onRegionModeChange(details.value as RegionMode)
+          }
+          size="xs"
+          width="100%"
+        >
+          <SegmentGroup.Indicator />
+          <SegmentGroup.Items
+            flex={1}
+            items={REGION_OPTIONS}
+          />
+        </SegmentGroup.Root>
+      </Box>
+
+      {standardized ? (
+        <>
+          {usesA && (
+            <Box>
+              <Text color="gray.300" mb={0.5} fontSize="xs">
+                a (z): {zMin.toFixed(2)}
+              </Text>
+              <Slider.Root
+                value={[zMin]}
+                onValueChange={(details) => {
+                  const newZMin = details.value[0];
+                  onZMinChange(Math.min(newZMin, zMax - Z_STEP));
+                }}
+                min={-Z_LIMIT}
+                max={Z_LIMIT}
+                step={Z_STEP}
+                colorPalette="green"
+              >
+                <Slider.Control>
+                  <Slider.Track>
+                    <Slider.Range />
+                  </Slider.Track>
+                  <Slider.Thumb index={0} />
+                </Slider.Control>
+              </Slider.Root>
+            </Box>
+          )}
+
+          {usesB && (
+            <Box>
+              <Text color="gray.300" mb={0.5} fontSize="xs">
+                b (z): {zMax.toFixed(2)}
+              </Text>
+              <Slider.Root
+                value={[zMax]}
+                onValueChange={(details) => {
+                  const newZMax = details.value[0];
+                  onZMaxChange(Math.max(newZMax, zMin + Z_STEP));
+                }}
+                min={-Z_LIMIT}
+                max={Z_LIMIT}
+                step={Z_STEP}
+                colorPalette="green"
+              >
+                <Slider.Control>
+                  <Slider.Track>
+                    <Slider.Range />
+                  </Slider.Track>
+                  <Slider.Thumb index={0} />
+                </Slider.Control>
+              </Slider.Root>
+            </Box>
+          )}
+        </>
+      ) : (
+        <>
+          {usesA && (
+            <Box>
+              <Text color="gray.300" mb={0.5} fontSize="xs">
+                X Min: {formatLatticeValue(xMin)}
+              </Text>
+              <Slider.Root
+                value={[xMin]}
+                onValueChange={(details) => {
+                  const newXMin = snapToLattice(lattice, details.value[0]);
+                  onXMinChange(Math.min(newXMin, xMax - lattice.step));
+                }}
+                min={lattice.offset}
+                max={latticeMax(lattice)}
+                step={lattice.step}
+                colorPalette="green"
+              >
+                <Slider.Control>
+                  <Slider.Track>
+                    <Slider.Range />
+                  </Slider.Track>
+                  <Slider.Thumb index={0} />
+                </Slider.Control>
+              </Slider.Root>
+            </Box>
+          )}
+
+          {usesB && (
+            <Box>
+              <Text color="gray.300" mb={0.5} fontSize="xs">
+                X Max: {formatLatticeValue(xMax)}
+              </Text>
+              <Slider.Root
+                value={[xMax]}
+                onValueChange={(details) => {
+                  const newXMax = snapToLattice(lattice, details.value[0]);
+                  onXMaxChange(Math.max(newXMax, xMin + lattice.step));
+                }}
+                min={lattice.offset}
+                max={latticeMax(lattice)}
+                step={lattice.step}
+                colorPalette="green"
+              >
+                <Slider.Control>
+                  <Slider.Track>
+                    <Slider.Range />
+                  </Slider.Track>
+                  <Slider.Thumb index={0} />
+                </Slider.Control>
+              </Slider.Root>
+            </Box>
+          )}
+        </>
+      )}
+
+      {regionMode === "sigma" && (
+        <Box>
+          <Text color="gray.300" mb={0.5} fontSize="xs">
+            k: {sigmaK.toFixed(1)}
+          </Text>
+          <Slider.Root
+            value={[sigmaK]}
+            onValueChange={(details) => onSigmaKChange(details.value[0])}
+            min={SIGMA_K_MIN}
+            max={SIGMA_K_MAX}
+            step={SIGMA_K_STEP}
+            colorPalette="green"
+          >
+            <Slider.Control>
+              <Slider.Track>
+                <Slider.Range />
+              </Slider.Track>
+              <Slider.Thumb index={0} />
+            </Slider.Control>
+          </Slider.Root>
+        </Box>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,128 @@
+"use client";
+
+import { Box, HStack, Input, Text } from "@chakra-ui/react";
+import { InlineMath } from "react-katex";
+import type {
+  RuleCheck,
+  RuleOfThumbId,
+  RuleVerdict,
+} from "@/lib/distributions";
+
+// Each rule of thumb as an inequality, given its threshold
+const RULE_FORMULAS: Record<RuleOfThumbId, (threshold: string) => string> = {
+  np5: (t) => `np \\ge ${t},\\; n(1-p) \\ge ${t}`,
+  np10: (t) => `np \\ge ${t},\\; n(1-p) \\ge ${t}`,
+  npq9: (t) => `np(1-p) \\ge ${t}`,
+  threeSigma: (t) => `\\mu \\pm ${t}\\sigma \\subset [0, n]`,
+};
+// The measured quantity each rule compares with its threshold
+const RULE_VALUES: Record<RuleOfThumbId, string> = {
+  np5: "\\min(np, n(1-p))",
+  np10: "\\min(np, n(1-p))",
+  npq9: "np(1-p)",
+  threeSigma: "\\min(\\mu, n - \\mu)/\\sigma",
+};
+const RULE_VERDICTS: Record<RuleVerdict, string> = {
+  agrees: "agrees with the measured error",
+  tooStrict: "too strict here: the error is already within tolerance",
+  tooLoose: "too loose here: the error exceeds the tolerance",
+};
+
+// Each textbook rule for when the normal approximation is good enough,
+// checked at the current n and p and compared with the measured error
+export function RulesOfThumbPanel({
+  checks,
+  onThresholdChange,
+  errorTolerance,
+  onErrorToleranceChange,
+  kolmogorov,
+}: {
+  checks: RuleCheck[];
+  onThresholdChange: (id: RuleOfThumbId, threshold: number) => void;
+  // Kolmogorov distance below which the approximation counts as good
+  errorTolerance: number;
+  onErrorToleranceChange: (tolerance: number) => void;
+  kolmogorov: number;
+}) {
+  return (
+    <Box mt={1} p={1.5} bg="gray.700" borderRadius="md">
+      <Text color="gray.300" fontSize="xs" mb={0.5} fontWeight="bold">
+        Rules of Thumb:
+      </Text>
+      <HStack gap={1} mb={1}>
+        <Text color="gray.200" fontSize="xs">
+          Tolerance on the Kolmogorov distance:
+        </Text>
+        <Input
+          size="xs"
+          width="70px"
+          type="number"
+          step={0.01}
+          min={0}
+          value={errorTolerance}
+          onChange={(event) => {
+            const value = Number(event.currentTarget.value);
+            if (Number.isFinite(value) && value >= 0) {
+              onErrorToleranceChange(value);
+            }
+          }}
+          color="gray.100"
+        />
+      </HStack>
+      {checks.map((check) => (
+        <Box key={check.id} mb={1}>
+          <HStack gap={1} justify="space-between">
+            <Box color="gray.100" fontSize="xs">
+              <InlineMath
+                math={RULE_FORMULAS[check.id](String(check.threshold))}
+              />
+            </Box>
+            <Text
+              fontSize="xs"
+              fontWeight="bold"
+              color={check.passes ? "#4ade80" : "#f87171"}
+            >
+              {check.passes ? "pass" : "fail"}
+            </Text>
+          </HStack>
+          <HStack gap={1}>
+            <Box color="gray.300" fontSize="xs">
+              <InlineMath
+                math={`${RULE_VALUES[check.id]} = ${check.value.toFixed(2)}`}
+              />
+            </Box>
+            <Box flex={1} />
+            <Text color="gray.400" fontSize="xs">
+              Threshold:
+            </Text>
+            <Input
+              size="xs"
+              width="60px"
+              type="number"
+              min={0}
+              value={check.threshold}
+              onChange={(event) => {
+                const value = Number(event.currentTarget.value);
+                if (Number.isFinite(value) && value >= 0) {
+                  onThresholdChange(check.id, value);
+                }
+              }}
+              color="gray.100"
+            />
+          </HStack>
+          <Text
+            fontSize="xs"
+            color={check.verdict === "agrees" ? "gray.400" : "#fbbf24"}
+          >
+            {RULE_VERDICTS[check.verdict]}
+          </Text>
+        </Box>
+      ))}
+      <Text color="gray.400" fontSize="xs">
+        Kolmogorov distance {kolmogorov.toExponential(3)} is{" "}
+        {kolmogorov <= errorTolerance ? "within" : "above"} the
+        tolerance {errorTolerance}
+      </Text>
+    </Box>
+  );
+}
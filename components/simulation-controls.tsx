@@ -0,0 +1,98 @@
+"use client";
+
+import { Button, HStack, Input, SegmentGroup, Text } from "@chakra-ui/react";
+
+// Speeds are samples drawn per tick
+export const SIMULATION_SPEEDS = [1, 10, 100, 1000];
+
+// Play, step and reset the simulated samples, and choose how fast they are
+// drawn and from which seed
+export function SimulationControls({
+  playing,
+  onPlayingChange,
+  onStep,
+  onReset,
+  speed,
+  onSpeedChange,
+  seed,
+  onSeedChange,
+  samples,
+  samplesPerTick,
+}: {
+  playing: boolean;
+  onPlayingChange: (playing: boolean) => void;
+  // Draw a single sample
+  onStep: () => void;
+  onReset: () => void;
+  speed: number;
+  onSpeedChange: (speed: number) => void;
+  seed: number;
+  onSeedChange: (seed: number) => void;
+  // Samples drawn so far
+  samples: number;
+  // Samples actually drawn per tick, which large n holds below the speed
+  samplesPerTick: number;
+}) {
+  return (
+    <HStack gap={2} mb={2} flexShrink={0} flexWrap="wrap">
+      <Button
+        size="xs"
+        colorPalette="pink"
+        width="60px"
+        onClick={() => onPlayingChange(!playing)}
+      >
+        {playing ? "Pause" : "Play"}
+      </Button>
+      <Button
+        size="xs"
+        variant="outline"
+        disabled={playing}
+        onClick={onStep}
+      >
+        Step
+      </Button>
+      <Button
+        size="xs"
+        variant="outline"
+        onClick={onReset}
+      >
+        Reset
+      </Button>
+      <Text color="gray.300" fontSize="xs" ml={2}>
+        Speed:
+      </Text>
+      <SegmentGroup.Root
+        value={String(speed)}
+        onValueChange={(details) => onSpeedChange(Number(details.value))}
+        size="xs"
+      >
+        <SegmentGroup.Indicator />
+        <SegmentGroup.Items
+          items={SIMULATION_SPEEDS.map((value) => ({
+            value: String(value),
+            label: `${value}×`,
+          }))}
+        />
+      </SegmentGroup.Root>
+      <Text color="gray.300" fontSize="xs" ml={2}>
+        Seed:
+      </Text>
+      <Input
+        size="xs"
+        width="90px"
+        type="number"
+        value={seed}
+        onChange={(event) => {
+          const value = Number(event.currentTarget.value);
+          if (Number.isInteger(value) && value >= 0) onSeedChange(value);
+        }}
+        color="gray.100"
+      />
+      <Text color="gray.200" fontSize="xs" ml={2}>
+        Samples: {samples.toLocaleString()}
+        {samplesPerTick < speed &&
+          ` (${samplesPerTick} per tick at this n)`}
+      </Text>
+    </HStack>
+  );
+}
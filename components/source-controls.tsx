@@ -0,0 +1,180 @@
+"use client";
+
+import {
+  Box,
+  Input,
+  NativeSelect,
+  SegmentGroup,
+  Slider,
+  Text,
+} from "@chakra-ui/react";
+import {
+  SOURCE_OPTIONS,
+  type NumericSourceParameter,
+  type SourceKind,
+  type SourceParameters,
+  type XAxisMode,
+} from "@/lib/distributions";
+
+// The distribution of each X_i and its parameters, the number of draws n
+// and what the x axis shows
+export function SourceControls({
+  source,
+  onSourceChange,
+  customPMFText,
+  customPMFError,
+  onCustomPMFChange,
+  parameters,
+  onParameterChange,
+  xAxisMode,
+  xAxisLocked,
+  onXAxisModeChange,
+  n,
+  maxTrials,
+  onNChange,
+}: {
+  source: SourceKind;
+  onSourceChange: (source: SourceKind) => void;
+  // The custom PMF's weights as typed, and why they were rejected if they were
+  customPMFText: string;
+  customPMFError: string | null;
+  onCustomPMFChange: (text: string) => void;
+  parameters: SourceParameters;
+  onParameterChange: (key: NumericSourceParameter, value: number) => void;
+  xAxisMode: XAxisMode;
+  // Playback can hold the x axis on z-scores or proportions
+  xAxisLocked: boolean;
+  onXAxisModeChange: (mode: XAxisMode) => void;
+  n: number;
+  maxTrials: number;
+  onNChange: (n: number) => void;
+}) {
+  const isBernoulli = source === "bernoulli";
+  const sourceOption =
+    SOURCE_OPTIONS.find((option) => option.kind === source) ?? SOURCE_OPTIONS[0];
+
+  return (
+    <>
+      <Box mb={0.5}>
+        <Text color="gray.300" mb={0.5} fontSize="xs">
+          Source Distribution (X_i)
+        </Text>
+        <NativeSelect.Root size="xs">
+          <NativeSelect.Field
+            value={source}
+            onChange={(event) =>
+              onSourceChange(event.currentTarget.value as SourceKind)
+            }
+            bg="gray.700"
+            color="gray.100"
+          >
+            {SOURCE_OPTIONS.map((option) => (
+              <option key={option.kind} value={option.kind}>
+                {option.label}
+              </option>
+            ))}
+          </NativeSelect.Field>
+          <NativeSelect.Indicator />
+        </NativeSelect.Root>
+      </Box>
+
+      {source === "custom" && (
+        <Box>
+          <Text color="gray.300" mb={0.5} fontSize="xs">
+            Weights for P(X = 0), P(X = 1), …
+          </Text>
+          <Input
+            size="xs"
+            value={customPMFText}
+            onChange={(event) => onCustomPMFChange(event.currentTarget.value)}
+            color="gray.100"
+            borderColor={customPMFError ? "red.400" : "gray.600"}
+          />
+          {customPMFError && (
+            <Text color="red.300" fontSize="xs" mt={0.5}>
+              {customPMFError}
+            </Text>
+          )}
+        </Box>
+      )}
+
+      <Box mb={0.5}>
+        <Text color="gray.300" mb={0.5} fontSize="xs">
+          X Axis
+        </Text>
+        <SegmentGroup.Root
+          value={xAxisMode}
+          disabled={xAxisLocked}
+          onValueChange={(details) =>
+            onXAxisModeChange(details.value as XAxisMode)
+          }
+          size="xs"
+          width="100%"
+        >
+          <SegmentGroup.Indicator />
+          <SegmentGroup.Items
+            flex={1}
+            items={[
+              { value: "counts", label: isBernoulli ? "Counts" : "Sum" },
+              {
+                value: "proportions",
+                label: isBernoulli ? "Proportions" : "Mean",
+              },
+              { value: "standardized", label: "z-scores" },
+            ]}
+          />
+        </SegmentGroup.Root>
+      </Box>
+
+      <Box>
+        <Text color="gray.300" mb={0.5} fontSize="xs">
+          Number of Trials (n): {n}
+        </Text>
+        <Slider.Root
+          value={[n]}
+          onValueChange={(details) => onNChange(Math.round(details.value[0]))}
+          min={1}
+          max={maxTrials}
+          step={1}
+          colorPalette="blue"
+        >
+          <Slider.Control>
+            <Slider.Track>
+              <Slider.Range />
+            </Slider.Track>
+            <Slider.Thumb index={0} />
+          </Slider.Control>
+        </Slider.Root>
+      </Box>
+
+      {sourceOption.parameters.map((parameter) => {
+        const value = parameters[parameter.key];
+        return (
+          <Box key={parameter.key}>
+            <Text color="gray.300" mb={0.5} fontSize="xs">
+              {parameter.label}:{" "}
+              {parameter.step < 1 ? value.toFixed(3) : value}
+            </Text>
+            <Slider.Root
+              value={[value]}
+              onValueChange={(details) =>
+                onParameterChange(parameter.key, details.value[0])
+              }
+              min={parameter.min}
+              max={parameter.max}
+              step={parameter.step}
+              colorPalette="blue"
+            >
+              <Slider.Control>
+                <Slider.Track>
+                  <Slider.Range />
+                </Slider.Track>
+                <Slider.Thumb index={0} />
+              </Slider.Control>
+            </Slider.Root>
+          </Box>
+        );
+      })}
+    </>
+  );
+}
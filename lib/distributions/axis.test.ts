@@ -0,0 +1,43 @@
+import { describe, expect, it } from "vitest";
+import { binomialAxisScale, countRangeForInterval } from "./axis";
+
+describe("binomialAxisScale", () => {
+  it("uses k directly for counts", () => {
+    const scale = binomialAxisScale(50, 0.4, "counts");
+    expect(scale.mean).toBe(20);
+    expect(scale.stdDev).toBeCloseTo(Math.sqrt(12), 15);
+    expect(scale.binWidth).toBe(1);
+    expect(scale.toX(7)).toBe(7);
+  });
+
+  it("divides by n for proportions", () => {
+    const scale = binomialAxisScale(50, 0.4, "proportions");
+    expect(scale.mean).toBe(0.4);
+    expect(scale.stdDev).toBeCloseTo(Math.sqrt(0.24 / 50), 15);
+    expect(scale.binWidth).toBe(0.02);
+    expect(scale.toX(10)).toBe(0.2);
+    expect(scale.toK(0.2)).toBe(10);
+  });
+
+  it("standardizes to mean 0 and spacing 1/√(npq)", () => {
+    const scale = binomialAxisScale(100, 0.5, "standardized");
+    expect(scale.mean).toBe(0);
+    expect(scale.stdDev).toBe(1);
+    expect(scale.binWidth).toBe(0.2);
+    expect(scale.toX(40)).toBe(-2);
+    expect(scale.toK(1.5)).toBe(57.5);
+  });
+});
+
+describe("countRangeForInterval", () => {
+  it("keeps the k whose positions fall in [a, b]", () => {
+    const scale = binomialAxisScale(100, 0.5, "standardized");
+    expect(countRangeForInterval(scale, -1, 1)).toEqual([45, 55]);
+    expect(countRangeForInterval(scale, -0.9, 0.9)).toEqual([46, 54]);
+  });
+
+  it("includes endpoints that land on a bar despite rounding", () => {
+    const scale = binomialAxisScale(30, 0.1, "proportions");
+    expect(countRangeForInterval(scale, 0.1, 0.3)).toEqual([3, 9]);
+  });
+});
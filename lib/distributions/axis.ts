@@ -0,0 +1,89 @@
+import { assertBinomialParameters } from "./validation";
+
+// Scale the binomial is plotted on: the count k, the sample proportion
+// p̂ = k/n, or the standardized x_{n,k} = (k - np)/√(npq)
+export type XAxisMode = "counts" | "proportions" | "standardized";
+
+// Mean, standard deviation and bar spacing of a sum S_n on one of the
+// x-axis scales, with conversions between values of S_n (k, for the
+// binomial) and positions on that scale
+export interface AxisScale {
+  mode: XAxisMode;
+  mean: number;
+  stdDev: number;
+  binWidth: number;
+  toX(k: number): number;
+  toK(x: number): number;
+}
+
+// Scale for S_n = X_1 + ... + X_n where each X_i has the given mean and
+// variance and S_n lives on a lattice with the given step. "counts" plots
+// S_n, "proportions" plots the sample mean S_n/n, and "standardized" plots
+// (S_n - nμ)/(σ√n).
+export function sumAxisScale(
+  n: number,
+  sourceMean: number,
+  sourceVariance: number,
+  step: number,
+  mode: XAxisMode,
+): AxisScale {
+  const sumMean = n * sourceMean;
+  const sumStdDev = Math.sqrt(n * sourceVariance);
+
+  switch (mode) {
+    case "counts":
+      return {
+        mode,
+        mean: sumMean,
+        stdDev: sumStdDev,
+        binWidth: step,
+        toX: (k) => k,
+        toK: (x) => x,
+      };
+    case "proportions":
+      return {
+        mode,
+        mean: sourceMean,
+        stdDev: sumStdDev / n,
+        binWidth: step / n,
+        toX: (k) => k / n,
+        toK: (x) => x * n,
+      };
+    case "standardized":
+      // Δx_n = step/(σ√n), so the bars sit on the standard normal φ(x)
+      return {
+        mode,
+        mean: 0,
+        stdDev: 1,
+        binWidth: step / sumStdDev,
+        toX: (k) => (k - sumMean) / sumStdDev,
+        toK: (x) => sumMean + x * sumStdDev,
+      };
+  }
+}
+
+// Scale for Binomial(n, p), the sum of n Bernoulli(p) trials
+export function binomialAxisScale(
+  n: number,
+  p: number,
+  mode: XAxisMode,
+): AxisScale {
+  assertBinomialParameters(n, p);
+  return sumAxisScale(n, p, p * (1 - p), 1, mode);
+}
+
+// Positions within this distance of a bar are treated as landing on it, so
+// rounding in toK does not drop an endpoint
+const BAR_SNAP_TOLERANCE = 1e-9;
+
+// The integers k whose positions lie in [a, b] on the given scale
+export function countRangeForInterval(
+  scale: AxisScale,
+  a: number,
+  b: number,
+): [number, number] {
+  return [
+    Math.ceil(scale.toK(a) - BAR_SNAP_TOLERANCE),
+    Math.floor(scale.toK(b) + BAR_SNAP_TOLERANCE),
+  ];
+}
@@ -0,0 +1,110 @@
+import { describe, expect, it } from "vitest";
+import {
+  binomial,
+  binomialLogPMF,
+  binomialPMF,
+  binomialSum,
+} from "./binomial";
+import { InvalidParameterError } from "./types";
+
+describe("binomialPMF", () => {
+  it("matches reference values", () => {
+    expect(binomialPMF(10, 5, 0.5)).toBeCloseTo(252 / 1024, 14);
+    expect(binomialPMF(20, 6, 0.3)).toBeCloseTo(0.19163898275344238, 14);
+  });
+
+  it("handles degenerate p", () => {
+    expect(binomialPMF(10, 0, 0)).toBe(1);
+    expect(binomialPMF(10, 10, 1)).toBe(1);
+    expect(binomialPMF(10, 3, 0)).toBe(0);
+  });
+
+  it("sums to 1", () => {
+    expect(binomialSum(50, 0.37, 0, 50)).toBeCloseTo(1, 12);
+  });
+
+  it("stays accurate for thousands of trials", () => {
+    expect(binomialPMF(10000, 5000, 0.5)).toBeCloseTo(0.007978646139382154, 12);
+    expect(binomialPMF(5000, 50, 0.01)).toBeCloseTo(0.056608751771437434, 12);
+    expect(binomialPMF(10000, 0, 0.5)).toBe(0);
+  });
+
+  it.each([
+    [1000, 0.5],
+    [5000, 0.01],
+    [10000, 0.5],
+    [10000, 0.99],
+  ])("sums to 1 for n=%i, p=%f", (n, p) => {
+    let total = 0;
+    for (let k = 0; k <= n; k++) {
+      const prob = binomialPMF(n, k, p);
+      expect(Number.isFinite(prob)).toBe(true);
+      total += prob;
+    }
+    expect(total).toBeCloseTo(1, 10);
+  });
+});
+
+describe("binomialLogPMF", () => {
+  it("is the log of the PMF", () => {
+    expect(binomialLogPMF(20, 6, 0.3)).toBeCloseTo(
+      Math.log(0.19163898275344238),
+      12,
+    );
+  });
+
+  it("stays finite where the PMF underflows", () => {
+    const logProb = binomialLogPMF(10000, 0, 0.5);
+    expect(logProb).toBeCloseTo(10000 * Math.log(0.5), 8);
+  });
+
+  it("is -Infinity outside the support", () => {
+    expect(binomialLogPMF(10, 11, 0.5)).toBe(-Infinity);
+    expect(binomialLogPMF(10, 3, 1)).toBe(-Infinity);
+  });
+});
+
+describe("binomialSum", () => {
+  it("sums the PMF over an inclusive range", () => {
+    expect(binomialSum(20, 0.3, 4, 8)).toBeCloseTo(0.7795817326192898, 12);
+    expect(binomialSum(50, 0.5, 20, 30)).toBeCloseTo(0.8810795474405637, 12);
+  });
+
+  it("clamps the range to the support", () => {
+    expect(binomialSum(10, 0.4, -5, 15)).toBeCloseTo(1, 12);
+    expect(binomialSum(10, 0.4, 11, 15)).toBe(0);
+  });
+
+  it("only counts the integers inside a fractional range", () => {
+    expect(binomialSum(20, 0.3, 3.5, 8.5)).toBeCloseTo(
+      binomialSum(20, 0.3, 4, 8),
+      15,
+    );
+    expect(binomialSum(10, 0.4, 2.5, 2.9)).toBe(0);
+  });
+});
+
+describe("binomial", () => {
+  it("exposes moments and support", () => {
+    const dist = binomial(40, 0.25);
+    expect(dist.mean).toBe(10);
+    expect(dist.variance).toBe(7.5);
+    expect(dist.stdDev).toBeCloseTo(Math.sqrt(7.5), 14);
+    expect(dist.support).toEqual({ kind: "discrete", min: 0, max: 40 });
+  });
+
+  it("has a step CDF", () => {
+    const dist = binomial(20, 0.3);
+    expect(dist.cdf(-1)).toBe(0);
+    expect(dist.cdf(8.5)).toBeCloseTo(dist.cdf(8), 14);
+    expect(dist.cdf(20)).toBeCloseTo(1, 12);
+    expect(dist.pmf(2.5)).toBe(0);
+  });
+
+  it("rejects invalid parameters", () => {
+    expect(() => binomial(-1, 0.5)).toThrow(InvalidParameterError);
+    expect(() => binomial(2.5, 0.5)).toThrow(InvalidParameterError);
+    expect(() => binomial(10, 1.5)).toThrow(InvalidParameterError);
+    expect(() => binomial(10, Number.NaN)).toThrow(InvalidParameterError);
+  });
+});
@@ -0,0 +1,49 @@
+import { logBinomialCoefficient } from "./special";
+import type { DiscreteDistribution } from "./types";
+import { assertBinomialParameters } from "./validation";
+
+// log P(X = k) = log C(n, k) + k log p + (n-k) log(1-p)
+// Computed in log space so that large n neither overflows C(n, k) nor
+// underflows p^k (1-p)^(n-k).
+export function binomialLogPMF(n: number, k: number, p: number): number {
+  if (k < 0 || k > n) return -Infinity;
+  if (p === 0) return k === 0 ? 0 : -Infinity;
+  if (p === 1) return k === n ? 0 : -Infinity;
+  return (
+    logBinomialCoefficient(n, k) + k * Math.log(p) + (n - k) * Math.log1p(-p)
+  );
+}
+
+// Binomial PMF: P(X = k) = C(n, k) * p^k * (1-p)^(n-k)
+export function binomialPMF(n: number, k: number, p: number): number {
+  return Math.exp(binomialLogPMF(n, k, p));
+}
+
+// Calculate discrete sum of binomial PMF from a to b (inclusive)
+export function binomialSum(n: number, p: number, a: number, b: number): number {
+  let sum = 0;
+  // Only the integers inside [a, b] count, so a fractional a starts at the
+  // next integer up
+  const startK = Math.max(0, Math.ceil(a));
+  const endK = Math.min(n, Math.floor(b));
+
+  for (let k = startK; k <= endK; k++) {
+    sum += binomialPMF(n, k, p);
+  }
+  return sum;
+}
+
+// Binomial(n, p) as a distribution object
+export function binomial(n: number, p: number): DiscreteDistribution {
+  assertBinomialParameters(n, p);
+  const variance = n * p * (1 - p);
+  return {
+    name: "Binomial",
+    mean: n * p,
+    variance,
+    stdDev: Math.sqrt(variance),
+    support: { kind: "discrete", min: 0, max: n },
+    pmf: (k) => (Number.isInteger(k) ? binomialPMF(n, k, p) : 0),
+    cdf: (x) => binomialSum(n, p, 0, x),
+  };
+}
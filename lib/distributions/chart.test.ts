@@ -0,0 +1,174 @@
+import { describe, expect, it } from "vitest";
+import { binomialAxisScale, sumAxisScale } from "./axis";
+import { binomialPMF } from "./binomial";
+import { edgeworthPDF } from "./edgeworth";
+import { normalPDF } from "./normal";
+import { poissonPMF } from "./poisson";
+import {
+  binomialPlotRange,
+  generateBinomialData,
+  generateSumData,
+  MAX_FULL_SUPPORT_TRIALS,
+  powerOfTenTicks,
+} from "./chart";
+
+describe("generateBinomialData", () => {
+  it("emits one point per k with the binomial PMF", () => {
+    const data = generateBinomialData(10, 0.4);
+    expect(data).toHaveLength(11);
+    data.forEach((point, k) => {
+      expect(point.x).toBe(k);
+      expect(point.y).toBe(binomialPMF(10, k, 0.4));
+      expect(point.label).toBe(`k=${k}`);
+    });
+  });
+
+  it("uses sample proportions on the x axis", () => {
+    const data = generateBinomialData(4, 0.5, "proportions");
+    expect(data.map((point) => point.x)).toEqual([0, 0.25, 0.5, 0.75, 1]);
+    expect(data[2].label).toBe("p̂=0.500");
+  });
+
+  it("scales the normal overlay by the bar width", () => {
+    const counts = generateBinomialData(30, 0.2);
+    expect(counts[6].normalY).toBeCloseTo(
+      normalPDF(6, 6, Math.sqrt(4.8)),
+      15,
+    );
+
+    const proportions = generateBinomialData(30, 0.2, "proportions");
+    expect(proportions[6].normalY).toBeCloseTo(
+      normalPDF(0.2, 0.2, Math.sqrt(0.16 / 30)) / 30,
+      15,
+    );
+  });
+
+  it("gives bars of total area 1 in density mode", () => {
+    const data = generateBinomialData(40, 0.3, "proportions", "density");
+    const area = data.reduce((total, point) => total + point.y / 40, 0);
+    expect(area).toBeCloseTo(1, 12);
+    expect(data[12].y).toBeCloseTo(binomialPMF(40, 12, 0.3) * 40, 12);
+    expect(data[12].normalY).toBeCloseTo(
+      normalPDF(0.3, 0.3, Math.sqrt(0.21 / 40)),
+      12,
+    );
+  });
+});
+
+describe("generateBinomialData in standardized mode", () => {
+  it("plots bars at x_{n,k} on top of the standard normal density", () => {
+    const n = 100;
+    const p = 0.5;
+    const data = generateBinomialData(n, p, "standardized", "density");
+    // npq = 25, so Δx_n = 1/5 and x_{n,k} = (k - 50)/5
+    expect(data[50].x).toBe(0);
+    expect(data[55].x).toBe(1);
+    expect(data[55].label).toBe("z=1.000");
+    expect(data[50].normalY).toBeCloseTo(normalPDF(0, 0, 1), 15);
+    expect(data[50].y).toBeCloseTo(binomialPMF(n, 50, p) * 5, 15);
+    // The local limit theorem: the bar height is close to φ(x_{n,k})
+    expect(Math.abs(data[55].y - data[55].normalY)).toBeLessThan(0.01);
+  });
+});
+
+describe("binomialPlotRange", () => {
+  it("plots the full support for small n", () => {
+    expect(binomialPlotRange(MAX_FULL_SUPPORT_TRIALS, 0.01)).toEqual([
+      0,
+      MAX_FULL_SUPPORT_TRIALS,
+    ]);
+  });
+
+  it("keeps the bulk of the distribution for large n", () => {
+    const [kMin, kMax] = binomialPlotRange(10000, 0.5);
+    expect(kMin).toBe(4600);
+    expect(kMax).toBe(5400);
+    const data = generateBinomialData(10000, 0.5);
+    expect(data).toHaveLength(801);
+    const plottedMass = data.reduce((total, point) => total + point.y, 0);
+    expect(plottedMass).toBeCloseTo(1, 9);
+  });
+});
+
+describe("generateSumData", () => {
+  const sum = { offset: 0, step: 1, probs: [0.25, 0.5, 0.25] };
+  const scale = binomialAxisScale(2, 0.5, "counts");
+
+  it("plots the exact lattice probabilities", () => {
+    const { points, barWidth } = generateSumData(sum, scale);
+    expect(barWidth).toBe(1);
+    expect(points.map((point) => point.y)).toEqual(sum.probs);
+    expect(points[0].empiricalY).toBeUndefined();
+  });
+
+  it("scales observed frequencies like the exact bars", () => {
+    const proportions = binomialAxisScale(2, 0.5, "proportions");
+    const { points } = generateSumData(sum, proportions, {
+      yAxisMode: "density",
+      empirical: [0.3, 0.4, 0.3],
+    });
+    expect(points.map((point) => point.empiricalY)).toEqual([0.6, 0.8, 0.6]);
+  });
+
+  it("adds the Edgeworth curve when given the skewness", () => {
+    const { points } = generateSumData(sum, scale, { skewness: 0.3 });
+    points.forEach((point) => {
+      expect(point.edgeworthY).toBeCloseTo(
+        edgeworthPDF(point.x, 1, Math.SQRT1_2, 0.3),
+        15,
+      );
+    });
+    expect(generateSumData(sum, scale).points[0].edgeworthY).toBeUndefined();
+  });
+
+  it("adds the Poisson probability of each bar when given its mean", () => {
+    const { points } = generateSumData(sum, scale, { poissonMean: 1 });
+    points.forEach((point, k) => {
+      expect(point.poissonY).toBeCloseTo(poissonPMF(1, k), 15);
+    });
+  });
+
+  it("merges Poisson probabilities with the bars", () => {
+    const n = 3000;
+    const p = 0.01;
+    const wide = {
+      offset: 0,
+      step: 1,
+      probs: Array.from({ length: n + 1 }, (_, k) => binomialPMF(n, k, p)),
+    };
+    const counts = binomialAxisScale(n, p, "counts");
+    const { points } = generateSumData(wide, counts, { poissonMean: n * p });
+    const total = points.reduce((acc, point) => acc + point.poissonY!, 0);
+    expect(total).toBeCloseTo(1, 6);
+  });
+
+  it("centres and scales a merged bar cut short by the end of the range", () => {
+    // 1003 points merge in pairs, leaving the last point on its own
+    const flat = {
+      offset: 0,
+      step: 1,
+      probs: new Array<number>(1003).fill(1 / 1003),
+    };
+    const wideScale = sumAxisScale(1, 501, 200 * 200, 1, "counts");
+    const density = generateSumData(flat, wideScale, { yAxisMode: "density" });
+    expect(density.barWidth).toBe(2);
+    expect(density.points).toHaveLength(502);
+    expect(density.points[500].x).toBe(1000.5);
+    expect(density.points[501].x).toBe(1002);
+    density.points.forEach((point) => expect(point.y).toBeCloseTo(1 / 1003, 15));
+
+    const { points } = generateSumData(flat, wideScale);
+    expect(points[500].y).toBeCloseTo(2 / 1003, 15);
+    expect(points[501].y).toBeCloseTo(1 / 1003, 15);
+    expect(points[501].normalY).toBeCloseTo(normalPDF(1002, 501, 200), 15);
+  });
+});
+
+describe("powerOfTenTicks", () => {
+  it("covers the range with powers of ten", () => {
+    expect(powerOfTenTicks(1, 10000)).toEqual([1, 10, 100, 1000, 10000]);
+    const small = powerOfTenTicks(3e-4, 0.2);
+    expect(small).toHaveLength(5);
+    small.forEach((tick, i) => expect(tick).toBeCloseTo(10 ** (i - 4), 15));
+  });
+});
@@ -0,0 +1,193 @@
+import { binomialAxisScale, type AxisScale, type XAxisMode } from "./axis";
+import { binomialPMF } from "./binomial";
+import { edgeworthPDF } from "./edgeworth";
+import { latticeIndexRange, latticeValue } from "./lattice";
+import { normalPDF } from "./normal";
+import { poissonPMF } from "./poisson";
+import type {
+  BinomialChartPoint,
+  LatticeDistribution,
+  YAxisMode,
+} from "./types";
+
+// Up to this many trials every k in [0, n] is plotted
+export const MAX_FULL_SUPPORT_TRIALS = 200;
+
+// Number of standard deviations either side of the mean kept on the chart
+// once n exceeds MAX_FULL_SUPPORT_TRIALS. The mass outside μ ± 8σ is far
+// below anything a bar could show.
+const PLOT_HALF_WIDTH_SIGMAS = 8;
+
+// Range of k values [kMin, kMax] worth plotting for Binomial(n, p)
+export function binomialPlotRange(n: number, p: number): [number, number] {
+  if (n <= MAX_FULL_SUPPORT_TRIALS) return [0, n];
+  const mean = n * p;
+  const halfWidth = PLOT_HALF_WIDTH_SIGMAS * Math.sqrt(n * p * (1 - p));
+  return [
+    Math.max(0, Math.floor(mean - halfWidth)),
+    Math.min(n, Math.ceil(mean + halfWidth)),
+  ];
+}
+
+// Generate binomial distribution data with normal overlay.
+// The overlay is the normal density scaled by the bar width Δx (1 for
+// counts, 1/n for proportions, 1/√(npq) for standardized values), so in
+// "probability" mode bars are P(X = k) and the curve is f(x)Δx, while in
+// "density" mode bars are P(X = k)/Δx (total area 1) and the curve is f(x).
+export function generateBinomialData(
+  n: number,
+  p: number,
+  xAxisMode: XAxisMode = "counts",
+  yAxisMode: YAxisMode = "probability",
+): BinomialChartPoint[] {
+  const scale = binomialAxisScale(n, p, xAxisMode);
+  const [kMin, kMax] = binomialPlotRange(n, p);
+  const data: BinomialChartPoint[] = [];
+
+  const barScale = yAxisMode === "density" ? 1 / scale.binWidth : 1;
+  const curveScale = yAxisMode === "density" ? 1 : scale.binWidth;
+
+  for (let k = kMin; k <= kMax; k++) {
+    const x = scale.toX(k);
+    data.push({
+      x,
+      y: binomialPMF(n, k, p) * barScale,
+      normalY: normalPDF(x, scale.mean, scale.stdDev) * curveScale,
+      label: chartPointLabel(xAxisMode, k, x),
+    });
+  }
+  return data;
+}
+
+// Symbols used in point labels for the sum and the sample mean
+export interface ChartLabelSymbols {
+  count: string;
+  mean: string;
+}
+
+const BINOMIAL_LABEL_SYMBOLS: ChartLabelSymbols = { count: "k", mean: "p̂" };
+
+function chartPointLabel(
+  mode: XAxisMode,
+  k: number,
+  x: number,
+  symbols: ChartLabelSymbols = BINOMIAL_LABEL_SYMBOLS,
+): string {
+  switch (mode) {
+    case "counts":
+      return `${symbols.count}=${+k.toFixed(4)}`;
+    case "proportions":
+      return `${symbols.mean}=${x.toFixed(3)}`;
+    case "standardized":
+      return `z=${x.toFixed(3)}`;
+  }
+}
+
+// Lattices with at most this many points are plotted in full
+const MAX_FULL_LATTICE_POINTS = MAX_FULL_SUPPORT_TRIALS + 1;
+
+// Beyond this many bars, neighbouring lattice points are merged into one bar
+export const MAX_CHART_BARS = 1000;
+
+// Optional extras for generateSumData
+export interface SumChartOptions {
+  yAxisMode?: YAxisMode;
+  symbols?: ChartLabelSymbols;
+  // Observed frequencies aligned with sum.probs, from a simulation
+  empirical?: number[];
+  // Skewness of S_n; when given, each point also carries the first-order
+  // Edgeworth density
+  skewness?: number;
+  // Mean of a Poisson approximation to an integer-valued S_n; when given,
+  // each point also carries the Poisson probability of its bar
+  poissonMean?: number;
+}
+
+export interface SumChartData {
+  points: BinomialChartPoint[];
+  // Width of one bar on the x-axis scale
+  barWidth: number;
+}
+
+// Generate chart data for the exact distribution of a sum S_n with the CLT
+// normal overlay. Works like generateBinomialData: only μ ± 8σ is kept once
+// the lattice is large, and if that still leaves more than MAX_CHART_BARS
+// points, consecutive points are merged so each bar covers several lattice
+// steps (the normal overlay is scaled by the merged bar width). Observed
+// frequencies and Poisson probabilities, if given, are merged and scaled
+// the same way as the exact bars, and the Edgeworth curve the same way as
+// the normal one.
+export function generateSumData(
+  sum: LatticeDistribution,
+  scale: AxisScale,
+  options: SumChartOptions = {},
+): SumChartData {
+  const {
+    yAxisMode = "probability",
+    symbols,
+    empirical,
+    skewness,
+    poissonMean,
+  } = options;
+  let [first, last] = [0, sum.probs.length - 1];
+  if (sum.probs.length > MAX_FULL_LATTICE_POINTS) {
+    const halfWidth = PLOT_HALF_WIDTH_SIGMAS * scale.stdDev;
+    [first, last] = latticeIndexRange(
+      sum,
+      scale.toK(scale.mean - halfWidth),
+      scale.toK(scale.mean + halfWidth),
+    );
+  }
+
+  const groupSize = Math.ceil((last - first + 1) / MAX_CHART_BARS);
+  const barWidth = groupSize * scale.binWidth;
+
+  const points: BinomialChartPoint[] = [];
+  for (let start = first; start <= last; start += groupSize) {
+    const end = Math.min(start + groupSize - 1, last);
+    // The last group can be cut short by the end of the range
+    const size = end - start + 1;
+    const width = size * scale.binWidth;
+    const barScale = yAxisMode === "density" ? 1 / width : 1;
+    const curveScale = yAxisMode === "density" ? 1 : width;
+    let prob = 0;
+    let observed = 0;
+    let poissonProb = 0;
+    for (let j = start; j <= end; j++) {
+      prob += sum.probs[j];
+      if (empirical) observed += empirical[j];
+      if (poissonMean !== undefined) {
+        poissonProb += poissonPMF(poissonMean, latticeValue(sum, j));
+      }
+    }
+    // Centre of the merged bar; the lattice value itself when not merged
+    const k = latticeValue(sum, start) + ((size - 1) * sum.step) / 2;
+    const x = scale.toX(k);
+    points.push({
+      x,
+      y: prob * barScale,
+      normalY: normalPDF(x, scale.mean, scale.stdDev) * curveScale,
+      label: chartPointLabel(scale.mode, k, x, symbols),
+      ...(empirical && { empiricalY: observed * barScale }),
+      ...(skewness !== undefined && {
+        edgeworthY:
+          edgeworthPDF(x, scale.mean, scale.stdDev, skewness) * curveScale,
+      }),
+      ...(poissonMean !== undefined && { poissonY: poissonProb * barScale }),
+    });
+  }
+  return { points, barWidth };
+}
+
+// Powers of ten covering [min, max], for log-axis ticks
+export function powerOfTenTicks(min: number, max: number): number[] {
+  const ticks: number[] = [];
+  for (
+    let e = Math.floor(Math.log10(min));
+    e <= Math.ceil(Math.log10(max));
+    e++
+  ) {
+    ticks.push(Math.pow(10, e));
+  }
+  return ticks;
+}
@@ -0,0 +1,69 @@
+import { describe, expect, it } from "vitest";
+import { binomialSum } from "./binomial";
+import {
+  binomialConvergence,
+  binomialRangeError,
+  CONVERGENCE_SWEEP_POINTS,
+  sweepTrialCounts,
+} from "./convergence";
+import { normalCDF } from "./normal";
+
+describe("sweepTrialCounts", () => {
+  it("runs from 1 to maxN without repeats", () => {
+    const counts = sweepTrialCounts(10000);
+    expect(counts[0]).toBe(1);
+    expect(counts[counts.length - 1]).toBe(10000);
+    expect(new Set(counts).size).toBe(counts.length);
+    expect(counts.length).toBeLessThanOrEqual(CONVERGENCE_SWEEP_POINTS);
+    counts.slice(1).forEach((n, i) => expect(n).toBeGreaterThan(counts[i]));
+  });
+
+  it("covers every n when there are few", () => {
+    expect(sweepTrialCounts(5, 60)).toEqual([1, 2, 3, 4, 5]);
+  });
+});
+
+describe("binomialRangeError", () => {
+  it("compares the binomial sum over a z range with Φ(b) - Φ(a)", () => {
+    // n = 100, p = 1/2: z ∈ [-1, 1] is k ∈ [45, 55]
+    const exact = binomialSum(100, 0.5, 45, 55);
+    const normal = normalCDF(1, 0, 1) - normalCDF(-1, 0, 1);
+    expect(binomialRangeError(100, 0.5, -1, 1, "none")).toBeCloseTo(
+      Math.abs(exact - normal),
+      14,
+    );
+  });
+
+  it("is much smaller with the continuity correction", () => {
+    const plain = binomialRangeError(100, 0.5, -1, 1, "none");
+    const corrected = binomialRangeError(100, 0.5, -1, 1, "continuity");
+    expect(corrected).toBeLessThan(plain / 10);
+  });
+});
+
+describe("binomialConvergence", () => {
+  const points = binomialConvergence(0.3, 2000, [-1, 1]);
+
+  it("shows the Kolmogorov distance falling like n^(-1/2)", () => {
+    const last = points[points.length - 1];
+    expect(last.n).toBe(2000);
+    expect(last.reference).toBeCloseTo(last.kolmogorov, 15);
+    // Slope of log d_K against log n over the last decade
+    const start = points.find((point) => point.n >= 200)!;
+    const slope =
+      Math.log(last.kolmogorov / start.kolmogorov) /
+      Math.log(last.n / start.n);
+    expect(slope).toBeCloseTo(-0.5, 1);
+  });
+
+  it("keeps every Kolmogorov distance under the Berry–Esseen bound", () => {
+    points.forEach((point) => {
+      expect(point.kolmogorov).toBeLessThan(point.berryEsseenBound);
+      expect(point.rangeError).toBeDefined();
+    });
+  });
+
+  it("omits the range error when no range is given", () => {
+    expect(binomialConvergence(0.5, 10)[0].rangeError).toBeUndefined();
+  });
+});
@@ -0,0 +1,96 @@
+import { binomialAxisScale, countRangeForInterval } from "./axis";
+import { binomialSum } from "./binomial";
+import {
+  applyContinuityCorrection,
+  continuityCorrectionOffset,
+  type ContinuityCorrection,
+} from "./correction";
+import { approximationMetrics } from "./metrics";
+import { normalIntegral } from "./normal";
+import {
+  DEFAULT_SOURCE_PARAMETERS,
+  sourceDistribution,
+  sumDistribution,
+} from "./sources";
+import { assertBinomialParameters } from "./validation";
+
+// Error of the normal approximation to Binomial(n, p) at one n
+export interface ConvergencePoint {
+  n: number;
+  kolmogorov: number;
+  totalVariation: number;
+  maxLocalError: number;
+  berryEsseenBound: number;
+  // |P(a ≤ Z_n ≤ b) - (Φ(b) - Φ(a))| for a fixed z range, if one is given
+  rangeError?: number;
+  // c·n^(-1/2), with c chosen to meet the Kolmogorov distance at the
+  // largest n
+  reference: number;
+}
+
+// Number of n values in a sweep; they are spread evenly on a log scale
+export const CONVERGENCE_SWEEP_POINTS = 60;
+
+// Distinct integers from 1 to maxN, roughly evenly spaced in log n
+export function sweepTrialCounts(
+  maxN: number,
+  count: number = CONVERGENCE_SWEEP_POINTS,
+): number[] {
+  const counts = new Set<number>();
+  for (let i = 0; i < count; i++) {
+    counts.add(Math.round(Math.pow(maxN, i / (count - 1))));
+  }
+  return [...counts];
+}
+
+// |binomial sum - normal integral| for the standardized range [a, b] at
+// one n, with the same continuity correction as the probability comparison
+export function binomialRangeError(
+  n: number,
+  p: number,
+  a: number,
+  b: number,
+  correction: ContinuityCorrection,
+): number {
+  const scale = binomialAxisScale(n, p, "standardized");
+  const [kFrom, kTo] = countRangeForInterval(scale, a, b);
+  const exact = binomialSum(n, p, kFrom, kTo);
+  const offset = continuityCorrectionOffset(correction, scale.binWidth);
+  const [from, to] =
+    offset > 0 && kFrom <= kTo
+      ? applyContinuityCorrection(scale.toX(kFrom), scale.toX(kTo), offset)
+      : [a, b];
+  return Math.abs(exact - normalIntegral(from, to, 0, 1));
+}
+
+// Sweep n from 1 to maxN for fixed p and record how far Binomial(n, p) is
+// from its normal approximation
+export function binomialConvergence(
+  p: number,
+  maxN: number,
+  zRange: [number, number] | null = null,
+  correction: ContinuityCorrection = "none",
+): ConvergencePoint[] {
+  assertBinomialParameters(maxN, p);
+  const source = sourceDistribution("bernoulli", {
+    ...DEFAULT_SOURCE_PARAMETERS,
+    p,
+  });
+  const points = sweepTrialCounts(maxN).map((n) => {
+    const metrics = approximationMetrics(source, sumDistribution(source, n), n);
+    return {
+      n,
+      ...metrics,
+      ...(zRange && {
+        rangeError: binomialRangeError(n, p, zRange[0], zRange[1], correction),
+      }),
+    };
+  });
+
+  const last = points[points.length - 1];
+  const c = last.kolmogorov * Math.sqrt(last.n);
+  return points.map((point) => ({
+    ...point,
+    reference: c / Math.sqrt(point.n),
+  }));
+}
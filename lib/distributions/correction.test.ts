@@ -0,0 +1,45 @@
+import { describe, expect, it } from "vitest";
+import { binomialSum } from "./binomial";
+import {
+  applyContinuityCorrection,
+  continuityCorrectionOffset,
+} from "./correction";
+import { normalIntegral } from "./normal";
+
+describe("continuityCorrectionOffset", () => {
+  it("is zero without a correction", () => {
+    expect(continuityCorrectionOffset("none", 1)).toBe(0);
+    expect(continuityCorrectionOffset("none", 1 / 50)).toBe(0);
+  });
+
+  it("is half a bar on the chosen scale", () => {
+    expect(continuityCorrectionOffset("continuity", 1)).toBe(0.5);
+    expect(continuityCorrectionOffset("continuity", 1 / 50)).toBe(0.01);
+  });
+});
+
+describe("applyContinuityCorrection", () => {
+  it("widens the interval by the offset on both sides", () => {
+    expect(applyContinuityCorrection(20, 30, 0.5)).toEqual([19.5, 30.5]);
+    expect(applyContinuityCorrection(0.4, 0.6, 0)).toEqual([0.4, 0.6]);
+  });
+
+  it("shrinks the binomial-normal gap", () => {
+    const n = 50;
+    const p = 0.5;
+    const mean = n * p;
+    const stdDev = Math.sqrt(n * p * (1 - p));
+    const exact = binomialSum(n, p, 20, 30);
+
+    const uncorrected = normalIntegral(20, 30, mean, stdDev);
+    const [a, b] = applyContinuityCorrection(
+      20,
+      30,
+      continuityCorrectionOffset("continuity", 1),
+    );
+    const corrected = normalIntegral(a, b, mean, stdDev);
+
+    expect(Math.abs(exact - corrected)).toBeLessThan(1e-3);
+    expect(Math.abs(exact - uncorrected)).toBeGreaterThan(0.03);
+  });
+});
@@ -0,0 +1,24 @@
+// How the normal integral's bounds relate to the binomial sum's range.
+// "none" integrates over exactly [a, b]; "continuity" widens the interval by
+// half a bar on each side, i.e. ±0.5 for counts, ±1/(2n) for proportions and
+// ±Δx_n/2 for standardized values.
+export type ContinuityCorrection = "none" | "continuity";
+
+// Half-width of one bar of width binWidth, or 0 when uncorrected
+export function continuityCorrectionOffset(
+  correction: ContinuityCorrection,
+  binWidth: number,
+): number {
+  if (correction === "none") return 0;
+  return binWidth / 2;
+}
+
+// Interval [a - offset, b + offset] to integrate the normal density over
+// when approximating the binomial sum over [a, b]
+export function applyContinuityCorrection(
+  a: number,
+  b: number,
+  offset: number,
+): [number, number] {
+  return [a - offset, b + offset];
+}
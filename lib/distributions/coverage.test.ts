@@ -0,0 +1,42 @@
+import { describe, expect, it } from "vitest";
+import { binomialPMF } from "./binomial";
+import { coverageCurve, intervalCoverage } from "./coverage";
+
+describe("intervalCoverage", () => {
+  it("is zero for the Wald interval with one trial", () => {
+    // x = 0 and x = 1 give the degenerate intervals [0, 0] and [1, 1]
+    expect(intervalCoverage("wald", 1, 0.3, 0.95)).toBe(0);
+  });
+
+  it("sums the binomial PMF over the covering outcomes", () => {
+    // n = 20, p = 0.05: Wald covers p only for x = 1, ..., 4 (x = 0 gives
+    // [0, 0], and x ≥ 5 gives intervals starting above 0.05)
+    const expected = [1, 2, 3, 4].reduce(
+      (acc, x) => acc + binomialPMF(20, x, 0.05),
+      0,
+    );
+    expect(intervalCoverage("wald", 20, 0.05, 0.95)).toBeCloseTo(expected, 12);
+  });
+});
+
+describe("coverageCurve", () => {
+  const curve = coverageCurve(30, 0.95, 99);
+
+  it("samples p strictly inside (0, 1)", () => {
+    expect(curve).toHaveLength(99);
+    expect(curve[0].p).toBeCloseTo(0.01, 15);
+    expect(curve[98].p).toBeCloseTo(0.99, 15);
+  });
+
+  it("keeps Clopper–Pearson at or above the nominal level", () => {
+    curve.forEach((point) => {
+      expect(point.clopperPearson).toBeGreaterThanOrEqual(0.95 - 1e-9);
+    });
+  });
+
+  it("shows the Wald interval undercovering for extreme p", () => {
+    const edge = curve.find((point) => Math.abs(point.p - 0.03) < 1e-9)!;
+    expect(edge.wald).toBeLessThan(0.7);
+    expect(edge.wilson).toBeGreaterThan(0.9);
+  });
+});
@@ -0,0 +1,80 @@
+import { binomialPMF } from "./binomial";
+import {
+  CONFIDENCE_INTERVAL_METHODS,
+  confidenceInterval,
+  type ConfidenceIntervalMethod,
+} from "./inference";
+import { assertBinomialParameters } from "./validation";
+
+// Coverage of every interval method at one p
+export type CoveragePoint = { p: number } & Record<
+  ConfidenceIntervalMethod,
+  number
+>;
+
+// Coverage sums over all n + 1 outcomes at each p, and Clopper–Pearson
+// needs a root search per outcome, so n is capped for the coverage plot
+export const COVERAGE_MAX_N = 1000;
+
+// Number of p values in a coverage curve. Coverage jumps wherever p
+// crosses an interval endpoint, so the grid has to be fine to show the
+// sawtooth.
+export const COVERAGE_P_POINTS = 400;
+
+// P(lower(X) ≤ p ≤ upper(X)) for X ~ Binomial(n, p), given the interval
+// for each outcome x = 0, ..., n
+function coverageOfIntervals(
+  intervals: [number, number][],
+  n: number,
+  p: number,
+): number {
+  let coverage = 0;
+  intervals.forEach(([lower, upper], x) => {
+    if (lower <= p && p <= upper) coverage += binomialPMF(n, x, p);
+  });
+  return coverage;
+}
+
+// Intervals for every outcome of n trials
+function outcomeIntervals(
+  method: ConfidenceIntervalMethod,
+  n: number,
+  confidence: number,
+): [number, number][] {
+  return Array.from({ length: n + 1 }, (_, x) =>
+    confidenceInterval(method, x, n, confidence),
+  );
+}
+
+// Exact coverage probability of one interval method at (n, p)
+export function intervalCoverage(
+  method: ConfidenceIntervalMethod,
+  n: number,
+  p: number,
+  confidence: number,
+): number {
+  assertBinomialParameters(n, p);
+  return coverageOfIntervals(outcomeIntervals(method, n, confidence), n, p);
+}
+
+// Coverage of every method against p on an even grid strictly inside
+// (0, 1), for fixed n
+export function coverageCurve(
+  n: number,
+  confidence: number,
+  count: number = COVERAGE_P_POINTS,
+): CoveragePoint[] {
+  assertBinomialParameters(n, 0.5);
+  const intervals = CONFIDENCE_INTERVAL_METHODS.map(({ method }) => ({
+    method,
+    intervals: outcomeIntervals(method, n, confidence),
+  }));
+  return Array.from({ length: count }, (_, i) => {
+    const p = (i + 1) / (count + 1);
+    const point = { p } as CoveragePoint;
+    intervals.forEach(({ method, intervals }) => {
+      point[method] = coverageOfIntervals(intervals, n, p);
+    });
+    return point;
+  });
+}
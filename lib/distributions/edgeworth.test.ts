@@ -0,0 +1,54 @@
+import { describe, expect, it } from "vitest";
+import { binomialSum } from "./binomial";
+import { edgeworthCDF, edgeworthIntegral, edgeworthPDF } from "./edgeworth";
+import { normalCDF, normalPDF } from "./normal";
+
+describe("edgeworthPDF / edgeworthCDF", () => {
+  it("reduce to the normal for zero skewness", () => {
+    [-2, -0.5, 0, 1.3, 3].forEach((x) => {
+      expect(edgeworthPDF(x, 0.5, 1.2, 0)).toBe(normalPDF(x, 0.5, 1.2));
+      expect(edgeworthCDF(x, 0.5, 1.2, 0)).toBe(normalCDF(x, 0.5, 1.2));
+    });
+  });
+
+  it("have a CDF whose derivative is the density", () => {
+    const h = 1e-5;
+    [-1.7, 0, 0.4, 2.2].forEach((x) => {
+      const slope =
+        (edgeworthCDF(x + h, 3, 2, 0.4) - edgeworthCDF(x - h, 3, 2, 0.4)) /
+        (2 * h);
+      expect(slope).toBeCloseTo(edgeworthPDF(x, 3, 2, 0.4), 8);
+    });
+  });
+
+  it("keep total mass 1", () => {
+    expect(edgeworthIntegral(-40, 40, 0, 1, 0.5)).toBeCloseTo(1, 12);
+    expect(edgeworthIntegral(-Infinity, Infinity, 0, 1, 0.5)).toBe(1);
+  });
+});
+
+describe("Edgeworth approximation", () => {
+  it("beats the plain normal for a skewed binomial", () => {
+    // Binomial(20, 0.1): np = 2, skewness (q - p)/√(npq) ≈ 0.596
+    const n = 20;
+    const p = 0.1;
+    const mean = n * p;
+    const sd = Math.sqrt(n * p * (1 - p));
+    const skewness = (1 - 2 * p) / sd;
+    // Compare the largest CDF error over all k (continuity corrected)
+    let normalError = 0;
+    let edgeworthError = 0;
+    for (let k = 0; k <= n; k++) {
+      const exact = binomialSum(n, p, 0, k);
+      normalError = Math.max(
+        normalError,
+        Math.abs(normalCDF(k + 0.5, mean, sd) - exact),
+      );
+      edgeworthError = Math.max(
+        edgeworthError,
+        Math.abs(edgeworthCDF(k + 0.5, mean, sd, skewness) - exact),
+      );
+    }
+    expect(edgeworthError).toBeLessThan(normalError / 2);
+  });
+});
@@ -0,0 +1,45 @@
+import { normalCDF, normalPDF } from "./normal";
+
+// First-order Edgeworth expansion of a standardized sum with skewness γ:
+//   f(x) ≈ φ(z) [1 + (γ/6) He₃(z)] / σ,   He₃(z) = z³ - 3z
+//   F(x) ≈ Φ(z) - φ(z) (γ/6) (z² - 1)
+// with z = (x - μ)/σ. The correction is O(n^(-1/2)) since γ = γ_X/√n,
+// which is the leading term the plain normal approximation leaves out.
+export function edgeworthPDF(
+  x: number,
+  mean: number,
+  stdDev: number,
+  skewness: number,
+): number {
+  const z = (x - mean) / stdDev;
+  return normalPDF(x, mean, stdDev) * (1 + (skewness / 6) * (z * z * z - 3 * z));
+}
+
+export function edgeworthCDF(
+  x: number,
+  mean: number,
+  stdDev: number,
+  skewness: number,
+): number {
+  const z = (x - mean) / stdDev;
+  // The correction term vanishes in both tails
+  if (!Number.isFinite(z)) return z > 0 ? 1 : 0;
+  return (
+    normalCDF(x, mean, stdDev) -
+    normalPDF(z, 0, 1) * (skewness / 6) * (z * z - 1)
+  );
+}
+
+// Integral of the Edgeworth density from a to b
+export function edgeworthIntegral(
+  a: number,
+  b: number,
+  mean: number,
+  stdDev: number,
+  skewness: number,
+): number {
+  return (
+    edgeworthCDF(b, mean, stdDev, skewness) -
+    edgeworthCDF(a, mean, stdDev, skewness)
+  );
+}
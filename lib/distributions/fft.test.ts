@@ -0,0 +1,46 @@
+import { describe, expect, it } from "vitest";
+import { convolve, fft } from "./fft";
+
+describe("fft", () => {
+  it("transforms an impulse to a constant", () => {
+    const re = new Float64Array([1, 0, 0, 0]);
+    const im = new Float64Array(4);
+    fft(re, im);
+    expect(Array.from(re)).toEqual([1, 1, 1, 1]);
+    expect(Array.from(im)).toEqual([0, 0, 0, 0]);
+  });
+
+  it("round-trips through the inverse transform", () => {
+    const values = [0.3, -1.2, 4, 0, 2.5, 1, -0.5, 7];
+    const re = new Float64Array(values);
+    const im = new Float64Array(values.length);
+    fft(re, im);
+    fft(re, im, true);
+    re.forEach((value, i) => expect(value).toBeCloseTo(values[i], 12));
+    im.forEach((value) => expect(value).toBeCloseTo(0, 12));
+  });
+
+  it("rejects lengths that are not powers of two", () => {
+    expect(() => fft(new Float64Array(6), new Float64Array(6))).toThrow();
+  });
+});
+
+describe("convolve", () => {
+  it("convolves short inputs directly", () => {
+    expect(convolve([1, 2, 3], [0, 1, 0.5])).toEqual([0, 1, 2.5, 4, 1.5]);
+  });
+
+  it("matches the direct sum when using the FFT", () => {
+    const a = Array.from({ length: 400 }, (_, i) => Math.sin(i) ** 2);
+    const b = Array.from({ length: 300 }, (_, i) => 1 / (1 + i));
+    const result = convolve(a, b);
+    expect(result).toHaveLength(699);
+    for (const k of [0, 1, 150, 398, 600, 698]) {
+      let expected = 0;
+      for (let i = Math.max(0, k - 299); i <= Math.min(399, k); i++) {
+        expected += a[i] * b[k - i];
+      }
+      expect(result[k]).toBeCloseTo(expected, 10);
+    }
+  });
+});
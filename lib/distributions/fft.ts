@@ -0,0 +1,92 @@
+// In-place iterative radix-2 Cooley–Tukey FFT on separate real and
+// imaginary parts. The length must be a power of two. The inverse transform
+// includes the 1/N normalization.
+export function fft(re: Float64Array, im: Float64Array, inverse = false): void {
+  const size = re.length;
+  if (size & (size - 1)) {
+    throw new Error(`FFT length must be a power of two, got ${size}`);
+  }
+
+  // Bit-reversal permutation
+  for (let i = 1, j = 0; i < size; i++) {
+    let bit = size >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      [re[i], re[j]] = [re[j], re[i]];
+      [im[i], im[j]] = [im[j], im[i]];
+    }
+  }
+
+  for (let length = 2; length <= size; length <<= 1) {
+    const angle = ((inverse ? 2 : -2) * Math.PI) / length;
+    const stepRe = Math.cos(angle);
+    const stepIm = Math.sin(angle);
+    for (let start = 0; start < size; start += length) {
+      let wRe = 1;
+      let wIm = 0;
+      for (let k = 0; k < length / 2; k++) {
+        const a = start + k;
+        const b = a + length / 2;
+        const tRe = re[b] * wRe - im[b] * wIm;
+        const tIm = re[b] * wIm + im[b] * wRe;
+        re[b] = re[a] - tRe;
+        im[b] = im[a] - tIm;
+        re[a] += tRe;
+        im[a] += tIm;
+        const nextWRe = wRe * stepRe - wIm * stepIm;
+        wIm = wRe * stepIm + wIm * stepRe;
+        wRe = nextWRe;
+      }
+    }
+  }
+
+  if (inverse) {
+    for (let i = 0; i < size; i++) {
+      re[i] /= size;
+      im[i] /= size;
+    }
+  }
+}
+
+// Below this many multiply-adds the direct sum is faster than the FFT
+const DIRECT_CONVOLUTION_LIMIT = 1 << 16;
+
+// Linear convolution (a * b)[k] = Σ_i a[i] b[k - i], computed directly for
+// short inputs and via FFT otherwise. FFT round-off can leave tiny negative
+// values, which are clamped to zero since the inputs are probabilities.
+export function convolve(a: number[], b: number[]): number[] {
+  const resultLength = a.length + b.length - 1;
+  if (a.length * b.length <= DIRECT_CONVOLUTION_LIMIT) {
+    const result = new Array<number>(resultLength).fill(0);
+    for (let i = 0; i < a.length; i++) {
+      for (let j = 0; j < b.length; j++) {
+        result[i + j] += a[i] * b[j];
+      }
+    }
+    return result;
+  }
+
+  let size = 1;
+  while (size < resultLength) size <<= 1;
+  const aRe = new Float64Array(size);
+  const aIm = new Float64Array(size);
+  const bRe = new Float64Array(size);
+  const bIm = new Float64Array(size);
+  aRe.set(a);
+  bRe.set(b);
+  fft(aRe, aIm);
+  fft(bRe, bIm);
+  for (let i = 0; i < size; i++) {
+    const re = aRe[i] * bRe[i] - aIm[i] * bIm[i];
+    aIm[i] = aRe[i] * bIm[i] + aIm[i] * bRe[i];
+    aRe[i] = re;
+  }
+  fft(aRe, aIm, true);
+
+  const result = new Array<number>(resultLength);
+  for (let i = 0; i < resultLength; i++) {
+    result[i] = Math.max(0, aRe[i]);
+  }
+  return result;
+}
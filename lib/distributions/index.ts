@@ -0,0 +1,23 @@
+export * from "./types";
+export * from "./validation";
+export * from "./special";
+export * from "./binomial";
+export * from "./poisson";
+export * from "./normal";
+export * from "./correction";
+export * from "./axis";
+export * from "./fft";
+export * from "./lattice";
+export * from "./sources";
+export * from "./simulation";
+export * from "./metrics";
+export * from "./convergence";
+export * from "./regime";
+export * from "./region";
+export * from "./summary";
+export * from "./validity";
+export * from "./inference";
+export * from "./coverage";
+export * from "./edgeworth";
+export * from "./proof";
+export * from "./chart";
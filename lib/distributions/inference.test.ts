@@ -0,0 +1,119 @@
+import { describe, expect, it } from "vitest";
+import {
+  confidenceInterval,
+  CONFIDENCE_INTERVAL_METHODS,
+  exactBinomialTest,
+  oneProportionZTest,
+  zTestRejectionRegion,
+} from "./inference";
+import { InvalidParameterError } from "./types";
+
+describe("oneProportionZTest", () => {
+  it("standardizes the count under H₀", () => {
+    // x = 60 of n = 100 against p₀ = 1/2: z = 10/5 = 2
+    const result = oneProportionZTest(60, 100, 0.5, "greater");
+    expect(result.statistic).toBeCloseTo(2, 14);
+    expect(result.pValue).toBeCloseTo(0.022750131948179, 12);
+  });
+
+  it("doubles the smaller tail for two-sided tests", () => {
+    const twoSided = oneProportionZTest(40, 100, 0.5, "twoSided");
+    const less = oneProportionZTest(40, 100, 0.5, "less");
+    expect(twoSided.pValue).toBeCloseTo(2 * less.pValue, 14);
+  });
+
+  it("moves x half a count towards np₀ with the continuity correction", () => {
+    const result = oneProportionZTest(60, 100, 0.5, "greater", "continuity");
+    expect(result.statistic).toBeCloseTo(1.9, 14);
+  });
+
+  it("rejects impossible observations", () => {
+    expect(() => oneProportionZTest(11, 10, 0.5, "less")).toThrow(
+      InvalidParameterError,
+    );
+  });
+});
+
+describe("exactBinomialTest", () => {
+  // Reference p-values from R's binom.test
+  it("matches binom.test", () => {
+    expect(exactBinomialTest(682, 925, 0.75, "twoSided").pValue).toBeCloseTo(
+      0.3824916,
+      6,
+    );
+    expect(exactBinomialTest(7, 20, 0.5, "twoSided").pValue).toBeCloseTo(
+      0.263176,
+      6,
+    );
+    expect(exactBinomialTest(7, 20, 0.5, "less").pValue).toBeCloseTo(
+      0.131588,
+      6,
+    );
+  });
+
+  it("gives one-sided tails", () => {
+    // P(X ≥ 9) for Binomial(10, 1/2) = 11/1024
+    expect(exactBinomialTest(9, 10, 0.5, "greater").pValue).toBeCloseTo(
+      11 / 1024,
+      14,
+    );
+  });
+});
+
+describe("zTestRejectionRegion", () => {
+  it("sits at the critical values of the z-test", () => {
+    const region = zTestRejectionRegion(100, 0.5, 0.05, "twoSided");
+    expect(region.below).toBeCloseTo(50 - 1.959963984540054 * 5, 10);
+    expect(region.above).toBeCloseTo(50 + 1.959963984540054 * 5, 10);
+  });
+
+  it("agrees with the test's decisions", () => {
+    const region = zTestRejectionRegion(200, 0.3, 0.05, "greater", "continuity");
+    expect(region.below).toBeNull();
+    const first = Math.ceil(region.above!);
+    const test = (x: number) =>
+      oneProportionZTest(x, 200, 0.3, "greater", "continuity").pValue;
+    expect(test(first)).toBeLessThanOrEqual(0.05);
+    expect(test(first - 1)).toBeGreaterThan(0.05);
+  });
+});
+
+describe("confidenceInterval", () => {
+  it("gives the Wald interval", () => {
+    const [lo, hi] = confidenceInterval("wald", 40, 100, 0.95);
+    const halfWidth = 1.959963984540054 * Math.sqrt(0.24 / 100);
+    expect(lo).toBeCloseTo(0.4 - halfWidth, 12);
+    expect(hi).toBeCloseTo(0.4 + halfWidth, 12);
+  });
+
+  it("gives z²/(n + z²) as the Wilson upper bound for x = 0", () => {
+    const z2 = 1.959963984540054 ** 2;
+    const [lo, hi] = confidenceInterval("wilson", 0, 10, 0.95);
+    expect(lo).toBeCloseTo(0, 14);
+    expect(hi).toBeCloseTo(z2 / (10 + z2), 12);
+  });
+
+  it("gives 1 - (α/2)^(1/n) as the Clopper–Pearson upper bound for x = 0", () => {
+    const [lo, hi] = confidenceInterval("clopperPearson", 0, 10, 0.95);
+    expect(lo).toBe(0);
+    expect(hi).toBeCloseTo(1 - 0.025 ** (1 / 10), 12);
+  });
+
+  it("matches binom.test's Clopper–Pearson interval", () => {
+    const [lo, hi] = confidenceInterval("clopperPearson", 682, 925, 0.95);
+    expect(lo).toBeCloseTo(0.7076683, 6);
+    expect(hi).toBeCloseTo(0.7654066, 6);
+  });
+
+  it("keeps every interval inside [0, 1] around p̂", () => {
+    CONFIDENCE_INTERVAL_METHODS.forEach(({ method }) => {
+      [0, 3, 20].forEach((x) => {
+        const [lo, hi] = confidenceInterval(method, x, 20, 0.9);
+        expect(lo).toBeGreaterThanOrEqual(0);
+        expect(hi).toBeLessThanOrEqual(1);
+        expect(lo).toBeLessThanOrEqual(x / 20 + 1e-12);
+        expect(hi).toBeGreaterThanOrEqual(x / 20 - 1e-12);
+      });
+    });
+  });
+});
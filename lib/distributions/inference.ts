@@ -0,0 +1,250 @@
+import { binomialPMF } from "./binomial";
+import {
+  continuityCorrectionOffset,
+  type ContinuityCorrection,
+} from "./correction";
+import { normalCDF, normalSurvival, standardNormalQuantile } from "./normal";
+import { regularizedBeta } from "./special";
+import { InvalidParameterError } from "./types";
+import { assertBinomialParameters } from "./validation";
+
+// Alternative hypothesis about p relative to p₀
+export type Alternative = "twoSided" | "less" | "greater";
+
+export interface TestResult {
+  // z for the normal test, the observed count x for the exact test
+  statistic: number;
+  pValue: number;
+}
+
+// x successes out of n trials, tested against p₀
+function assertObservation(x: number, n: number, p0: number): void {
+  assertBinomialParameters(n, p0);
+  if (!Number.isInteger(x) || x < 0 || x > n) {
+    throw new InvalidParameterError("x", x, `must be an integer in [0, ${n}]`);
+  }
+}
+
+// Confidence levels and significance levels lie strictly between 0 and 1
+function assertLevel(parameter: string, value: number): void {
+  if (!Number.isFinite(value) || value <= 0 || value >= 1) {
+    throw new InvalidParameterError(parameter, value, "must be in (0, 1)");
+  }
+}
+
+// P(X ≤ x) for X ~ Binomial(n, p)
+function binomialLowerTail(n: number, p: number, x: number): number {
+  if (x < 0) return 0;
+  if (x >= n) return 1;
+  return regularizedBeta(1 - p, n - x, x + 1);
+}
+
+// P(X ≥ x) for X ~ Binomial(n, p)
+function binomialUpperTail(n: number, p: number, x: number): number {
+  if (x <= 0) return 1;
+  if (x > n) return 0;
+  return regularizedBeta(p, x, n - x + 1);
+}
+
+// One-proportion z-test of H₀: p = p₀ with z = (x - np₀)/√(np₀(1 - p₀)),
+// the same statistic as (p̂ - p₀)/√(p₀(1 - p₀)/n). With the continuity
+// correction x is moved half a count towards np₀ first.
+export function oneProportionZTest(
+  x: number,
+  n: number,
+  p0: number,
+  alternative: Alternative,
+  correction: ContinuityCorrection = "none",
+): TestResult {
+  assertObservation(x, n, p0);
+  const sigma = Math.sqrt(n * p0 * (1 - p0));
+  const offset = continuityCorrectionOffset(correction, 1);
+  const diff = x - n * p0;
+
+  switch (alternative) {
+    case "greater": {
+      const z = (diff - offset) / sigma;
+      return { statistic: z, pValue: normalSurvival(z, 0, 1) };
+    }
+    case "less": {
+      const z = (diff + offset) / sigma;
+      return { statistic: z, pValue: normalCDF(z, 0, 1) };
+    }
+    case "twoSided": {
+      const z = (Math.sign(diff) * Math.max(0, Math.abs(diff) - offset)) / sigma;
+      return {
+        statistic: z,
+        pValue: Math.min(1, 2 * normalSurvival(Math.abs(z), 0, 1)),
+      };
+    }
+  }
+}
+
+// Relative slack when comparing probabilities in the two-sided exact test,
+// so outcomes as likely as x are not lost to rounding (as in R's binom.test)
+const EXACT_TEST_RELATIVE_TOLERANCE = 1e-7;
+
+// Exact binomial test of H₀: p = p₀. The two-sided p-value adds up every
+// outcome no more likely than the observed one.
+export function exactBinomialTest(
+  x: number,
+  n: number,
+  p0: number,
+  alternative: Alternative,
+): TestResult {
+  assertObservation(x, n, p0);
+  switch (alternative) {
+    case "greater":
+      return { statistic: x, pValue: binomialUpperTail(n, p0, x) };
+    case "less":
+      return { statistic: x, pValue: binomialLowerTail(n, p0, x) };
+    case "twoSided": {
+      const limit =
+        binomialPMF(n, x, p0) * (1 + EXACT_TEST_RELATIVE_TOLERANCE);
+      let pValue = 0;
+      for (let k = 0; k <= n; k++) {
+        const prob = binomialPMF(n, k, p0);
+        if (prob <= limit) pValue += prob;
+      }
+      return { statistic: x, pValue: Math.min(1, pValue) };
+    }
+  }
+}
+
+// Counts at which the z-test starts rejecting at level α: H₀ is rejected
+// when x ≤ below or x ≥ above. A side the alternative does not test is null.
+export interface RejectionRegion {
+  below: number | null;
+  above: number | null;
+}
+
+export function zTestRejectionRegion(
+  n: number,
+  p0: number,
+  alpha: number,
+  alternative: Alternative,
+  correction: ContinuityCorrection = "none",
+): RejectionRegion {
+  assertBinomialParameters(n, p0);
+  assertLevel("alpha", alpha);
+  const tail = alternative === "twoSided" ? alpha / 2 : alpha;
+  const halfWidth =
+    standardNormalQuantile(1 - tail) * Math.sqrt(n * p0 * (1 - p0)) +
+    continuityCorrectionOffset(correction, 1);
+  return {
+    below: alternative === "greater" ? null : n * p0 - halfWidth,
+    above: alternative === "less" ? null : n * p0 + halfWidth,
+  };
+}
+
+export type ConfidenceIntervalMethod =
+  | "wald"
+  | "wilson"
+  | "agrestiCoull"
+  | "clopperPearson";
+
+export const CONFIDENCE_INTERVAL_METHODS: {
+  method: ConfidenceIntervalMethod;
+  label: string;
+}[] = [
+  { method: "wald", label: "Wald" },
+  { method: "wilson", label: "Wilson" },
+  { method: "agrestiCoull", label: "Agresti–Coull" },
+  { method: "clopperPearson", label: "Clopper–Pearson" },
+];
+
+function clampProbability(value: number): number {
+  return Math.min(Math.max(value, 0), 1);
+}
+
+// p̂ ± z√(p̂(1 - p̂)/n), clipped to [0, 1]
+function waldInterval(x: number, n: number, z: number): [number, number] {
+  const pHat = x / n;
+  const halfWidth = z * Math.sqrt((pHat * (1 - pHat)) / n);
+  return [
+    clampProbability(pHat - halfWidth),
+    clampProbability(pHat + halfWidth),
+  ];
+}
+
+// The p with |p̂ - p| ≤ z√(p(1 - p)/n), i.e. the z-test inverted
+function wilsonInterval(x: number, n: number, z: number): [number, number] {
+  const pHat = x / n;
+  const z2 = z * z;
+  const center = (pHat + z2 / (2 * n)) / (1 + z2 / n);
+  const halfWidth =
+    (z * Math.sqrt((pHat * (1 - pHat)) / n + z2 / (4 * n * n))) / (1 + z2 / n);
+  return [
+    clampProbability(center - halfWidth),
+    clampProbability(center + halfWidth),
+  ];
+}
+
+// Wald around p̃ = (x + z²/2)/(n + z²), i.e. after adding z²/2 successes
+// and z²/2 failures
+function agrestiCoullInterval(
+  x: number,
+  n: number,
+  z: number,
+): [number, number] {
+  const nTilde = n + z * z;
+  const pTilde = (x + (z * z) / 2) / nTilde;
+  const halfWidth = z * Math.sqrt((pTilde * (1 - pTilde)) / nTilde);
+  return [
+    clampProbability(pTilde - halfWidth),
+    clampProbability(pTilde + halfWidth),
+  ];
+}
+
+// Bisection steps for the Clopper–Pearson bounds; 60 halvings of [0, 1]
+// reach double precision
+const CLOPPER_PEARSON_ITERATIONS = 60;
+
+// Root in [0, 1] of an increasing function
+function bisect(f: (p: number) => number): number {
+  let lo = 0;
+  let hi = 1;
+  for (let i = 0; i < CLOPPER_PEARSON_ITERATIONS; i++) {
+    const mid = (lo + hi) / 2;
+    if (f(mid) < 0) lo = mid;
+    else hi = mid;
+  }
+  return (lo + hi) / 2;
+}
+
+// The exact interval: p values at which x is not in either α/2 tail
+function clopperPearsonInterval(
+  x: number,
+  n: number,
+  alpha: number,
+): [number, number] {
+  const lower =
+    x === 0 ? 0 : bisect((p) => binomialUpperTail(n, p, x) - alpha / 2);
+  const upper =
+    x === n ? 1 : bisect((p) => alpha / 2 - binomialLowerTail(n, p, x));
+  return [lower, upper];
+}
+
+// Two-sided confidence interval for p from x successes in n trials
+export function confidenceInterval(
+  method: ConfidenceIntervalMethod,
+  x: number,
+  n: number,
+  confidence: number,
+): [number, number] {
+  assertObservation(x, n, 0.5);
+  if (n === 0) return [0, 1];
+  assertLevel("confidence", confidence);
+  const alpha = 1 - confidence;
+  const z = standardNormalQuantile(1 - alpha / 2);
+  switch (method) {
+    case "wald":
+      return waldInterval(x, n, z);
+    case "wilson":
+      return wilsonInterval(x, n, z);
+    case "agrestiCoull":
+      return agrestiCoullInterval(x, n, z);
+    case "clopperPearson":
+      return clopperPearsonInterval(x, n, alpha);
+  }
+}
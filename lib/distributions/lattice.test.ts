@@ -0,0 +1,83 @@
+import { describe, expect, it } from "vitest";
+import { binomialPMF } from "./binomial";
+import {
+  convolveLattices,
+  formatLatticeValue,
+  latticeIndexRange,
+  latticeMax,
+  latticeMoments,
+  latticePower,
+  latticeSum,
+  snapToLattice,
+} from "./lattice";
+
+describe("convolveLattices", () => {
+  it("adds offsets and convolves probabilities", () => {
+    const die = { offset: 1, step: 1, probs: new Array(6).fill(1 / 6) };
+    const twoDice = convolveLattices(die, die);
+    expect(twoDice.offset).toBe(2);
+    expect(twoDice.probs).toHaveLength(11);
+    expect(twoDice.probs[5]).toBeCloseTo(6 / 36, 15);
+    expect(latticeMax(twoDice)).toBe(12);
+  });
+});
+
+describe("latticePower", () => {
+  it("reproduces the binomial from Bernoulli trials", () => {
+    const bernoulli = { offset: 0, step: 1, probs: [0.7, 0.3] };
+    const sum = latticePower(bernoulli, 40);
+    expect(sum.offset).toBe(0);
+    for (const k of [0, 5, 12, 20, 30]) {
+      expect(sum.probs[k]).toBeCloseTo(binomialPMF(40, k, 0.3), 14);
+    }
+  });
+
+  it("stays normalized for large n via the FFT", () => {
+    const source = { offset: 0, step: 1, probs: [0.2, 0.1, 0.4, 0.3] };
+    const sum = latticePower(source, 500);
+    const total = sum.probs.reduce((acc, prob) => acc + prob, 0);
+    expect(total).toBeCloseTo(1, 10);
+    const { mean, variance } = latticeMoments(sum);
+    expect(mean).toBeCloseTo(500 * 1.8, 8);
+    expect(variance).toBeCloseTo(500 * 1.16, 6);
+  });
+
+  it("returns a point mass at 0 for n = 0", () => {
+    expect(latticePower({ offset: 1, step: 1, probs: [0.5, 0.5] }, 0)).toEqual({
+      offset: 0,
+      step: 1,
+      probs: [1],
+    });
+  });
+});
+
+describe("latticeSum", () => {
+  const lattice = { offset: 0.5, step: 0.25, probs: [0.1, 0.2, 0.3, 0.4] };
+
+  it("sums the points inside a closed range", () => {
+    expect(latticeSum(lattice, 0.75, 1.25)).toBeCloseTo(0.9, 15);
+    expect(latticeSum(lattice, 0.6, 0.9)).toBeCloseTo(0.2, 15);
+  });
+
+  it("clamps ranges to the support", () => {
+    expect(latticeIndexRange(lattice, -10, 10)).toEqual([0, 3]);
+    expect(latticeSum(lattice, 2, 3)).toBe(0);
+  });
+});
+
+describe("snapToLattice", () => {
+  const lattice = { offset: 0.5, step: 0.25, probs: [0.1, 0.2, 0.3, 0.4] };
+
+  it("rounds to the nearest point and clamps to the support", () => {
+    expect(snapToLattice(lattice, 0.9)).toBe(1);
+    expect(snapToLattice(lattice, -3)).toBe(0.5);
+    expect(snapToLattice(lattice, 9)).toBe(1.25);
+  });
+});
+
+describe("formatLatticeValue", () => {
+  it("drops floating-point noise", () => {
+    expect(formatLatticeValue(0.1 + 0.2)).toBe("0.3");
+    expect(formatLatticeValue(12)).toBe("12");
+  });
+});
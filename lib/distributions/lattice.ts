@@ -0,0 +1,121 @@
+import { convolve } from "./fft";
+import type { LatticeDistribution } from "./types";
+
+// Probabilities below this are dropped from either end after each
+// convolution. They are far below anything the chart or the comparison
+// panel can show, and trimming keeps the n-fold convolution from carrying
+// long runs of FFT round-off.
+const TAIL_TRIM = 1e-15;
+
+// Value of the j-th lattice point
+export function latticeValue(lattice: LatticeDistribution, j: number): number {
+  return lattice.offset + j * lattice.step;
+}
+
+// Value of the last lattice point
+export function latticeMax(lattice: LatticeDistribution): number {
+  return latticeValue(lattice, lattice.probs.length - 1);
+}
+
+// Nearest lattice point to x
+export function snapToLattice(lattice: LatticeDistribution, x: number): number {
+  const j = Math.round((x - lattice.offset) / lattice.step);
+  const clamped = Math.min(Math.max(j, 0), lattice.probs.length - 1);
+  return latticeValue(lattice, clamped);
+}
+
+// Lattice values are multiples of a possibly fractional step, so trim
+// floating-point noise before showing them
+export function formatLatticeValue(value: number): string {
+  return `${+value.toFixed(4)}`;
+}
+
+function trimTails(lattice: LatticeDistribution): LatticeDistribution {
+  const { probs } = lattice;
+  let first = 0;
+  let last = probs.length - 1;
+  while (first < last && probs[first] < TAIL_TRIM) first++;
+  while (last > first && probs[last] < TAIL_TRIM) last--;
+  if (first === 0 && last === probs.length - 1) return lattice;
+  return {
+    offset: latticeValue(lattice, first),
+    step: lattice.step,
+    probs: probs.slice(first, last + 1),
+  };
+}
+
+// Distribution of X + Y for independent X, Y on lattices with the same step
+export function convolveLattices(
+  a: LatticeDistribution,
+  b: LatticeDistribution,
+): LatticeDistribution {
+  return trimTails({
+    offset: a.offset + b.offset,
+    step: a.step,
+    probs: convolve(a.probs, b.probs),
+  });
+}
+
+// Distribution of the sum of n independent copies of X, by binary
+// exponentiation: O(log n) convolutions, each done directly or by FFT
+// depending on size
+export function latticePower(
+  lattice: LatticeDistribution,
+  n: number,
+): LatticeDistribution {
+  let result: LatticeDistribution = { offset: 0, step: lattice.step, probs: [1] };
+  let base = lattice;
+  let remaining = n;
+  while (remaining > 0) {
+    if (remaining & 1) result = convolveLattices(result, base);
+    remaining >>= 1;
+    if (remaining > 0) base = convolveLattices(base, base);
+  }
+  return result;
+}
+
+// Points within this fraction of a step of an endpoint count as inside the
+// range, so rounding in the endpoints does not drop a lattice point
+const SNAP_TOLERANCE = 1e-9;
+
+// Indices [first, last] of the lattice points with values in [a, b]; first
+// exceeds last when the range contains no points
+export function latticeIndexRange(
+  lattice: LatticeDistribution,
+  a: number,
+  b: number,
+): [number, number] {
+  const first = Math.ceil((a - lattice.offset) / lattice.step - SNAP_TOLERANCE);
+  const last = Math.floor((b - lattice.offset) / lattice.step + SNAP_TOLERANCE);
+  return [Math.max(0, first), Math.min(lattice.probs.length - 1, last)];
+}
+
+// P(a ≤ X ≤ b)
+export function latticeSum(
+  lattice: LatticeDistribution,
+  a: number,
+  b: number,
+): number {
+  const [first, last] = latticeIndexRange(lattice, a, b);
+  let sum = 0;
+  for (let j = first; j <= last; j++) {
+    sum += lattice.probs[j];
+  }
+  return sum;
+}
+
+// Mean and variance of a lattice distribution
+export function latticeMoments(lattice: LatticeDistribution): {
+  mean: number;
+  variance: number;
+} {
+  let mean = 0;
+  lattice.probs.forEach((prob, j) => {
+    mean += prob * latticeValue(lattice, j);
+  });
+  let variance = 0;
+  lattice.probs.forEach((prob, j) => {
+    variance += prob * (latticeValue(lattice, j) - mean) ** 2;
+  });
+  return { mean, variance };
+}
@@ -0,0 +1,83 @@
+import { describe, expect, it } from "vitest";
+import {
+  approximationMetrics,
+  BERRY_ESSEEN_CONSTANT,
+  berryEsseenBound,
+} from "./metrics";
+import { normalCDF, normalPDF } from "./normal";
+import {
+  DEFAULT_SOURCE_PARAMETERS,
+  SOURCE_OPTIONS,
+  sourceDistribution,
+  sumDistribution,
+} from "./sources";
+
+function bernoulliMetrics(n: number, p: number) {
+  const source = sourceDistribution("bernoulli", {
+    ...DEFAULT_SOURCE_PARAMETERS,
+    p,
+  });
+  return approximationMetrics(source, sumDistribution(source, n), n);
+}
+
+describe("berryEsseenBound", () => {
+  it("reduces to C/√n for a fair coin", () => {
+    // ρ = σ³ = 1/8 when p = 1/2
+    expect(berryEsseenBound(0.125, 0.25, 100)).toBeCloseTo(
+      BERRY_ESSEEN_CONSTANT / 10,
+      15,
+    );
+  });
+});
+
+describe("approximationMetrics", () => {
+  it("matches hand computation for a single fair coin flip", () => {
+    const metrics = bernoulliMetrics(1, 0.5);
+    // Largest gap is at either jump: 1/2 - Φ(-1)
+    expect(metrics.kolmogorov).toBeCloseTo(0.5 - normalCDF(-1, 0, 1), 15);
+    // Each bar gets exactly half of the normal mass
+    expect(metrics.totalVariation).toBeCloseTo(0, 15);
+    expect(metrics.maxLocalError).toBeCloseTo(0.5 - normalPDF(-1, 0, 1) / 0.5, 15);
+    expect(metrics.berryEsseenBound).toBeCloseTo(BERRY_ESSEEN_CONSTANT, 15);
+  });
+
+  it.each([
+    [10, 0.5],
+    [50, 0.1],
+    [400, 0.3],
+    [2000, 0.02],
+  ])("stays below the Berry–Esseen bound for n=%i, p=%f", (n, p) => {
+    const metrics = bernoulliMetrics(n, p);
+    expect(metrics.kolmogorov).toBeLessThan(metrics.berryEsseenBound);
+    expect(metrics.totalVariation).toBeGreaterThan(0);
+    expect(metrics.maxLocalError).toBeLessThan(metrics.kolmogorov);
+  });
+
+  it("shrinks at the n^(-1/2) rate", () => {
+    const ratio =
+      bernoulliMetrics(1600, 0.3).kolmogorov /
+      bernoulliMetrics(400, 0.3).kolmogorov;
+    expect(ratio).toBeCloseTo(0.5, 1);
+  });
+
+  it.each(SOURCE_OPTIONS.map((option) => option.kind))(
+    "respects the bound for %s sums",
+    (kind) => {
+      const source = sourceDistribution(kind, DEFAULT_SOURCE_PARAMETERS);
+      const metrics = approximationMetrics(
+        source,
+        sumDistribution(source, 30),
+        30,
+      );
+      expect(metrics.kolmogorov).toBeLessThan(metrics.berryEsseenBound);
+    },
+  );
+
+  it("compares continuous sources at cell edges", () => {
+    const source = sourceDistribution("uniform", DEFAULT_SOURCE_PARAMETERS);
+    const metrics = approximationMetrics(source, sumDistribution(source, 12), 12);
+    // The sum of 12 uniforms is famously close to normal
+    expect(metrics.kolmogorov).toBeLessThan(0.005);
+    expect(metrics.totalVariation).toBeLessThan(0.01);
+  });
+});
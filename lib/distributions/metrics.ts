@@ -0,0 +1,107 @@
+import { latticeValue } from "./lattice";
+import { normalCDF, normalPDF } from "./normal";
+import type { SourceDistribution } from "./sources";
+import type { LatticeDistribution } from "./types";
+
+// Best known constant in the Berry–Esseen inequality for identically
+// distributed summands (Shevtsova, 2011)
+export const BERRY_ESSEEN_CONSTANT = 0.4748;
+
+// How far the exact distribution of S_n is from its normal approximation
+// N(nμ_X, nσ_X²). All four are scale free, so they do not depend on the
+// x-axis mode.
+export interface ApproximationMetrics {
+  // sup_x |P(S_n ≤ x) - Φ((x - nμ_X)/(σ_X√n))|
+  kolmogorov: number;
+  // ½ Σ_k |P(S_n = k) - (normal mass of the bar around k)|
+  totalVariation: number;
+  // max_k |P(S_n = k) - φ(x_{n,k}) Δx_n|
+  maxLocalError: number;
+  // C·ρ/(σ_X³√n), an upper bound on the Kolmogorov distance
+  berryEsseenBound: number;
+}
+
+// Berry–Esseen upper bound on the Kolmogorov distance for a sum of n i.i.d.
+// draws with variance σ² and ρ = E|X - μ|³
+export function berryEsseenBound(
+  absoluteThirdMoment: number,
+  variance: number,
+  n: number,
+): number {
+  return (
+    (BERRY_ESSEEN_CONSTANT * absoluteThirdMoment) /
+    (variance ** 1.5 * Math.sqrt(n))
+  );
+}
+
+// Compare the exact sum lattice with the normal approximation. For
+// continuous sources each lattice point stands for a grid cell, so the CDFs
+// are compared at cell edges rather than across the artificial jumps.
+export function approximationMetrics(
+  source: SourceDistribution,
+  sum: LatticeDistribution,
+  n: number,
+): ApproximationMetrics {
+  const mean = n * source.mean;
+  const stdDev = Math.sqrt(n * source.variance);
+  const { step, probs } = sum;
+
+  let kolmogorov = 0;
+  let totalVariation = 0;
+  let maxLocalError = 0;
+  let cumulative = 0;
+  // Normal mass below the current bar, starting from -∞
+  let normalBelow = 0;
+
+  probs.forEach((prob, j) => {
+    const x = latticeValue(sum, j);
+    const upperEdge = x + step / 2;
+
+    if (source.continuous) {
+      kolmogorov = Math.max(
+        kolmogorov,
+        Math.abs(cumulative - normalCDF(x - step / 2, mean, stdDev)),
+      );
+    } else {
+      // The lattice CDF jumps at x: compare both one-sided limits
+      const normalAtX = normalCDF(x, mean, stdDev);
+      kolmogorov = Math.max(
+        kolmogorov,
+        Math.abs(cumulative - normalAtX),
+        Math.abs(cumulative + prob - normalAtX),
+      );
+    }
+    cumulative += prob;
+
+    // The first and last bars take the normal tails beyond them
+    const normalUpTo =
+      j === probs.length - 1 ? 1 : normalCDF(upperEdge, mean, stdDev);
+    totalVariation += Math.abs(prob - (normalUpTo - normalBelow));
+    normalBelow = normalUpTo;
+
+    maxLocalError = Math.max(
+      maxLocalError,
+      Math.abs(prob - normalPDF(x, mean, stdDev) * step),
+    );
+  });
+  if (source.continuous) {
+    kolmogorov = Math.max(
+      kolmogorov,
+      Math.abs(
+        cumulative -
+          normalCDF(latticeValue(sum, probs.length - 1) + step / 2, mean, stdDev),
+      ),
+    );
+  }
+
+  return {
+    kolmogorov,
+    totalVariation: totalVariation / 2,
+    maxLocalError,
+    berryEsseenBound: berryEsseenBound(
+      source.absoluteThirdMoment,
+      source.variance,
+      n,
+    ),
+  };
+}
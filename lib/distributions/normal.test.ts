@@ -0,0 +1,123 @@
+import { describe, expect, it } from "vitest";
+import {
+  normal,
+  normalCDF,
+  normalIntegral,
+  normalPDF,
+  normalQuantile,
+  normalSurvival,
+  standardNormalQuantile,
+} from "./normal";
+import { InvalidParameterError } from "./types";
+
+describe("normalPDF", () => {
+  it("matches the standard normal density", () => {
+    expect(normalPDF(0, 0, 1)).toBeCloseTo(0.3989422804014327, 14);
+    expect(normalPDF(1, 0, 1)).toBeCloseTo(0.24197072451914337, 14);
+  });
+
+  it("scales with mean and standard deviation", () => {
+    expect(normalPDF(25, 25, 5)).toBeCloseTo(0.3989422804014327 / 5, 14);
+  });
+});
+
+describe("normalCDF", () => {
+  it("matches standard normal table values", () => {
+    expect(normalCDF(0, 0, 1)).toBeCloseTo(0.5, 15);
+    expect(normalCDF(1, 0, 1)).toBeCloseTo(0.8413447460685429, 15);
+    expect(normalCDF(1.96, 0, 1)).toBeCloseTo(0.9750021048517795, 15);
+    expect(normalCDF(-1.645, 0, 1)).toBeCloseTo(0.04998490553912138, 15);
+  });
+
+  // Abramowitz & Stegun Table 26.1 / tail values to 10 significant digits
+  it.each([
+    [-3, 1.349898032e-3],
+    [-5, 2.866515719e-7],
+    [-8, 6.220960574e-16],
+    [-20, 2.753624118e-89],
+  ])("keeps relative precision in the lower tail at z=%f", (z, expected) => {
+    expect(normalCDF(z, 0, 1) / expected).toBeCloseTo(1, 9);
+  });
+});
+
+describe("normalSurvival", () => {
+  it("mirrors the lower tail", () => {
+    expect(normalSurvival(8, 0, 1)).toBe(normalCDF(-8, 0, 1));
+    expect(normalSurvival(110, 100, 5)).toBeCloseTo(0.02275013194817921, 15);
+  });
+});
+
+describe("normalIntegral", () => {
+  it("gives the 68-95-99.7 rule", () => {
+    expect(normalIntegral(-1, 1, 0, 1)).toBeCloseTo(0.6826894921370859, 15);
+    expect(normalIntegral(90, 110, 100, 5)).toBeCloseTo(0.9544997361036416, 15);
+  });
+
+  it("stays precise for ranges in the upper tail", () => {
+    const expected = 6.219831985865866e-16;
+    expect(normalIntegral(8, 9, 0, 1) / expected).toBeCloseTo(1, 9);
+  });
+});
+
+describe("standardNormalQuantile", () => {
+  // Two-sided critical values from standard tables
+  it.each([
+    [0.5, 0],
+    [0.8413447460685429, 1],
+    [0.95, 1.6448536269514722],
+    [0.975, 1.959963984540054],
+    [0.995, 2.5758293035489004],
+    [0.999, 3.090232306167813],
+    [0.025, -1.959963984540054],
+    [1e-10, -6.361340902404056],
+  ])("Φ⁻¹(%f) = %f", (q, expected) => {
+    expect(standardNormalQuantile(q)).toBeCloseTo(expected, 12);
+  });
+
+  it("inverts the CDF far into the tails", () => {
+    for (const z of [-30, -12, -4.5, -0.3, 0.7, 1.8]) {
+      expect(standardNormalQuantile(normalCDF(z, 0, 1))).toBeCloseTo(z, 9);
+    }
+  });
+
+  it("maps 0 and 1 to the infinite endpoints", () => {
+    expect(standardNormalQuantile(0)).toBe(-Infinity);
+    expect(standardNormalQuantile(1)).toBe(Infinity);
+  });
+
+  it("rejects probabilities outside [0, 1]", () => {
+    expect(() => standardNormalQuantile(1.2)).toThrow(InvalidParameterError);
+    expect(() => standardNormalQuantile(-0.1)).toThrow(InvalidParameterError);
+  });
+});
+
+describe("normalQuantile", () => {
+  it("shifts and scales the standard quantile", () => {
+    expect(normalQuantile(0.975, 100, 15)).toBeCloseTo(
+      100 + 15 * 1.959963984540054,
+      10,
+    );
+    expect(normal(3, 2).quantile(0.5)).toBe(3);
+  });
+});
+
+describe("normal", () => {
+  it("exposes moments and support", () => {
+    const dist = normal(3, 2);
+    expect(dist.mean).toBe(3);
+    expect(dist.variance).toBe(4);
+    expect(dist.support).toEqual({
+      kind: "continuous",
+      min: -Infinity,
+      max: Infinity,
+    });
+    expect(dist.pdf(3)).toBeCloseTo(normalPDF(3, 3, 2), 14);
+  });
+
+  it("rejects invalid parameters", () => {
+    expect(() => normal(0, 0)).toThrow(InvalidParameterError);
+    expect(() => normal(Number.POSITIVE_INFINITY, 1)).toThrow(
+      InvalidParameterError,
+    );
+  });
+});
@@ -0,0 +1,115 @@
+import { erfc } from "./special";
+import type { ContinuousDistribution } from "./types";
+import { assertNormalParameters, assertProbability } from "./validation";
+
+// Normal distribution PDF: f(x) = (1/(σ√(2π))) * e^(-0.5 * ((x-μ)/σ)²)
+export function normalPDF(x: number, mean: number, stdDev: number): number {
+  const coefficient = 1 / (stdDev * Math.sqrt(2 * Math.PI));
+  const exponent = -0.5 * Math.pow((x - mean) / stdDev, 2);
+  return coefficient * Math.exp(exponent);
+}
+
+// Normal CDF Φ((x-μ)/σ), written via erfc so the lower tail keeps full
+// relative precision
+export function normalCDF(x: number, mean: number, stdDev: number): number {
+  return 0.5 * erfc(-(x - mean) / (stdDev * Math.SQRT2));
+}
+
+// Upper tail 1 - Φ((x-μ)/σ), accurate where the CDF rounds to 1
+export function normalSurvival(x: number, mean: number, stdDev: number): number {
+  return 0.5 * erfc((x - mean) / (stdDev * Math.SQRT2));
+}
+
+// Calculate integral of normal PDF from a to b
+export function normalIntegral(
+  a: number,
+  b: number,
+  mean: number,
+  stdDev: number,
+): number {
+  // Subtract whichever tail is small so neither term rounds to 1
+  if (a > mean) {
+    return normalSurvival(a, mean, stdDev) - normalSurvival(b, mean, stdDev);
+  }
+  return normalCDF(b, mean, stdDev) - normalCDF(a, mean, stdDev);
+}
+
+// Acklam's rational approximation to Φ⁻¹ (relative error < 1.2e-9),
+// used for q ≤ 0.5 only
+const ACKLAM_A = [
+  -3.969683028665376e1, 2.209460984245205e2, -2.759285104469687e2,
+  1.38357751867269e2, -3.066479806614716e1, 2.506628277459239,
+];
+const ACKLAM_B = [
+  -5.447609879822406e1, 1.615858368580409e2, -1.556989798598866e2,
+  6.680131188771972e1, -1.328068155288572e1,
+];
+const ACKLAM_C = [
+  -7.784894002430293e-3, -3.223964580411365e-1, -2.400758277161838,
+  -2.549732539343734, 4.374664141464968, 2.938163982698783,
+];
+const ACKLAM_D = [
+  7.784695709041462e-3, 3.224671290700398e-1, 2.445134137142996,
+  3.754408661907416,
+];
+const ACKLAM_P_LOW = 0.02425;
+
+function acklamQuantile(q: number): number {
+  const [a1, a2, a3, a4, a5, a6] = ACKLAM_A;
+  const [b1, b2, b3, b4, b5] = ACKLAM_B;
+  const [c1, c2, c3, c4, c5, c6] = ACKLAM_C;
+  const [d1, d2, d3, d4] = ACKLAM_D;
+
+  if (q < ACKLAM_P_LOW) {
+    const t = Math.sqrt(-2 * Math.log(q));
+    return (
+      (((((c1 * t + c2) * t + c3) * t + c4) * t + c5) * t + c6) /
+      ((((d1 * t + d2) * t + d3) * t + d4) * t + 1)
+    );
+  }
+  const r = q - 0.5;
+  const s = r * r;
+  return (
+    ((((((a1 * s + a2) * s + a3) * s + a4) * s + a5) * s + a6) * r) /
+    (((((b1 * s + b2) * s + b3) * s + b4) * s + b5) * s + 1)
+  );
+}
+
+// Standard normal quantile Φ⁻¹(q): Acklam's approximation refined by one
+// Halley step against the high-precision CDF
+export function standardNormalQuantile(q: number): number {
+  assertProbability("q", q);
+  if (q === 0) return -Infinity;
+  if (q === 1) return Infinity;
+  // Φ⁻¹(q) = -Φ⁻¹(1 - q); refine in the lower half where Φ(z) - q
+  // keeps full precision (1 - q is exact for q ≥ 0.5)
+  if (q > 0.5) return -standardNormalQuantile(1 - q);
+
+  const z = acklamQuantile(q);
+  const u = (normalCDF(z, 0, 1) - q) / normalPDF(z, 0, 1);
+  return z - u / (1 + (z * u) / 2);
+}
+
+// Normal quantile: the x with P(X ≤ x) = q for X ~ N(μ, σ²)
+export function normalQuantile(
+  q: number,
+  mean: number,
+  stdDev: number,
+): number {
+  return mean + stdDev * standardNormalQuantile(q);
+}
+
+// Normal(μ, σ) as a distribution object
+export function normal(mean: number, stdDev: number): ContinuousDistribution {
+  assertNormalParameters(mean, stdDev);
+  return {
+    name: "Normal",
+    mean,
+    variance: stdDev * stdDev,
+    stdDev,
+    support: { kind: "continuous", min: -Infinity, max: Infinity },
+    pdf: (x) => normalPDF(x, mean, stdDev),
+    cdf: (x) => normalCDF(x, mean, stdDev),
+    quantile: (q) => normalQuantile(q, mean, stdDev),
+  };
+}
@@ -0,0 +1,47 @@
+import { describe, expect, it } from "vitest";
+import { poisson, poissonLogPMF, poissonPMF, poissonSum } from "./poisson";
+import { InvalidParameterError } from "./types";
+
+describe("poissonPMF", () => {
+  it("matches reference values", () => {
+    expect(poissonPMF(1, 0)).toBeCloseTo(Math.exp(-1), 15);
+    expect(poissonPMF(3, 2)).toBeCloseTo(4.5 * Math.exp(-3), 15);
+    expect(poissonPMF(500, 500)).toBeCloseTo(0.017838267869512, 12);
+  });
+
+  it("puts all mass on 0 when λ = 0", () => {
+    expect(poissonPMF(0, 0)).toBe(1);
+    expect(poissonPMF(0, 3)).toBe(0);
+  });
+
+  it("is zero off the non-negative integers", () => {
+    expect(poissonLogPMF(2, -1)).toBe(-Infinity);
+    expect(poissonPMF(2, 1.5)).toBe(0);
+  });
+
+  it("sums to 1", () => {
+    expect(poissonSum(4.5, 0, 60)).toBeCloseTo(1, 14);
+    expect(poissonSum(800, 0, 2000)).toBeCloseTo(1, 10);
+  });
+
+  it("takes the upper tail for an infinite b", () => {
+    expect(poissonSum(4.5, 3, Infinity)).toBeCloseTo(
+      1 - poissonSum(4.5, 0, 2),
+      15,
+    );
+    expect(poissonSum(4.5, -Infinity, Infinity)).toBe(1);
+  });
+});
+
+describe("poisson", () => {
+  it("has mean and variance λ", () => {
+    const dist = poisson(2.5);
+    expect(dist.mean).toBe(2.5);
+    expect(dist.variance).toBe(2.5);
+    expect(dist.cdf(1)).toBeCloseTo(3.5 * Math.exp(-2.5), 15);
+  });
+
+  it("rejects negative means", () => {
+    expect(() => poisson(-1)).toThrow(InvalidParameterError);
+  });
+});
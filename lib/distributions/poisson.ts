@@ -0,0 +1,41 @@
+import { logFactorial } from "./special";
+import type { DiscreteDistribution } from "./types";
+import { assertPoissonParameter } from "./validation";
+
+// log P(X = k) = k log λ - λ - log(k!), in log space for the same reasons
+// as binomialLogPMF
+export function poissonLogPMF(lambda: number, k: number): number {
+  if (k < 0 || !Number.isInteger(k)) return -Infinity;
+  if (lambda === 0) return k === 0 ? 0 : -Infinity;
+  return k * Math.log(lambda) - lambda - logFactorial(k);
+}
+
+// Poisson PMF: P(X = k) = e^(-λ) λ^k / k!
+export function poissonPMF(lambda: number, k: number): number {
+  return Math.exp(poissonLogPMF(lambda, k));
+}
+
+// Sum of the Poisson PMF from a to b (inclusive). An infinite b is the
+// upper tail, taken as the complement of the terms below a.
+export function poissonSum(lambda: number, a: number, b: number): number {
+  if (b === Infinity) return 1 - poissonSum(lambda, 0, a - 1);
+  let sum = 0;
+  for (let k = Math.max(0, Math.ceil(a)); k <= Math.floor(b); k++) {
+    sum += poissonPMF(lambda, k);
+  }
+  return sum;
+}
+
+// Poisson(λ) as a distribution object. The support is unbounded.
+export function poisson(lambda: number): DiscreteDistribution {
+  assertPoissonParameter(lambda);
+  return {
+    name: "Poisson",
+    mean: lambda,
+    variance: lambda,
+    stdDev: Math.sqrt(lambda),
+    support: { kind: "discrete", min: 0, max: Infinity },
+    pmf: (k) => poissonPMF(lambda, k),
+    cdf: (x) => poissonSum(lambda, 0, x),
+  };
+}
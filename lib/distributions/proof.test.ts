@@ -0,0 +1,90 @@
+import { describe, expect, it } from "vitest";
+import { binomialSum } from "./binomial";
+import {
+  localLimitPoints,
+  logStirling,
+  logTaylorArguments,
+  logTaylorComparison,
+  logTaylorError,
+  riemannComparison,
+  stirlingComparison,
+} from "./proof";
+import { InvalidParameterError } from "./types";
+
+describe("stirlingComparison", () => {
+  it("matches small factorials", () => {
+    expect(Math.exp(logStirling(1))).toBeCloseTo(0.922137, 6);
+    expect(Math.exp(logStirling(5))).toBeCloseTo(118.019168, 5);
+  });
+
+  it("has a ratio close to 1 + 1/(12m)", () => {
+    const points = stirlingComparison(1000);
+    expect(points[0].m).toBe(1);
+    expect(points[points.length - 1].m).toBe(1000);
+    points.forEach(({ m, ratio }) => {
+      expect(ratio).toBeGreaterThan(1);
+      expect(Math.abs(ratio - (1 + 1 / (12 * m)))).toBeLessThan(1 / (200 * m * m));
+    });
+  });
+});
+
+describe("logTaylorComparison", () => {
+  it("evaluates log(1 + u) and u - u²/2 on an even grid", () => {
+    const points = logTaylorComparison(-0.5, 0.5, 11);
+    expect(points).toHaveLength(11);
+    expect(points[5].u).toBeCloseTo(0, 15);
+    expect(points[10]).toEqual({
+      u: 0.5,
+      log: Math.log(1.5),
+      taylor: 0.375,
+    });
+  });
+
+  it("has an error of u³/3 - u⁴/4 + ...", () => {
+    expect(logTaylorError(0.01)).toBeCloseTo(0.01 ** 3 / 3 - 0.01 ** 4 / 4, 10);
+    expect(logTaylorError(-0.1)).toBeGreaterThan(logTaylorError(-0.05));
+  });
+});
+
+describe("logTaylorArguments", () => {
+  it("shrinks like n^(-1/2)", () => {
+    const [smallMin, smallMax] = logTaylorArguments(100, 0.3, 3);
+    const [largeMin, largeMax] = logTaylorArguments(10000, 0.3, 3);
+    expect(smallMin).toBeLessThan(0);
+    expect(smallMax).toBeGreaterThan(0);
+    expect(largeMax / smallMax).toBeCloseTo(0.1, 1);
+    expect(largeMin / smallMin).toBeCloseTo(0.1, 1);
+  });
+
+  it("rejects a degenerate binomial", () => {
+    expect(() => logTaylorArguments(10, 0, 3)).toThrow(InvalidParameterError);
+  });
+});
+
+describe("localLimitPoints", () => {
+  it("covers the lattice within xMax standard deviations", () => {
+    const points = localLimitPoints(100, 0.5, 2);
+    expect(points[0].k).toBe(40);
+    expect(points[points.length - 1].k).toBe(60);
+    expect(points[10].x).toBe(0);
+  });
+
+  it("approaches the parabola and a local ratio of 1", () => {
+    const centre = (n: number) =>
+      localLimitPoints(n, 0.5, 0.1).find((point) => point.x === 0)!;
+    expect(Math.abs(centre(10000).logScaledPMF)).toBeLessThan(
+      Math.abs(centre(100).logScaledPMF),
+    );
+    expect(centre(10000).ratio).toBeCloseTo(1, 4);
+    expect(centre(10000).parabola).toBe(-0);
+  });
+});
+
+describe("riemannComparison", () => {
+  it("sums φ(x)Δx over the lattice points in (a, b]", () => {
+    const { riemannSum, integral, exact } = riemannComparison(400, 0.5, -1, 1);
+    expect(exact).toBeCloseTo(binomialSum(400, 0.5, 191, 210), 14);
+    expect(integral).toBeCloseTo(0.682689, 6);
+    expect(Math.abs(riemannSum - integral)).toBeLessThan(0.05);
+  });
+});
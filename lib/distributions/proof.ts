@@ -0,0 +1,164 @@
+import { binomialLogPMF } from "./binomial";
+import { sweepTrialCounts } from "./convergence";
+import { normalIntegral, normalPDF } from "./normal";
+import { logFactorial } from "./special";
+import {
+  assertBinomialParameters,
+  assertNormalParameters,
+} from "./validation";
+
+// Numbers behind the steps of the proof in the notes, for Binomial(n, p)
+// around y = (k - np)/√(npq)
+
+// np and √(npq), which the proof divides by
+function binomialMoments(
+  n: number,
+  p: number,
+): { mean: number; stdDev: number } {
+  assertBinomialParameters(n, p);
+  const mean = n * p;
+  const stdDev = Math.sqrt(n * p * (1 - p));
+  assertNormalParameters(mean, stdDev);
+  return { mean, stdDev };
+}
+
+// log of Stirling's formula √(2πm) (m/e)^m
+export function logStirling(m: number): number {
+  return 0.5 * Math.log(2 * Math.PI * m) + m * Math.log(m) - m;
+}
+
+// Step 3: m! against Stirling's formula. The ratio tends to 1 like
+// 1 + 1/(12m).
+export interface StirlingPoint {
+  m: number;
+  logExact: number;
+  logStirling: number;
+  ratio: number;
+}
+
+// m = 1 ... maxM, spread evenly on a log scale
+export function stirlingComparison(
+  maxM: number,
+  count?: number,
+): StirlingPoint[] {
+  return sweepTrialCounts(maxM, count).map((m) => {
+    const logExact = logFactorial(m);
+    const stirling = logStirling(m);
+    return {
+      m,
+      logExact,
+      logStirling: stirling,
+      ratio: Math.exp(logExact - stirling),
+    };
+  });
+}
+
+// Step 4: log(1 + u) against its quadratic Taylor polynomial u - u²/2
+export interface TaylorPoint {
+  u: number;
+  log: number;
+  taylor: number;
+}
+
+export function logTaylorComparison(
+  uMin: number,
+  uMax: number,
+  count: number = 200,
+): TaylorPoint[] {
+  return Array.from({ length: count }, (_, i) => {
+    const u = uMin + ((uMax - uMin) * i) / (count - 1);
+    return { u, log: Math.log1p(u), taylor: u - (u * u) / 2 };
+  });
+}
+
+// Smallest and largest u the proof expands at, over 0 < k < n with
+// |y| ≤ yMax: u = (np - k)/k in log(np/k) and u = (k - np)/(n - k) in
+// log(nq/(n - k)). Both shrink like n^(-1/2).
+export function logTaylorArguments(
+  n: number,
+  p: number,
+  yMax: number,
+): [number, number] {
+  const { mean, stdDev } = binomialMoments(n, p);
+  const kFrom = Math.max(1, Math.ceil(mean - yMax * stdDev));
+  const kTo = Math.min(n - 1, Math.floor(mean + yMax * stdDev));
+  let uMin = 0;
+  let uMax = 0;
+  for (let k = kFrom; k <= kTo; k++) {
+    const first = (mean - k) / k;
+    const second = (k - mean) / (n - k);
+    uMin = Math.min(uMin, first, second);
+    uMax = Math.max(uMax, first, second);
+  }
+  return [uMin, uMax];
+}
+
+// |log(1 + u) - (u - u²/2)|, which grows with |u| on either side of 0
+export function logTaylorError(u: number): number {
+  return Math.abs(Math.log1p(u) - (u - (u * u) / 2));
+}
+
+// Steps 5, 7 and 8 at one lattice point x = (k - np)/√(npq)
+export interface LocalLimitPoint {
+  k: number;
+  x: number;
+  // log(P(S_n = k) √(2πnpq)), which Step 5 shows is -x²/2 + O(n^(-1/2))
+  logScaledPMF: number;
+  parabola: number;
+  // φ(x), the height of a Riemann rectangle of width Δx
+  density: number;
+  // P(S_n = k)/(φ(x) Δx), which Step 7 shows tends to 1
+  ratio: number;
+}
+
+// The lattice points with |x| ≤ xMax
+export function localLimitPoints(
+  n: number,
+  p: number,
+  xMax: number,
+): LocalLimitPoint[] {
+  const { mean, stdDev } = binomialMoments(n, p);
+  const points: LocalLimitPoint[] = [];
+  const kFrom = Math.max(0, Math.ceil(mean - xMax * stdDev));
+  const kTo = Math.min(n, Math.floor(mean + xMax * stdDev));
+  for (let k = kFrom; k <= kTo; k++) {
+    const x = (k - mean) / stdDev;
+    const logPMF = binomialLogPMF(n, k, p);
+    const density = normalPDF(x, 0, 1);
+    points.push({
+      k,
+      x,
+      logScaledPMF: logPMF + Math.log(Math.sqrt(2 * Math.PI) * stdDev),
+      parabola: (-x * x) / 2,
+      density,
+      ratio: Math.exp(logPMF) / (density / stdDev),
+    });
+  }
+  return points;
+}
+
+// Step 8: the Riemann sum Σ_{a < x ≤ b} φ(x) Δx over the lattice against
+// Φ(b) - Φ(a), next to the exact P(a < X_n ≤ b) it approximates
+export interface RiemannComparison {
+  riemannSum: number;
+  integral: number;
+  exact: number;
+}
+
+export function riemannComparison(
+  n: number,
+  p: number,
+  a: number,
+  b: number,
+): RiemannComparison {
+  const { mean, stdDev } = binomialMoments(n, p);
+  let riemannSum = 0;
+  let exact = 0;
+  for (let k = 0; k <= n; k++) {
+    const x = (k - mean) / stdDev;
+    if (x <= a || x > b) continue;
+    riemannSum += normalPDF(x, 0, 1) / stdDev;
+    exact += Math.exp(binomialLogPMF(n, k, p));
+  }
+  return { riemannSum, integral: normalIntegral(a, b, 0, 1), exact };
+}
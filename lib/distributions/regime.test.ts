@@ -0,0 +1,65 @@
+import { describe, expect, it } from "vitest";
+import { binomialConvergence } from "./convergence";
+import {
+  approximationRegimeMap,
+  binomialNormalDistance,
+  binomialPoissonDistance,
+  regimeProbabilities,
+} from "./regime";
+
+describe("binomialPoissonDistance", () => {
+  it("is zero for a single trial with p = 0", () => {
+    expect(binomialPoissonDistance(1, 0)).toBe(0);
+  });
+
+  it("matches a hand computation for n = 1", () => {
+    // Bernoulli(p) against Poisson(p): |q - e^-p| + |p - pe^-p| + P(Y ≥ 2)
+    const p = 0.2;
+    const e = Math.exp(-p);
+    const expected = (e - (1 - p) + (p - p * e) + (1 - e - p * e)) / 2;
+    expect(binomialPoissonDistance(1, p)).toBeCloseTo(expected, 15);
+  });
+
+  it("stays under Le Cam's bound min(p, np²)", () => {
+    [
+      [10, 0.3],
+      [100, 0.05],
+      [1000, 0.002],
+    ].forEach(([n, p]) => {
+      expect(binomialPoissonDistance(n, p)).toBeLessThanOrEqual(
+        Math.min(p, n * p * p),
+      );
+    });
+  });
+});
+
+describe("binomialNormalDistance", () => {
+  it("agrees with the convergence sweep", () => {
+    const last = binomialConvergence(0.3, 50).at(-1)!;
+    expect(binomialNormalDistance(50, 0.3)).toBe(last.totalVariation);
+  });
+});
+
+describe("approximationRegimeMap", () => {
+  const cells = approximationRegimeMap(200, 8, 10);
+
+  it("covers the grid with adjacent cells", () => {
+    expect(cells).toHaveLength(8 * 10);
+    expect(regimeProbabilities(10)[0]).toBeCloseTo(0.05, 15);
+    const column = cells.filter((cell) => cell.n === cells[0].n);
+    column.slice(1).forEach((cell, i) => {
+      expect(cell.pRange[0]).toBeCloseTo(column[i].pRange[1], 15);
+    });
+    expect(cells[0].nRange[0]).toBe(1);
+    expect(cells.at(-1)!.nRange[1]).toBe(200);
+  });
+
+  it("prefers Poisson for small p and the normal for p near ½", () => {
+    const at = (n: number, p: number) =>
+      cells.find((cell) => cell.n === n && Math.abs(cell.p - p) < 1e-9)!;
+    const rare = at(200, 0.05);
+    expect(rare.poissonDistance).toBeLessThan(rare.normalDistance);
+    const even = at(200, 0.45);
+    expect(even.normalDistance).toBeLessThan(even.poissonDistance);
+  });
+});
@@ -0,0 +1,91 @@
+import { binomialPMF } from "./binomial";
+import { sweepTrialCounts } from "./convergence";
+import { approximationMetrics } from "./metrics";
+import { poissonPMF } from "./poisson";
+import {
+  DEFAULT_SOURCE_PARAMETERS,
+  sourceDistribution,
+  sumDistribution,
+} from "./sources";
+import { assertBinomialParameters } from "./validation";
+
+// Total variation distance between Binomial(n, p) and Poisson(np):
+// ½ (Σ_{k ≤ n} |P(X = k) - P(Y = k)| + P(Y > n))
+export function binomialPoissonDistance(n: number, p: number): number {
+  assertBinomialParameters(n, p);
+  const lambda = n * p;
+  let distance = 0;
+  let poissonMass = 0;
+  for (let k = 0; k <= n; k++) {
+    const prob = poissonPMF(lambda, k);
+    distance += Math.abs(binomialPMF(n, k, p) - prob);
+    poissonMass += prob;
+  }
+  return (distance + Math.max(0, 1 - poissonMass)) / 2;
+}
+
+// Total variation distance between Binomial(n, p) and the discretized
+// normal, as in the approximation error panel
+export function binomialNormalDistance(n: number, p: number): number {
+  assertBinomialParameters(n, p);
+  const source = sourceDistribution("bernoulli", {
+    ...DEFAULT_SOURCE_PARAMETERS,
+    p,
+  });
+  return approximationMetrics(source, sumDistribution(source, n), n)
+    .totalVariation;
+}
+
+// One cell of the regime map: a block of (n, p) values around one grid
+// point, with both approximations' errors at that point
+export interface RegimeCell {
+  n: number;
+  p: number;
+  // Cell edges; the n edges are geometric midpoints since n is on a log axis
+  nRange: [number, number];
+  pRange: [number, number];
+  normalDistance: number;
+  poissonDistance: number;
+}
+
+// Size of the regime map. Every cell sums the PMF over k = 0, ..., n, so n
+// stays well below the slider's limit.
+export const REGIME_MAX_N = 1000;
+export const REGIME_N_POINTS = 30;
+export const REGIME_P_POINTS = 25;
+
+// Midpoints of `count` equal slices of (0, 1)
+export function regimeProbabilities(
+  count: number = REGIME_P_POINTS,
+): number[] {
+  return Array.from({ length: count }, (_, i) => (i + 0.5) / count);
+}
+
+// For each (n, p) on a grid, how far Binomial(n, p) is from its normal and
+// its Poisson approximation
+export function approximationRegimeMap(
+  maxN: number = REGIME_MAX_N,
+  nCount: number = REGIME_N_POINTS,
+  pCount: number = REGIME_P_POINTS,
+): RegimeCell[] {
+  const counts = sweepTrialCounts(maxN, nCount);
+  const nEdges = [
+    counts[0],
+    ...counts.slice(1).map((n, i) => Math.sqrt(n * counts[i])),
+    counts[counts.length - 1],
+  ];
+  const cells: RegimeCell[] = [];
+  counts.forEach((n, i) => {
+    regimeProbabilities(pCount).forEach((p) => {
+      cells.push({
+        n,
+        p,
+        nRange: [nEdges[i], nEdges[i + 1]],
+        pRange: [p - 0.5 / pCount, p + 0.5 / pCount],
+        normalDistance: binomialNormalDistance(n, p),
+        poissonDistance: binomialPoissonDistance(n, p),
+      });
+    });
+  });
+  return cells;
+}
@@ -0,0 +1,72 @@
+import { describe, expect, it } from "vitest";
+import { binomialSum } from "./binomial";
+import { normalIntegral } from "./normal";
+import { axisRegion, latticeRegionSum, regionProbability } from "./region";
+
+const scale = { mean: 50, stdDev: 5 };
+const binomial100 = {
+  offset: 0,
+  step: 1,
+  probs: Array.from({ length: 101 }, (_, k) => binomialSum(100, 0.5, k, k)),
+};
+
+describe("axisRegion", () => {
+  it("turns the range endpoints into each mode's region", () => {
+    expect(axisRegion("between", 40, 60, scale, 2)).toEqual({
+      from: 40,
+      to: 60,
+      outside: false,
+    });
+    expect(axisRegion("below", 40, 60, scale, 2).from).toBe(-Infinity);
+    expect(axisRegion("above", 40, 60, scale, 2).to).toBe(Infinity);
+    expect(axisRegion("outside", 40, 60, scale, 2).outside).toBe(true);
+    expect(axisRegion("sigma", 0, 1, scale, 1.5)).toEqual({
+      from: 42.5,
+      to: 57.5,
+      outside: false,
+    });
+  });
+});
+
+describe("latticeRegionSum", () => {
+  it("sums the tails", () => {
+    expect(
+      latticeRegionSum(binomial100, axisRegion("below", 0, 45, scale, 0)),
+    ).toBeCloseTo(binomialSum(100, 0.5, 0, 45), 14);
+    expect(
+      latticeRegionSum(binomial100, axisRegion("above", 55, 100, scale, 0)),
+    ).toBeCloseTo(binomialSum(100, 0.5, 55, 100), 14);
+  });
+
+  it("leaves the endpoints out of the outside of a range", () => {
+    const outside = latticeRegionSum(
+      binomial100,
+      axisRegion("outside", 45, 55, scale, 0),
+    );
+    expect(outside).toBeCloseTo(
+      binomialSum(100, 0.5, 0, 44) + binomialSum(100, 0.5, 56, 100),
+      12,
+    );
+  });
+});
+
+describe("regionProbability", () => {
+  const normal = (from: number, to: number) => normalIntegral(from, to, 0, 1);
+
+  it("integrates the normal over infinite tails", () => {
+    expect(
+      regionProbability(axisRegion("below", 0, 1, { mean: 0, stdDev: 1 }, 0), normal),
+    ).toBeCloseTo(0.8413447460685429, 14);
+    expect(
+      regionProbability(axisRegion("above", 1, 2, { mean: 0, stdDev: 1 }, 0), normal),
+    ).toBeCloseTo(0.15865525393145707, 14);
+  });
+
+  it("gives 68-95-99.7 for the μ ± kσ band", () => {
+    const band = (k: number) =>
+      regionProbability(axisRegion("sigma", 0, 0, { mean: 0, stdDev: 1 }, k), normal);
+    expect(band(1)).toBeCloseTo(0.6826894921370859, 14);
+    expect(band(2)).toBeCloseTo(0.9544997361036416, 14);
+    expect(band(3)).toBeCloseTo(0.9973002039367398, 14);
+  });
+});
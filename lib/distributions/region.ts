@@ -0,0 +1,62 @@
+import { latticeSum } from "./lattice";
+import type { LatticeDistribution } from "./types";
+
+// Which probability the range selection asks for: P(a ≤ X ≤ b), the tails
+// P(X ≤ b) and P(X ≥ a), P(X < a or X > b), or P(|X - μ| ≤ kσ)
+export type RegionMode = "between" | "below" | "above" | "outside" | "sigma";
+
+// An interval of the x axis, or everything outside it. Tails have an
+// infinite end.
+export interface Region {
+  from: number;
+  to: number;
+  outside: boolean;
+}
+
+// The region on one x-axis scale, from range endpoints a ≤ b on that scale
+// or, for the μ ± kσ band, the scale's mean and standard deviation
+export function axisRegion(
+  mode: RegionMode,
+  a: number,
+  b: number,
+  scale: { mean: number; stdDev: number },
+  k: number,
+): Region {
+  switch (mode) {
+    case "between":
+      return { from: a, to: b, outside: false };
+    case "below":
+      return { from: -Infinity, to: b, outside: false };
+    case "above":
+      return { from: a, to: Infinity, outside: false };
+    case "outside":
+      return { from: a, to: b, outside: true };
+    case "sigma":
+      return {
+        from: scale.mean - k * scale.stdDev,
+        to: scale.mean + k * scale.stdDev,
+        outside: false,
+      };
+  }
+}
+
+// Probability of a region given the probability of an interval. Outside
+// [a, b] is the complement of [a, b]; on a lattice this leaves out the
+// endpoints themselves.
+export function regionProbability(
+  region: Region,
+  intervalProbability: (from: number, to: number) => number,
+): number {
+  const inside = intervalProbability(region.from, region.to);
+  return region.outside ? 1 - inside : inside;
+}
+
+// Exact probability of a region given in values of S_n
+export function latticeRegionSum(
+  lattice: LatticeDistribution,
+  region: Region,
+): number {
+  return regionProbability(region, (from, to) =>
+    latticeSum(lattice, from, to),
+  );
+}
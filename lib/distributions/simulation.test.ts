@@ -0,0 +1,100 @@
+import { describe, expect, it } from "vitest";
+import {
+  createRandom,
+  emptySimulation,
+  empiricalFrequencies,
+  simulateSamples,
+  simulationMean,
+} from "./simulation";
+import {
+  DEFAULT_SOURCE_PARAMETERS,
+  sourceDistribution,
+  sumDistribution,
+} from "./sources";
+
+describe("createRandom", () => {
+  it("is reproducible from its seed and stays in [0, 1)", () => {
+    const a = createRandom(42);
+    const b = createRandom(42);
+    for (let i = 0; i < 1000; i++) {
+      const u = a.next();
+      expect(u).toBe(b.next());
+      expect(u).toBeGreaterThanOrEqual(0);
+      expect(u).toBeLessThan(1);
+    }
+    expect(createRandom(43).next()).not.toBe(createRandom(42).next());
+  });
+
+  it("resumes from its saved state", () => {
+    const a = createRandom(7);
+    a.next();
+    const resumed = createRandom(a.state);
+    expect(resumed.next()).toBe(a.next());
+  });
+
+  it("is roughly uniform", () => {
+    const random = createRandom(1);
+    let total = 0;
+    for (let i = 0; i < 100000; i++) total += random.next();
+    expect(total / 100000).toBeCloseTo(0.5, 2);
+  });
+});
+
+describe("simulateSamples", () => {
+  const bernoulli = sourceDistribution("bernoulli", {
+    ...DEFAULT_SOURCE_PARAMETERS,
+    p: 0.3,
+  });
+
+  it("gives the same histogram however the samples are batched", () => {
+    const sum = sumDistribution(bernoulli, 20);
+    const once = simulateSamples(emptySimulation(5, sum), bernoulli, 20, sum, 50);
+    let batched = emptySimulation(5, sum);
+    for (let i = 0; i < 5; i++) {
+      batched = simulateSamples(batched, bernoulli, 20, sum, 10);
+    }
+    expect(batched).toEqual(once);
+    expect(once.samples).toBe(50);
+  });
+
+  it("does not modify the previous state", () => {
+    const sum = sumDistribution(bernoulli, 10);
+    const start = emptySimulation(1, sum);
+    simulateSamples(start, bernoulli, 10, sum, 10);
+    expect(start.samples).toBe(0);
+    expect(start.counts.every((count) => count === 0)).toBe(true);
+  });
+
+  it("converges to the exact distribution of the sum", () => {
+    const sum = sumDistribution(bernoulli, 20);
+    const state = simulateSamples(
+      emptySimulation(123, sum),
+      bernoulli,
+      20,
+      sum,
+      20000,
+    );
+    const frequencies = empiricalFrequencies(state);
+    expect(frequencies.reduce((acc, f) => acc + f, 0)).toBeCloseTo(1, 12);
+    frequencies.forEach((frequency, j) => {
+      expect(Math.abs(frequency - sum.probs[j])).toBeLessThan(0.01);
+    });
+    expect(simulationMean(state, sum)).toBeCloseTo(6, 1);
+  });
+
+  it("lines up with trimmed sum lattices", () => {
+    const source = sourceDistribution("geometric", DEFAULT_SOURCE_PARAMETERS);
+    const sum = sumDistribution(source, 5);
+    const state = simulateSamples(emptySimulation(9, sum), source, 5, sum, 5000);
+    expect(state.outside).toBe(0);
+    // E[S_5] = 5 / 0.3
+    expect(simulationMean(state, sum) / (5 / 0.3)).toBeCloseTo(1, 1);
+  });
+
+  it("reports no frequencies before the first sample", () => {
+    const sum = sumDistribution(bernoulli, 4);
+    const state = emptySimulation(1, sum);
+    expect(empiricalFrequencies(state)).toEqual([0, 0, 0, 0, 0]);
+    expect(simulationMean(state, sum)).toBeNaN();
+  });
+});
@@ -0,0 +1,127 @@
+import { latticeValue } from "./lattice";
+import type { SourceDistribution } from "./sources";
+import type { LatticeDistribution } from "./types";
+
+// Seedable uniform generator on [0, 1). The whole generator state is one
+// 32-bit integer, so a simulation can be paused, stored and resumed
+// exactly.
+export interface Random {
+  next(): number;
+  readonly state: number;
+}
+
+// mulberry32: small, fast and good enough for teaching simulations
+export function createRandom(state: number): Random {
+  let s = state >>> 0;
+  return {
+    next() {
+      s = (s + 0x6d2b79f5) >>> 0;
+      let t = s;
+      t = Math.imul(t ^ (t >>> 15), t | 1);
+      t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+      return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    },
+    get state() {
+      return s;
+    },
+  };
+}
+
+// Running histogram of simulated sums S_n. counts[j] is the number of
+// samples that landed on the j-th point of the exact sum lattice; samples
+// in the (trimmed, negligible) tails beyond it are counted in outside.
+export interface SimulationState {
+  rngState: number;
+  samples: number;
+  counts: number[];
+  outside: number;
+}
+
+export function emptySimulation(
+  seed: number,
+  sum: LatticeDistribution,
+): SimulationState {
+  return {
+    rngState: seed >>> 0,
+    samples: 0,
+    counts: new Array(sum.probs.length).fill(0),
+    outside: 0,
+  };
+}
+
+// Cumulative probabilities of the source lattice, for inverse-CDF draws
+function cumulativeProbs(probs: number[]): number[] {
+  const cumulative: number[] = [];
+  let total = 0;
+  for (const prob of probs) {
+    total += prob;
+    cumulative.push(total);
+  }
+  return cumulative;
+}
+
+// Index of the first cumulative probability above u
+function searchCumulative(cumulative: number[], u: number): number {
+  let lo = 0;
+  let hi = cumulative.length - 1;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (cumulative[mid] > u) hi = mid;
+    else lo = mid + 1;
+  }
+  return lo;
+}
+
+// Draw count more samples, each the sum of n independent draws X_i from the
+// source, and add them to the histogram. Each X_i is drawn from the same
+// lattice the exact bars are built from, so the histogram converges to them.
+export function simulateSamples(
+  state: SimulationState,
+  source: SourceDistribution,
+  n: number,
+  sum: LatticeDistribution,
+  count: number,
+): SimulationState {
+  const random = createRandom(state.rngState);
+  const cumulative = cumulativeProbs(source.lattice.probs);
+  // Sum lattice index of a total of source indices (the sum may be trimmed)
+  const shift = Math.round(
+    (sum.offset - n * source.lattice.offset) / source.lattice.step,
+  );
+  const counts = state.counts.slice();
+  let outside = state.outside;
+  for (let sample = 0; sample < count; sample++) {
+    let total = 0;
+    for (let i = 0; i < n; i++) {
+      total += searchCumulative(cumulative, random.next());
+    }
+    const j = total - shift;
+    if (j >= 0 && j < counts.length) counts[j]++;
+    else outside++;
+  }
+  return {
+    rngState: random.state,
+    samples: state.samples + count,
+    counts,
+    outside,
+  };
+}
+
+// Observed relative frequency of each sum lattice point
+export function empiricalFrequencies(state: SimulationState): number[] {
+  if (state.samples === 0) return state.counts.map(() => 0);
+  return state.counts.map((count) => count / state.samples);
+}
+
+// Sample mean of the simulated sums
+export function simulationMean(
+  state: SimulationState,
+  sum: LatticeDistribution,
+): number {
+  if (state.samples === 0) return NaN;
+  let total = 0;
+  state.counts.forEach((count, j) => {
+    total += count * latticeValue(sum, j);
+  });
+  return total / (state.samples - state.outside);
+}
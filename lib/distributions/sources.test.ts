@@ -0,0 +1,131 @@
+import { describe, expect, it } from "vitest";
+import { binomialPMF } from "./binomial";
+import { latticeMoments, latticeSum } from "./lattice";
+import { normalCDF } from "./normal";
+import {
+  DEFAULT_SOURCE_PARAMETERS,
+  parseCustomPMF,
+  SOURCE_OPTIONS,
+  sourceDistribution,
+  sumDistribution,
+} from "./sources";
+import { InvalidParameterError } from "./types";
+
+describe("sourceDistribution", () => {
+  it.each(SOURCE_OPTIONS.map((option) => option.kind))(
+    "gives %s a normalized lattice matching its moments",
+    (kind) => {
+      const source = sourceDistribution(kind, DEFAULT_SOURCE_PARAMETERS);
+      const total = source.lattice.probs.reduce((acc, prob) => acc + prob, 0);
+      expect(total).toBeCloseTo(1, 12);
+      const { mean, variance } = latticeMoments(source.lattice);
+      // Continuous sources are only exact up to the grid spacing
+      const digits = source.continuous ? 2 : 6;
+      expect(mean / source.mean).toBeCloseTo(1, digits);
+      expect(variance / source.variance).toBeCloseTo(1, digits);
+    },
+  );
+
+  it("uses the textbook moments", () => {
+    const params = { ...DEFAULT_SOURCE_PARAMETERS, faces: 6, lambda: 3 };
+    expect(sourceDistribution("discreteUniform", params).variance).toBeCloseTo(
+      35 / 12,
+      15,
+    );
+    expect(sourceDistribution("poisson", params).variance).toBe(3);
+    expect(sourceDistribution("uniform", params).variance).toBe(1 / 12);
+  });
+
+  it("rejects invalid parameters", () => {
+    expect(() =>
+      sourceDistribution("bernoulli", { ...DEFAULT_SOURCE_PARAMETERS, p: 2 }),
+    ).toThrow(InvalidParameterError);
+    expect(() =>
+      sourceDistribution("discreteUniform", {
+        ...DEFAULT_SOURCE_PARAMETERS,
+        faces: 0,
+      }),
+    ).toThrow(InvalidParameterError);
+  });
+});
+
+describe("sumDistribution", () => {
+  it("uses the binomial PMF for Bernoulli sums", () => {
+    const source = sourceDistribution("bernoulli", {
+      ...DEFAULT_SOURCE_PARAMETERS,
+      p: 0.2,
+    });
+    const sum = sumDistribution(source, 10000);
+    expect(sum.probs).toHaveLength(10001);
+    expect(sum.probs[2000]).toBe(binomialPMF(10000, 2000, 0.2));
+  });
+
+  it("matches Poisson(nλ) for Poisson sums", () => {
+    const source = sourceDistribution("poisson", {
+      ...DEFAULT_SOURCE_PARAMETERS,
+      lambda: 1.5,
+    });
+    const sum = sumDistribution(source, 20);
+    // P(S = 30) for S ~ Poisson(30)
+    const logProb = 30 * Math.log(30) - 30 - 74.65823634883016;
+    expect(sum.probs[30 - sum.offset]).toBeCloseTo(Math.exp(logProb), 10);
+  });
+
+  it("approaches the Gamma CDF for exponential sums", () => {
+    const source = sourceDistribution("exponential", DEFAULT_SOURCE_PARAMETERS);
+    const sum = sumDistribution(source, 2);
+    // S ~ Gamma(2, 1): P(S ≤ 2) = 1 - 3e^(-2). A lattice point sits on 2
+    // itself and stands for mass spread evenly around it, so count half of it.
+    const below = latticeSum(sum, 0, 2 - sum.step / 2);
+    const upTo = latticeSum(sum, 0, 2 + sum.step / 2);
+    const exact = (below + upTo) / 2;
+    expect(exact).toBeCloseTo(1 - 3 * Math.exp(-2), 3);
+  });
+
+  it("is close to normal for a large number of draws", () => {
+    const source = sourceDistribution("uniform", DEFAULT_SOURCE_PARAMETERS);
+    const n = 48;
+    const sum = sumDistribution(source, n);
+    const sd = Math.sqrt(n / 12);
+    const exact = latticeSum(sum, 24 - sd, 24 + sd);
+    expect(exact).toBeCloseTo(normalCDF(1, 0, 1) - normalCDF(-1, 0, 1), 2);
+  });
+});
+
+describe("parseCustomPMF", () => {
+  it("reads comma or space separated weights", () => {
+    expect(parseCustomPMF("0.2, 0.5 0.3")).toEqual([0.2, 0.5, 0.3]);
+    expect(parseCustomPMF(" 1,1 ,2 ")).toEqual([1, 1, 2]);
+  });
+
+  it("rejects empty, negative and degenerate input", () => {
+    expect(() => parseCustomPMF("")).toThrow(InvalidParameterError);
+    expect(() => parseCustomPMF("0.5, -0.5")).toThrow(InvalidParameterError);
+    expect(() => parseCustomPMF("0, 0")).toThrow(InvalidParameterError);
+    expect(() => parseCustomPMF("0, 1, 0")).toThrow(InvalidParameterError);
+    expect(() => parseCustomPMF("a, b")).toThrow(InvalidParameterError);
+  });
+});
+
+describe("absoluteThirdMoment", () => {
+  it.each(["exponential", "uniform"] as const)(
+    "matches the discretized lattice for the %s source",
+    (kind) => {
+      const source = sourceDistribution(kind, DEFAULT_SOURCE_PARAMETERS);
+      let moment = 0;
+      source.lattice.probs.forEach((prob, j) => {
+        const x = source.lattice.offset + j * source.lattice.step;
+        moment += prob * Math.abs(x - source.mean) ** 3;
+      });
+      expect(moment / source.absoluteThirdMoment).toBeCloseTo(1, 2);
+    },
+  );
+
+  it("is pq(p² + q²) for Bernoulli", () => {
+    const source = sourceDistribution("bernoulli", {
+      ...DEFAULT_SOURCE_PARAMETERS,
+      p: 0.2,
+    });
+    expect(source.absoluteThirdMoment).toBeCloseTo(0.16 * 0.68, 15);
+  });
+});
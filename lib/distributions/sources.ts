@@ -0,0 +1,354 @@
+import { binomialPMF } from "./binomial";
+import { latticePower, latticeValue } from "./lattice";
+import { InvalidParameterError, type LatticeDistribution } from "./types";
+import { assertBinomialParameters } from "./validation";
+
+// Distributions a single draw X_i can come from
+export type SourceKind =
+  | "bernoulli"
+  | "discreteUniform"
+  | "poisson"
+  | "geometric"
+  | "exponential"
+  | "uniform"
+  | "custom";
+
+// Parameters for every source kind; each kind reads only its own
+export interface SourceParameters {
+  // Bernoulli success probability
+  p: number;
+  // Discrete uniform on {1, ..., faces}
+  faces: number;
+  // Poisson mean
+  lambda: number;
+  // Geometric success probability (number of trials until the first success)
+  geometricP: number;
+  // Exponential rate
+  rate: number;
+  // Custom PMF weights on {0, 1, ..., m}, normalized to sum to 1
+  customPMF: number[];
+}
+
+export type NumericSourceParameter = Exclude<keyof SourceParameters, "customPMF">;
+
+export interface SourceParameterSpec {
+  key: NumericSourceParameter;
+  label: string;
+  min: number;
+  max: number;
+  step: number;
+}
+
+export interface SourceOption {
+  kind: SourceKind;
+  label: string;
+  parameters: SourceParameterSpec[];
+}
+
+export const SOURCE_OPTIONS: SourceOption[] = [
+  {
+    kind: "bernoulli",
+    label: "Bernoulli(p)",
+    parameters: [
+      { key: "p", label: "Probability (p)", min: 0.01, max: 0.99, step: 0.01 },
+    ],
+  },
+  {
+    kind: "discreteUniform",
+    label: "Discrete uniform {1, …, m}",
+    parameters: [{ key: "faces", label: "Faces (m)", min: 2, max: 20, step: 1 }],
+  },
+  {
+    kind: "poisson",
+    label: "Poisson(λ)",
+    parameters: [{ key: "lambda", label: "Mean (λ)", min: 0.1, max: 10, step: 0.1 }],
+  },
+  {
+    kind: "geometric",
+    label: "Geometric(p)",
+    parameters: [
+      { key: "geometricP", label: "Probability (p)", min: 0.05, max: 0.95, step: 0.05 },
+    ],
+  },
+  {
+    kind: "exponential",
+    label: "Exponential(λ)",
+    parameters: [{ key: "rate", label: "Rate (λ)", min: 0.1, max: 5, step: 0.1 }],
+  },
+  { kind: "uniform", label: "Uniform(0, 1)", parameters: [] },
+  { kind: "custom", label: "Custom PMF", parameters: [] },
+];
+
+export const DEFAULT_SOURCE_PARAMETERS: SourceParameters = {
+  p: 0.5,
+  faces: 6,
+  lambda: 2,
+  geometricP: 0.3,
+  rate: 1,
+  customPMF: [0.2, 0.5, 0.3],
+};
+
+// One draw X_i: its exact mean and variance, and its distribution on a
+// lattice. For continuous sources the lattice holds the probability of each
+// grid cell at the cell's midpoint.
+export interface SourceDistribution {
+  kind: SourceKind;
+  name: string;
+  continuous: boolean;
+  mean: number;
+  variance: number;
+  // ρ = E|X - μ|³, which enters the Berry–Esseen bound
+  absoluteThirdMoment: number;
+  // E[(X - μ)³]/σ³
+  skewness: number;
+  // E[(X - μ)⁴]/σ⁴ - 3
+  excessKurtosis: number;
+  lattice: LatticeDistribution;
+}
+
+// Unbounded supports are cut off once the remaining tail mass drops below
+// this, then renormalized
+const SOURCE_TAIL_MASS = 1e-12;
+
+// Grid cells per standard deviation when discretizing the exponential
+const EXPONENTIAL_CELLS_PER_SD = 20;
+
+// Grid cells on [0, 1] when discretizing the uniform
+const UNIFORM_CELLS = 100;
+
+function normalized(probs: number[]): number[] {
+  const total = probs.reduce((sum, prob) => sum + prob, 0);
+  return probs.map((prob) => prob / total);
+}
+
+// E|X - mean|³ over a lattice
+function latticeAbsoluteThirdMoment(
+  lattice: LatticeDistribution,
+  mean: number,
+): number {
+  let moment = 0;
+  lattice.probs.forEach((prob, j) => {
+    moment += prob * Math.abs(latticeValue(lattice, j) - mean) ** 3;
+  });
+  return moment;
+}
+
+function assertInRange(
+  parameter: string,
+  value: number,
+  min: number,
+  max: number,
+): void {
+  if (!Number.isFinite(value) || value < min || value > max) {
+    throw new InvalidParameterError(parameter, value, `must be in [${min}, ${max}]`);
+  }
+}
+
+// Distribution of a single draw from the chosen source
+export function sourceDistribution(
+  kind: SourceKind,
+  params: SourceParameters,
+): SourceDistribution {
+  switch (kind) {
+    case "bernoulli": {
+      const { p } = params;
+      assertBinomialParameters(1, p);
+      return {
+        kind,
+        name: `Bernoulli(${p})`,
+        continuous: false,
+        mean: p,
+        variance: p * (1 - p),
+        absoluteThirdMoment: p * (1 - p) * (p * p + (1 - p) * (1 - p)),
+        skewness: (1 - 2 * p) / Math.sqrt(p * (1 - p)),
+        excessKurtosis: (1 - 6 * p * (1 - p)) / (p * (1 - p)),
+        lattice: { offset: 0, step: 1, probs: [1 - p, p] },
+      };
+    }
+    case "discreteUniform": {
+      const { faces } = params;
+      if (!Number.isInteger(faces) || faces < 1) {
+        throw new InvalidParameterError("faces", faces, "must be a positive integer");
+      }
+      const lattice = { offset: 1, step: 1, probs: new Array(faces).fill(1 / faces) };
+      const mean = (faces + 1) / 2;
+      return {
+        kind,
+        name: `Uniform{1, …, ${faces}}`,
+        continuous: false,
+        mean,
+        variance: (faces * faces - 1) / 12,
+        absoluteThirdMoment: latticeAbsoluteThirdMoment(lattice, mean),
+        skewness: 0,
+        excessKurtosis: (-6 * (faces * faces + 1)) / (5 * (faces * faces - 1)),
+        lattice,
+      };
+    }
+    case "poisson": {
+      const { lambda } = params;
+      assertInRange("lambda", lambda, Number.MIN_VALUE, 100);
+      const probs = [Math.exp(-lambda)];
+      let cumulative = probs[0];
+      while (1 - cumulative > SOURCE_TAIL_MASS) {
+        const next = (probs[probs.length - 1] * lambda) / probs.length;
+        probs.push(next);
+        cumulative += next;
+      }
+      const lattice = { offset: 0, step: 1, probs: normalized(probs) };
+      return {
+        kind,
+        name: `Poisson(${lambda})`,
+        continuous: false,
+        mean: lambda,
+        variance: lambda,
+        absoluteThirdMoment: latticeAbsoluteThirdMoment(lattice, lambda),
+        skewness: 1 / Math.sqrt(lambda),
+        excessKurtosis: 1 / lambda,
+        lattice,
+      };
+    }
+    case "geometric": {
+      const p = params.geometricP;
+      assertInRange("geometricP", p, Number.MIN_VALUE, 1);
+      // P(X = k) = (1-p)^(k-1) p for k = 1, 2, ...
+      const probs = [p];
+      let tail = 1 - p;
+      while (tail > SOURCE_TAIL_MASS) {
+        probs.push(tail * p);
+        tail *= 1 - p;
+      }
+      const lattice = { offset: 1, step: 1, probs: normalized(probs) };
+      return {
+        kind,
+        name: `Geometric(${p})`,
+        continuous: false,
+        mean: 1 / p,
+        variance: (1 - p) / (p * p),
+        absoluteThirdMoment: latticeAbsoluteThirdMoment(lattice, 1 / p),
+        skewness: (2 - p) / Math.sqrt(1 - p),
+        excessKurtosis: 6 + (p * p) / (1 - p),
+        lattice,
+      };
+    }
+    case "exponential": {
+      const { rate } = params;
+      assertInRange("rate", rate, Number.MIN_VALUE, Infinity);
+      const step = 1 / (rate * EXPONENTIAL_CELLS_PER_SD);
+      // Cell [jh, (j+1)h] has probability e^(-λjh)(1 - e^(-λh))
+      const cellMass = -Math.expm1(-rate * step);
+      const probs: number[] = [];
+      let survival = 1;
+      while (survival > SOURCE_TAIL_MASS) {
+        probs.push(survival * cellMass);
+        survival *= 1 - cellMass;
+      }
+      return {
+        kind,
+        name: `Exponential(${rate})`,
+        continuous: true,
+        mean: 1 / rate,
+        variance: 1 / (rate * rate),
+        // E|X - 1/λ|³ = (12/e - 2)/λ³
+        absoluteThirdMoment: (12 / Math.E - 2) / rate ** 3,
+        skewness: 2,
+        excessKurtosis: 6,
+        lattice: { offset: step / 2, step, probs: normalized(probs) },
+      };
+    }
+    case "uniform": {
+      const step = 1 / UNIFORM_CELLS;
+      return {
+        kind,
+        name: "Uniform(0, 1)",
+        continuous: true,
+        mean: 0.5,
+        variance: 1 / 12,
+        absoluteThirdMoment: 1 / 32,
+        skewness: 0,
+        excessKurtosis: -6 / 5,
+        lattice: {
+          offset: step / 2,
+          step,
+          probs: new Array(UNIFORM_CELLS).fill(step),
+        },
+      };
+    }
+    case "custom": {
+      const probs = normalized(params.customPMF);
+      let mean = 0;
+      probs.forEach((prob, k) => {
+        mean += prob * k;
+      });
+      let variance = 0;
+      let thirdMoment = 0;
+      let fourthMoment = 0;
+      probs.forEach((prob, k) => {
+        variance += prob * (k - mean) ** 2;
+        thirdMoment += prob * (k - mean) ** 3;
+        fourthMoment += prob * (k - mean) ** 4;
+      });
+      const lattice = { offset: 0, step: 1, probs };
+      return {
+        kind,
+        name: "Custom PMF",
+        continuous: false,
+        mean,
+        variance,
+        absoluteThirdMoment: latticeAbsoluteThirdMoment(lattice, mean),
+        skewness: thirdMoment / variance ** 1.5,
+        excessKurtosis: fourthMoment / (variance * variance) - 3,
+        lattice,
+      };
+    }
+  }
+}
+
+// Parse comma- or space-separated weights for P(X = 0), P(X = 1), ...
+// Weights need not sum to 1; they are normalized by sourceDistribution.
+export function parseCustomPMF(text: string): number[] {
+  const weights = text
+    .split(/[\s,]+/)
+    .filter((token) => token.length > 0)
+    .map(Number);
+  if (weights.length === 0) {
+    throw new InvalidParameterError("customPMF", NaN, "enter at least one weight");
+  }
+  weights.forEach((weight) => {
+    if (!Number.isFinite(weight) || weight < 0) {
+      throw new InvalidParameterError(
+        "customPMF",
+        weight,
+        "weights must be non-negative numbers",
+      );
+    }
+  });
+  const total = weights.reduce((sum, weight) => sum + weight, 0);
+  if (total <= 0) {
+    throw new InvalidParameterError("customPMF", total, "weights must not all be zero");
+  }
+  if (weights.filter((weight) => weight > 0).length < 2) {
+    throw new InvalidParameterError(
+      "customPMF",
+      total,
+      "put weight on at least two values so the variance is positive",
+    );
+  }
+  return weights;
+}
+
+// Exact distribution of S_n = X_1 + ... + X_n. Bernoulli sums use the
+// log-space binomial PMF; everything else is an n-fold convolution.
+export function sumDistribution(
+  source: SourceDistribution,
+  n: number,
+): LatticeDistribution {
+  if (source.kind === "bernoulli") {
+    const p = source.mean;
+    const probs: number[] = [];
+    for (let k = 0; k <= n; k++) {
+      probs.push(binomialPMF(n, k, p));
+    }
+    return { offset: 0, step: 1, probs };
+  }
+  return latticePower(source.lattice, n);
+}
@@ -0,0 +1,125 @@
+import { describe, expect, it } from "vitest";
+import { binomialSum } from "./binomial";
+import {
+  erf,
+  erfc,
+  logBinomialCoefficient,
+  logFactorial,
+  logGamma,
+  regularizedBeta,
+} from "./special";
+
+describe("logGamma", () => {
+  it("matches log((x-1)!) at integers", () => {
+    expect(logGamma(1)).toBeCloseTo(0, 13);
+    expect(logGamma(2)).toBeCloseTo(0, 13);
+    expect(logGamma(6)).toBeCloseTo(Math.log(120), 13);
+    expect(logGamma(11)).toBeCloseTo(Math.log(3628800), 12);
+  });
+
+  it("matches reference values at non-integers", () => {
+    expect(logGamma(0.5)).toBeCloseTo(0.5 * Math.log(Math.PI), 13);
+    expect(logGamma(0.1)).toBeCloseTo(2.252712651734206, 12);
+    expect(logGamma(1000.5)).toBeCloseTo(5908.674175848678, 8);
+  });
+});
+
+describe("logFactorial", () => {
+  it("is exact for small arguments", () => {
+    expect(logFactorial(0)).toBe(0);
+    expect(logFactorial(1)).toBe(0);
+    expect(logFactorial(20)).toBeCloseTo(Math.log(2432902008176640000), 12);
+  });
+
+  it("is continuous across the lookup table boundary", () => {
+    expect(logFactorial(256) - logFactorial(255)).toBeCloseTo(Math.log(256), 10);
+  });
+
+  it("matches Stirling's series for large arguments", () => {
+    expect(logFactorial(10000)).toBeCloseTo(82108.92783681434, 7);
+  });
+});
+
+describe("logBinomialCoefficient", () => {
+  it("matches exact coefficients", () => {
+    expect(Math.exp(logBinomialCoefficient(10, 5))).toBeCloseTo(252, 9);
+    expect(Math.exp(logBinomialCoefficient(20, 10))).toBeCloseTo(184756, 7);
+    expect(Math.exp(logBinomialCoefficient(52, 5))).toBeCloseTo(2598960, 5);
+  });
+
+  it("stays finite where C(n, k) overflows", () => {
+    expect(Number.isFinite(logBinomialCoefficient(10000, 5000))).toBe(true);
+    expect(logBinomialCoefficient(10000, 5000)).toBeCloseTo(6926.641, 2);
+  });
+
+  it("is -Infinity outside the support", () => {
+    expect(logBinomialCoefficient(5, 6)).toBe(-Infinity);
+  });
+});
+
+describe("erf", () => {
+  // Abramowitz & Stegun Table 7.1
+  it.each([
+    [0, 0],
+    [0.1, 0.1124629160182849],
+    [0.5, 0.5204998778130465],
+    [1, 0.8427007929497149],
+    [1.5, 0.9661051464753108],
+    [2, 0.9953222650189527],
+    [3, 0.9999779095030014],
+  ])("erf(%f) = %f", (x, expected) => {
+    expect(erf(x)).toBeCloseTo(expected, 15);
+  });
+
+  it("is odd", () => {
+    expect(erf(-0.7)).toBe(-erf(0.7));
+  });
+});
+
+describe("erfc", () => {
+  it.each([
+    [0.5, 0.4795001221869535],
+    [1, 0.1572992070502851],
+    [2, 4.677734981047266e-3],
+    [3, 2.209049699858544e-5],
+    [5, 1.537459794428035e-12],
+    [10, 2.088487583762545e-45],
+    [26, 5.663192408856143e-296],
+  ])("keeps relative precision at erfc(%f)", (x, expected) => {
+    expect(erfc(x) / expected).toBeCloseTo(1, 12);
+  });
+
+  it("satisfies erfc(-x) = 2 - erfc(x)", () => {
+    expect(erfc(-1)).toBeCloseTo(1.8427007929497149, 15);
+  });
+
+  it("is 0 and 2 at the infinities", () => {
+    expect(erfc(Infinity)).toBe(0);
+    expect(erfc(-Infinity)).toBe(2);
+  });
+});
+
+describe("regularizedBeta", () => {
+  it("matches closed forms", () => {
+    expect(regularizedBeta(0.3, 1, 1)).toBeCloseTo(0.3, 14);
+    expect(regularizedBeta(0.6, 4, 1)).toBeCloseTo(0.6 ** 4, 14);
+    expect(regularizedBeta(0.6, 1, 3)).toBeCloseTo(1 - 0.4 ** 3, 14);
+  });
+
+  it("is 0 and 1 at the ends", () => {
+    expect(regularizedBeta(0, 2, 3)).toBe(0);
+    expect(regularizedBeta(1, 2, 3)).toBe(1);
+  });
+
+  it.each([
+    [10, 0.3, 4],
+    [50, 0.5, 30],
+    [200, 0.05, 3],
+    [1000, 0.4, 420],
+  ])("gives the binomial upper tail for n=%i, p=%f, k=%i", (n, p, k) => {
+    expect(regularizedBeta(p, k, n - k + 1)).toBeCloseTo(
+      binomialSum(n, p, k, n),
+      12,
+    );
+  });
+});
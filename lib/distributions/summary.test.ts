@@ -0,0 +1,87 @@
+import { describe, expect, it } from "vitest";
+import { sumAxisScale } from "./axis";
+import { binomialSum } from "./binomial";
+import {
+  DEFAULT_SOURCE_PARAMETERS,
+  SOURCE_OPTIONS,
+  sourceDistribution,
+  sumDistribution,
+} from "./sources";
+import { summarizeSum, sumExcessKurtosis, sumSkewness } from "./summary";
+
+describe("sumSkewness / sumExcessKurtosis", () => {
+  it("is (1 - 2p)/√(npq) for the binomial", () => {
+    const source = sourceDistribution("bernoulli", {
+      ...DEFAULT_SOURCE_PARAMETERS,
+      p: 0.1,
+    });
+    expect(sumSkewness(source, 50)).toBeCloseTo(0.8 / Math.sqrt(4.5), 14);
+    // (1 - 6pq)/(npq)
+    expect(sumExcessKurtosis(source, 50)).toBeCloseTo(0.46 / 4.5, 14);
+  });
+
+  it.each(SOURCE_OPTIONS.map((option) => option.kind))(
+    "matches the skewness and kurtosis of S_n for %s sources",
+    (kind) => {
+      const source = sourceDistribution(kind, DEFAULT_SOURCE_PARAMETERS);
+      const n = 4;
+      const sum = sumDistribution(source, n);
+      let mean = 0;
+      sum.probs.forEach((prob, j) => {
+        mean += prob * (sum.offset + j * sum.step);
+      });
+      let second = 0;
+      let third = 0;
+      let fourth = 0;
+      sum.probs.forEach((prob, j) => {
+        const d = sum.offset + j * sum.step - mean;
+        second += prob * d * d;
+        third += prob * d * d * d;
+        fourth += prob * d * d * d * d;
+      });
+      const digits = source.continuous ? 2 : 6;
+      expect(third / second ** 1.5).toBeCloseTo(sumSkewness(source, n), digits);
+      expect(fourth / (second * second) - 3).toBeCloseTo(
+        sumExcessKurtosis(source, n),
+        digits,
+      );
+    },
+  );
+});
+
+describe("summarizeSum", () => {
+  it("reports the range probability on the proportion scale", () => {
+    const source = sourceDistribution("bernoulli", DEFAULT_SOURCE_PARAMETERS);
+    const sum = sumDistribution(source, 100);
+    const scale = sumAxisScale(100, 0.5, 0.25, 1, "proportions");
+    const summary = summarizeSum(source, 100, sum, scale, {
+      from: 0.45,
+      to: 0.55,
+      outside: false,
+    });
+    expect(summary.mean).toBe(0.5);
+    expect(summary.stdDev).toBeCloseTo(0.05, 15);
+    expect(summary.skewness).toBe(0);
+    expect(summary.rangeProbability).toBeCloseTo(
+      binomialSum(100, 0.5, 45, 55),
+      14,
+    );
+    expect(summary.normalProbability).toBeCloseTo(0.6826894921370859, 12);
+  });
+
+  it("takes the complement for the outside of a range", () => {
+    const source = sourceDistribution("bernoulli", DEFAULT_SOURCE_PARAMETERS);
+    const sum = sumDistribution(source, 100);
+    const scale = sumAxisScale(100, 0.5, 0.25, 1, "counts");
+    const summary = summarizeSum(source, 100, sum, scale, {
+      from: 45,
+      to: 55,
+      outside: true,
+    });
+    expect(summary.rangeProbability).toBeCloseTo(
+      1 - binomialSum(100, 0.5, 45, 55),
+      14,
+    );
+    expect(summary.normalProbability).toBeCloseTo(1 - 0.6826894921370859, 12);
+  });
+});
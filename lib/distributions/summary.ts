@@ -0,0 +1,55 @@
+import type { AxisScale } from "./axis";
+import { normalIntegral } from "./normal";
+import { latticeRegionSum, regionProbability, type Region } from "./region";
+import type { SourceDistribution } from "./sources";
+import type { LatticeDistribution } from "./types";
+
+// Shape and range probability of S_n on one x-axis scale, for comparing
+// several configurations side by side
+export interface SumSummary {
+  mean: number;
+  stdDev: number;
+  skewness: number;
+  excessKurtosis: number;
+  // Exact probability of the selected region and its (uncorrected) normal
+  // approximation, with the region on the same scale
+  rangeProbability: number;
+  normalProbability: number;
+}
+
+// Skewness of a sum of n i.i.d. draws: γ_X/√n. It is unchanged by the
+// shift and positive scaling between the x-axis modes.
+export function sumSkewness(source: SourceDistribution, n: number): number {
+  return source.skewness / Math.sqrt(n);
+}
+
+// Excess kurtosis of a sum of n i.i.d. draws: κ_X/n
+export function sumExcessKurtosis(
+  source: SourceDistribution,
+  n: number,
+): number {
+  return source.excessKurtosis / n;
+}
+
+export function summarizeSum(
+  source: SourceDistribution,
+  n: number,
+  sum: LatticeDistribution,
+  scale: AxisScale,
+  region: Region,
+): SumSummary {
+  return {
+    mean: scale.mean,
+    stdDev: scale.stdDev,
+    skewness: sumSkewness(source, n),
+    excessKurtosis: sumExcessKurtosis(source, n),
+    rangeProbability: latticeRegionSum(sum, {
+      ...region,
+      from: scale.toK(region.from),
+      to: scale.toK(region.to),
+    }),
+    normalProbability: regionProbability(region, (from, to) =>
+      normalIntegral(from, to, scale.mean, scale.stdDev),
+    ),
+  };
+}
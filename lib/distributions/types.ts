@@ -0,0 +1,89 @@
+// Closed interval of real numbers a distribution is supported on.
+// Bounds may be infinite (e.g. the normal distribution).
+export interface ContinuousSupport {
+  kind: "continuous";
+  min: number;
+  max: number;
+}
+
+// Consecutive integers {min, min + 1, ..., max}.
+export interface DiscreteSupport {
+  kind: "discrete";
+  min: number;
+  max: number;
+}
+
+export type Support = ContinuousSupport | DiscreteSupport;
+
+interface BaseDistribution {
+  name: string;
+  mean: number;
+  variance: number;
+  stdDev: number;
+  cdf(x: number): number;
+}
+
+export interface DiscreteDistribution extends BaseDistribution {
+  support: DiscreteSupport;
+  pmf(k: number): number;
+}
+
+export interface ContinuousDistribution extends BaseDistribution {
+  support: ContinuousSupport;
+  pdf(x: number): number;
+  quantile(q: number): number;
+}
+
+export type Distribution = DiscreteDistribution | ContinuousDistribution;
+
+export interface BinomialParameters {
+  n: number;
+  p: number;
+}
+
+export interface NormalParameters {
+  mean: number;
+  stdDev: number;
+}
+
+// Distribution on the evenly spaced points offset + j·step, j = 0, 1, ...,
+// with probs[j] the probability of the j-th point. Continuous sources are
+// discretized onto such a lattice before convolving.
+export interface LatticeDistribution {
+  offset: number;
+  step: number;
+  probs: number[];
+}
+
+// What the chart's y axis measures: probability per bar, or probability
+// density (bar height divided by bar width)
+export type YAxisMode = "probability" | "density";
+
+// One bar of the binomial chart together with the normal overlay value at
+// the same x position.
+export interface BinomialChartPoint {
+  x: number;
+  y: number;
+  normalY: number;
+  label: string;
+  // Observed frequency from the Monte Carlo simulation, on the same scale
+  // as y
+  empiricalY?: number;
+  // First-order Edgeworth density, on the same scale as normalY
+  edgeworthY?: number;
+  // Poisson(np) probability of the same bar, on the same scale as y
+  poissonY?: number;
+}
+
+// Thrown when a distribution is constructed or evaluated with parameters
+// outside of its domain (e.g. p > 1 or a non-integer number of trials).
+export class InvalidParameterError extends Error {
+  constructor(
+    public readonly parameter: string,
+    public readonly value: number,
+    reason: string,
+  ) {
+    super(`Invalid parameter ${parameter}=${value}: ${reason}`);
+    this.name = "InvalidParameterError";
+  }
+}
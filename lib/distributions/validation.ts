@@ -0,0 +1,35 @@
+import { InvalidParameterError } from "./types";
+
+// n must be a non-negative integer and p a probability in [0, 1]
+export function assertBinomialParameters(n: number, p: number): void {
+  if (!Number.isInteger(n) || n < 0) {
+    throw new InvalidParameterError("n", n, "must be a non-negative integer");
+  }
+  if (!Number.isFinite(p) || p < 0 || p > 1) {
+    throw new InvalidParameterError("p", p, "must be in [0, 1]");
+  }
+}
+
+// The mean must be finite and the standard deviation strictly positive
+export function assertNormalParameters(mean: number, stdDev: number): void {
+  if (!Number.isFinite(mean)) {
+    throw new InvalidParameterError("mean", mean, "must be finite");
+  }
+  if (!Number.isFinite(stdDev) || stdDev <= 0) {
+    throw new InvalidParameterError("stdDev", stdDev, "must be positive");
+  }
+}
+
+// Probabilities passed to quantile functions must lie in [0, 1]
+export function assertProbability(parameter: string, value: number): void {
+  if (!Number.isFinite(value) || value < 0 || value > 1) {
+    throw new InvalidParameterError(parameter, value, "must be in [0, 1]");
+  }
+}
+
+// A Poisson mean must be finite and non-negative
+export function assertPoissonParameter(lambda: number): void {
+  if (!Number.isFinite(lambda) || lambda < 0) {
+    throw new InvalidParameterError("lambda", lambda, "must be non-negative");
+  }
+}
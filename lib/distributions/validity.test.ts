@@ -0,0 +1,51 @@
+import { describe, expect, it } from "vitest";
+import {
+  checkRulesOfThumb,
+  DEFAULT_RULE_THRESHOLDS,
+  ruleVerdict,
+} from "./validity";
+
+describe("checkRulesOfThumb", () => {
+  const byId = (checks: ReturnType<typeof checkRulesOfThumb>) =>
+    Object.fromEntries(checks.map((check) => [check.id, check]));
+
+  it("measures each rule's quantity", () => {
+    // n = 100, p = 0.2: np = 20, n(1-p) = 80, npq = 16, σ = 4
+    const checks = byId(checkRulesOfThumb(100, 0.2, 0));
+    expect(checks.np5.value).toBeCloseTo(20, 12);
+    expect(checks.np10.value).toBeCloseTo(20, 12);
+    expect(checks.npq9.value).toBeCloseTo(16, 12);
+    expect(checks.threeSigma.value).toBeCloseTo(5, 12);
+    Object.values(checks).forEach((check) => expect(check.passes).toBe(true));
+  });
+
+  it("uses the smaller of np and n(1 - p)", () => {
+    const checks = byId(checkRulesOfThumb(100, 0.93, 0));
+    expect(checks.np5.value).toBeCloseTo(7, 12);
+    expect(checks.np5.passes).toBe(true);
+    expect(checks.np10.passes).toBe(false);
+  });
+
+  it("takes custom thresholds", () => {
+    const checks = byId(
+      checkRulesOfThumb(100, 0.2, 0, { ...DEFAULT_RULE_THRESHOLDS, np10: 25 }),
+    );
+    expect(checks.np10.threshold).toBe(25);
+    expect(checks.np10.passes).toBe(false);
+  });
+
+  it("fails every rule without spread", () => {
+    checkRulesOfThumb(50, 0, 1).forEach((check) => {
+      expect(check.passes).toBe(false);
+    });
+  });
+});
+
+describe("ruleVerdict", () => {
+  it("compares the rule with the measured error", () => {
+    expect(ruleVerdict(true, 0.01, 0.05)).toBe("agrees");
+    expect(ruleVerdict(false, 0.2, 0.05)).toBe("agrees");
+    expect(ruleVerdict(false, 0.01, 0.05)).toBe("tooStrict");
+    expect(ruleVerdict(true, 0.2, 0.05)).toBe("tooLoose");
+  });
+});
@@ -0,0 +1,95 @@
+import { assertBinomialParameters } from "./validation";
+
+// Textbook conditions for using the normal approximation to Binomial(n, p)
+export type RuleOfThumbId = "np5" | "np10" | "npq9" | "threeSigma";
+
+// Each rule measures one quantity of (n, p) and passes when it reaches the
+// threshold
+export interface RuleOfThumb {
+  id: RuleOfThumbId;
+  defaultThreshold: number;
+  measure(n: number, p: number): number;
+}
+
+// Fewer of the two outcomes expected
+function expectedMinority(n: number, p: number): number {
+  return n * Math.min(p, 1 - p);
+}
+
+export const RULES_OF_THUMB: RuleOfThumb[] = [
+  {
+    id: "np5",
+    defaultThreshold: 5,
+    measure: expectedMinority,
+  },
+  {
+    id: "np10",
+    defaultThreshold: 10,
+    measure: expectedMinority,
+  },
+  {
+    id: "npq9",
+    defaultThreshold: 9,
+    measure: (n, p) => n * p * (1 - p),
+  },
+  {
+    // μ ± kσ lies inside [0, n] for every k up to this many σ
+    id: "threeSigma",
+    defaultThreshold: 3,
+    measure: (n, p) => expectedMinority(n, p) / Math.sqrt(n * p * (1 - p)),
+  },
+];
+
+export const DEFAULT_RULE_THRESHOLDS = Object.fromEntries(
+  RULES_OF_THUMB.map((rule) => [rule.id, rule.defaultThreshold]),
+) as Record<RuleOfThumbId, number>;
+
+// Kolmogorov distance below which the approximation counts as good when
+// judging the rules
+export const DEFAULT_ERROR_TOLERANCE = 0.05;
+
+// Whether a rule's verdict matches the measured error: "too strict" rules
+// reject a good approximation, "too loose" ones accept a poor one
+export type RuleVerdict = "agrees" | "tooStrict" | "tooLoose";
+
+export interface RuleCheck {
+  id: RuleOfThumbId;
+  value: number;
+  threshold: number;
+  passes: boolean;
+  verdict: RuleVerdict;
+}
+
+export function ruleVerdict(
+  passes: boolean,
+  error: number,
+  tolerance: number,
+): RuleVerdict {
+  const good = error <= tolerance;
+  if (passes === good) return "agrees";
+  return passes ? "tooLoose" : "tooStrict";
+}
+
+// Evaluate every rule at (n, p) and compare it with the measured error.
+// With p = 0 or 1 there is no spread, so every rule fails.
+export function checkRulesOfThumb(
+  n: number,
+  p: number,
+  error: number,
+  thresholds: Record<RuleOfThumbId, number> = DEFAULT_RULE_THRESHOLDS,
+  tolerance: number = DEFAULT_ERROR_TOLERANCE,
+): RuleCheck[] {
+  assertBinomialParameters(n, p);
+  return RULES_OF_THUMB.map((rule) => {
+    const value = p > 0 && p < 1 ? rule.measure(n, p) : 0;
+    const threshold = thresholds[rule.id];
+    const passes = value >= threshold;
+    return {
+      id: rule.id,
+      value,
+      threshold,
+      passes,
+      verdict: ruleVerdict(passes, error, tolerance),
+    };
+  });
+}
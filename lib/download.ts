@@ -0,0 +1,166 @@
+// Browser-only helpers for saving exports as files
+
+// Firefox and Safari can abort a download or image load whose object URL is
+// revoked in the same task, so URLs are released a little later
+const REVOKE_DELAY_MS = 1000;
+
+function revokeLater(url: string): void {
+  setTimeout(() => URL.revokeObjectURL(url), REVOKE_DELAY_MS);
+}
+
+// Save a blob under the given file name
+export function downloadBlob(blob: Blob, fileName: string): void {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  revokeLater(url);
+}
+
+export function downloadText(
+  text: string,
+  fileName: string,
+  type: string,
+): void {
+  downloadBlob(new Blob([text], { type }), fileName);
+}
+
+// The chart's <svg> inside a Recharts container. Legend icons are small
+// svgs of their own, so only the wrapper's direct child is the chart.
+export function findChartSvg(container: HTMLElement): SVGSVGElement | null {
+  return container.querySelector<SVGSVGElement>(".recharts-wrapper > svg");
+}
+
+// A self-contained copy of a rendered chart: explicit size and namespace, a
+// solid background (the page's dark theme would otherwise be lost) and the
+// page font
+export function standaloneSvg(
+  svg: SVGSVGElement,
+  background: string,
+): { text: string; width: number; height: number } {
+  const { width, height } = svg.getBoundingClientRect();
+  const clone = svg.cloneNode(true) as SVGSVGElement;
+  clone.setAttribute("xmlns", "http://www.w3.org/2000/svg");
+  clone.setAttribute("width", String(width));
+  clone.setAttribute("height", String(height));
+  clone.setAttribute("viewBox", `0 0 ${width} ${height}`);
+  clone.style.fontFamily = getComputedStyle(svg).fontFamily;
+
+  const rect = document.createElementNS("http://www.w3.org/2000/svg", "rect");
+  rect.setAttribute("width", "100%");
+  rect.setAttribute("height", "100%");
+  rect.setAttribute("fill", background);
+  clone.insertBefore(rect, clone.firstChild);
+
+  return {
+    text: new XMLSerializer().serializeToString(clone),
+    width,
+    height,
+  };
+}
+
+// Draw SVG markup onto a canvas context over the given area
+async function drawSvg(
+  context: CanvasRenderingContext2D,
+  svgText: string,
+  width: number,
+  height: number,
+): Promise<void> {
+  const url = URL.createObjectURL(
+    new Blob([svgText], { type: "image/svg+xml" }),
+  );
+  try {
+    const image = new Image();
+    image.src = url;
+    await image.decode();
+    context.drawImage(image, 0, 0, width, height);
+  } finally {
+    revokeLater(url);
+  }
+}
+
+// A canvas of the given size at a pixel ratio, with its 2D context scaled
+// to match
+function scaledCanvas(
+  width: number,
+  height: number,
+  pixelRatio: number,
+): { canvas: HTMLCanvasElement; context: CanvasRenderingContext2D } {
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.round(width * pixelRatio);
+  canvas.height = Math.round(height * pixelRatio);
+  const context = canvas.getContext("2d");
+  if (!context) throw new Error("Canvas 2D context is not available");
+  context.scale(pixelRatio, pixelRatio);
+  return { canvas, context };
+}
+
+// Rasterize SVG markup to a PNG at the given pixel ratio
+export async function svgToPngBlob(
+  svgText: string,
+  width: number,
+  height: number,
+  pixelRatio: number = 2,
+): Promise<Blob> {
+  const { canvas, context } = scaledCanvas(width, height, pixelRatio);
+  await drawSvg(context, svgText, width, height);
+  return await new Promise<Blob>((resolve, reject) =>
+    canvas.toBlob(
+      (blob) =>
+        blob ? resolve(blob) : reject(new Error("PNG encoding failed")),
+      "image/png",
+    ),
+  );
+}
+
+// A WebM video recorded in the browser, one drawn frame at a time. Frames
+// are shown for as long as they stay on the canvas, so the video keeps the
+// timing of the calls to addFrame.
+export interface VideoRecorder {
+  // Draw SVG markup as the next frame
+  addFrame(svgText: string): Promise<void>;
+  // Finish the video
+  stop(): Promise<Blob>;
+}
+
+const WEBM_TYPES = ["video/webm;codecs=vp9", "video/webm;codecs=vp8", "video/webm"];
+
+export function recordVideo(
+  width: number,
+  height: number,
+  pixelRatio: number = 1,
+): VideoRecorder {
+  const mimeType =
+    typeof MediaRecorder === "undefined"
+      ? undefined
+      : WEBM_TYPES.find((type) => MediaRecorder.isTypeSupported(type));
+  if (!mimeType) {
+    throw new Error("This browser cannot record WebM video");
+  }
+  const { canvas, context } = scaledCanvas(width, height, pixelRatio);
+  // With a frame rate of 0 the stream only takes a frame when asked to
+  const stream = canvas.captureStream(0);
+  const [track] = stream.getVideoTracks() as CanvasCaptureMediaStreamTrack[];
+  const recorder = new MediaRecorder(stream, { mimeType });
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (event) => chunks.push(event.data);
+  recorder.start();
+
+  return {
+    async addFrame(svgText) {
+      await drawSvg(context, svgText, width, height);
+      track.requestFrame();
+    },
+    stop: () =>
+      new Promise<Blob>((resolve) => {
+        recorder.onstop = () => {
+          track.stop();
+          resolve(new Blob(chunks, { type: "video/webm" }));
+        };
+        recorder.stop();
+      }),
+  };
+}
@@ -0,0 +1,90 @@
+import { describe, expect, it } from "vitest";
+import {
+  chartDataColumns,
+  exportFileName,
+  exportReport,
+  toCSV,
+} from "./export";
+import { DEFAULT_VISUALIZATION_STATE } from "./visualizationState";
+
+describe("toCSV", () => {
+  it("writes a header and one line per row", () => {
+    const csv = toCSV(
+      [
+        { x: 0, y: 0.25, label: "k=0" },
+        { x: 1, y: 0.5, label: "k=1" },
+      ],
+      ["x", "y", "label"],
+    );
+    expect(csv).toBe("x,y,label\n0,0.25,k=0\n1,0.5,k=1\n");
+  });
+
+  it("quotes fields with separators and leaves missing values empty", () => {
+    const csv = toCSV(
+      [{ a: 'say "hi", then', b: null }, { a: "line\nbreak" }],
+      ["a", "b"],
+    );
+    expect(csv).toBe('a,b\n"say ""hi"", then",\n"line\nbreak",\n');
+  });
+});
+
+describe("chartDataColumns", () => {
+  const point = { x: 0, y: 0.5, normalY: 0.4, label: "k=0" };
+
+  it("lists the exact and normal columns", () => {
+    expect(chartDataColumns([point])).toEqual(["x", "y", "normalY", "label"]);
+  });
+
+  it("adds the simulated frequency when present", () => {
+    expect(chartDataColumns([{ ...point, empiricalY: 0.45 }])).toContain(
+      "empiricalY",
+    );
+  });
+
+  it("puts the overlays after the label in a fixed order", () => {
+    expect(
+      chartDataColumns([
+        { ...point, empiricalY: 0.45, poissonY: 0.48, edgeworthY: 0.41 },
+      ]),
+    ).toEqual([
+      "x",
+      "y",
+      "normalY",
+      "label",
+      "edgeworthY",
+      "poissonY",
+      "empiricalY",
+    ]);
+  });
+});
+
+describe("exportReport", () => {
+  it("round-trips through JSON", () => {
+    const report = exportReport(
+      DEFAULT_VISUALIZATION_STATE,
+      {
+        range: [20, 30],
+        integralBounds: [20, 30],
+        exactProbability: 0.88,
+        normalProbability: 0.84,
+        difference: 0.04,
+        metrics: {
+          kolmogorov: 0.05,
+          totalVariation: 0.01,
+          maxLocalError: 0.002,
+          berryEsseenBound: 0.07,
+        },
+      },
+      [{ x: 20, y: 0.04 }],
+    );
+    expect(JSON.parse(JSON.stringify(report))).toEqual(report);
+  });
+});
+
+describe("exportFileName", () => {
+  it("names the file after the source, n and view", () => {
+    expect(exportFileName(DEFAULT_VISUALIZATION_STATE, "distribution", "csv")).toBe(
+      "clt-bernoulli-n50-distribution.csv",
+    );
+  });
+});
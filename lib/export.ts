@@ -0,0 +1,100 @@
+import type {
+  ApproximationMetrics,
+  BinomialChartPoint,
+  ConfidenceIntervalMethod,
+  RejectionRegion,
+  TestResult,
+} from "./distributions";
+import type { VisualizationState } from "./visualizationState";
+
+export type CSVValue = string | number | boolean | null | undefined;
+
+// Quote a CSV field when it contains a separator, quote or line break
+function csvField(value: CSVValue): string {
+  if (value === null || value === undefined) return "";
+  const text = String(value);
+  if (/[",\r\n]/.test(text)) return `"${text.replace(/"/g, '""')}"`;
+  return text;
+}
+
+// CSV with a header row, one line per row, in the given column order
+export function toCSV(
+  rows: Record<string, CSVValue>[],
+  columns: string[],
+): string {
+  const lines = [columns.map(csvField).join(",")];
+  rows.forEach((row) => {
+    lines.push(columns.map((column) => csvField(row[column])).join(","));
+  });
+  return `${lines.join("\n")}\n`;
+}
+
+// Columns of the distribution chart table; the Edgeworth curve, the Poisson
+// probabilities and the simulated frequency are only included when they are
+// on the chart
+export function chartDataColumns(points: BinomialChartPoint[]): string[] {
+  const columns = ["x", "y", "normalY", "label"];
+  if (points.some((point) => point.edgeworthY !== undefined)) {
+    columns.push("edgeworthY");
+  }
+  if (points.some((point) => point.poissonY !== undefined)) {
+    columns.push("poissonY");
+  }
+  if (points.some((point) => point.empiricalY !== undefined)) {
+    columns.push("empiricalY");
+  }
+  return columns;
+}
+
+// The probability comparison panel, in numbers
+export interface ComparisonResults {
+  // Selected range on the current x-axis scale, or the interval whose
+  // outside is selected. A tail's open end is ±∞, which JSON writes as null.
+  range: [number, number];
+  // Bounds of the normal integral (after any continuity correction)
+  integralBounds: [number, number];
+  exactProbability: number;
+  normalProbability: number;
+  difference: number;
+  // First-order Edgeworth integral over the same bounds, when shown
+  edgeworthProbability?: number;
+  // Poisson(np) probability of the same range, when shown
+  poissonProbability?: number;
+  metrics: ApproximationMetrics;
+  // The hypothesis test workbench, when it is on
+  hypothesisTest?: HypothesisTestResults;
+}
+
+// Tests of H₀: p = p₀ and confidence intervals for the observed count
+export interface HypothesisTestResults {
+  zTest: TestResult;
+  exactTest: TestResult;
+  // z-test rejection region on the count scale
+  rejectionRegion: RejectionRegion;
+  confidenceIntervals: Record<ConfidenceIntervalMethod, [number, number]>;
+}
+
+export interface ExportReport {
+  parameters: VisualizationState;
+  results: ComparisonResults;
+  data: Record<string, CSVValue>[];
+}
+
+// Everything needed to reproduce a figure: the configuration, the numbers
+// in the comparison panel and the plotted table
+export function exportReport(
+  parameters: VisualizationState,
+  results: ComparisonResults,
+  data: Record<string, CSVValue>[],
+): ExportReport {
+  return { parameters, results, data };
+}
+
+// File name for an export, e.g. "clt-bernoulli-n50-distribution.csv"
+export function exportFileName(
+  parameters: VisualizationState,
+  view: string,
+  extension: string,
+): string {
+  return `clt-${parameters.source}-n${parameters.n}-${view}.${extension}`;
+}
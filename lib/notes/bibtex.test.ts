@@ -0,0 +1,93 @@
+import { describe, expect, it } from "vitest";
+import { citationLabel, formatReference, parseBibtex } from "./bibtex";
+import { ContentError } from "./types";
+
+const SOURCE = `
+@comment{Shared bibliography}
+@article{demoivre1733,
+  author  = {{De Moivre}, Abraham},
+  title   = {Approximatio ad summam},
+  journal = "Philosophical Transactions",
+  volume  = 33,
+  pages   = {5--12},
+  year    = {1733}
+}
+@book{feller1968,
+  author = {William Feller and Rick Durrett and Patrick Billingsley},
+  title = {An {Introduction}},
+  volume = {1}, edition = {3rd},
+  publisher = {Wiley}, address = {New York}, year = {1968}
+}
+@online{gundersen2025,
+  author = {Gundersen, Gregory}, title = {De Moivre–Laplace Theorem},
+  year = {2025}, month = {3}, day = {8}, url = {https://example.com/post}
+}`;
+
+describe("parseBibtex", () => {
+  it("reads entries in file order and skips comments", () => {
+    const entries = parseBibtex(SOURCE);
+    expect(entries.map((entry) => entry.key)).toEqual([
+      "demoivre1733",
+      "feller1968",
+      "gundersen2025",
+    ]);
+    expect(entries[0]).toEqual({
+      type: "article",
+      key: "demoivre1733",
+      fields: {
+        title: "Approximatio ad summam",
+        journal: "Philosophical Transactions",
+        volume: "33",
+        pages: "5–12",
+        year: "1733",
+      },
+      authors: [{ last: "De Moivre", first: "Abraham" }],
+    });
+    expect(entries[1].fields.title).toBe("An Introduction");
+  });
+
+  it("turns LaTeX into text and falls back to the editors", () => {
+    const [entry] = parseBibtex(
+      '@book{who, editor = {{World Health Organization}}, title = {Th{\\\'e}orie \\& {\\"U}bung}}',
+    );
+    expect(entry.fields.title).toBe("Théorie & Übung");
+    expect(entry.authors).toEqual([{ last: "World Health Organization", first: "" }]);
+  });
+
+  it("rejects unbalanced braces", () => {
+    expect(() => parseBibtex("@book{key, title = {Open}")).toThrow(ContentError);
+  });
+});
+
+describe("formatReference", () => {
+  const [article, book, online] = parseBibtex(SOURCE);
+  const text = (entry: typeof article) =>
+    formatReference(entry).segments.map((segment) => segment.text).join("");
+
+  it("formats articles, books and web pages in author-year style", () => {
+    expect(text(article)).toBe(
+      "De Moivre, A. (1733). Approximatio ad summam. Philosophical Transactions, 33, 5–12.",
+    );
+    expect(text(book)).toBe(
+      "Feller, W., Durrett, R., & Billingsley, P. (1968). An Introduction (Vol. 1, 3rd ed.). New York: Wiley.",
+    );
+    expect(text(online)).toBe("Gundersen, G. (2025, March 8). De Moivre–Laplace Theorem.");
+    expect(formatReference(online).url).toBe("https://example.com/post");
+  });
+
+  it("rejects a url that is not a web or mail address", () => {
+    const [entry] = parseBibtex("@misc{bad, title = {T}, url = {javascript:alert}}");
+    expect(() => formatReference(entry)).toThrow(ContentError);
+  });
+
+  it("sets the authors in bold and the container in italics", () => {
+    const { segments } = formatReference(article);
+    expect(segments[0]).toEqual({ text: "De Moivre, A.", style: "bold" });
+    expect(segments).toContainEqual({ text: "Philosophical Transactions", style: "italic" });
+  });
+
+  it("labels citations by surname and year", () => {
+    expect(citationLabel(article)).toBe("De Moivre, 1733");
+    expect(citationLabel(book)).toBe("Feller et al., 1968");
+  });
+});
@@ -0,0 +1,155 @@
+// Reading a BibTeX file and formatting its entries in author-year style,
+// e.g. "Feller, W. (1968). An Introduction ... (Vol. 1, 3rd ed.). New York:
+// Wiley."
+
+import { parse, type Library } from "@retorquere/bibtex-parser";
+import {
+  ContentError,
+  type BibEntry,
+  type CitationSegment,
+  type Person,
+  type Reference,
+} from "./types";
+import { isSafeHref } from "./markdown";
+
+const MONTHS = [
+  "January",
+  "February",
+  "March",
+  "April",
+  "May",
+  "June",
+  "July",
+  "August",
+  "September",
+  "October",
+  "November",
+  "December",
+];
+
+// The entries in file order, with LaTeX such as {\"o} or -- turned into
+// Unicode. Titles are kept as written rather than sentence-cased.
+export function parseBibtex(source: string): BibEntry[] {
+  let library: Library;
+  try {
+    library = parse(source, { english: false });
+  } catch (error) {
+    throw new ContentError((error as Error).message);
+  }
+  if (library.errors.length > 0) throw new ContentError(library.errors[0].error);
+  // Accents come out as combining marks; compose them
+  const clean = (value: string) => value.normalize("NFC");
+  return library.entries.map(({ type, key, fields }) => {
+    const text: Record<string, string> = {};
+    Object.entries(fields).forEach(([name, value]) => {
+      if (typeof value === "string") {
+        text[name] = clean(value);
+      } else if (value.every((item) => typeof item === "string")) {
+        text[name] = clean(value.join("; "));
+      }
+    });
+    const creators = fields.author ?? fields.editor ?? [];
+    return {
+      type,
+      key,
+      fields: text,
+      authors: creators.map((creator) => ({
+        last: clean(creator.lastName ?? creator.name ?? ""),
+        first: clean(creator.firstName ?? ""),
+      })),
+    };
+  });
+}
+
+// "Pierre Simon" -> "P. S.", "Jean-Baptiste" -> "J.-B."
+function initials(first: string): string {
+  return first
+    .split(/\s+/)
+    .filter(Boolean)
+    .map((word) =>
+      word
+        .split("-")
+        .map((part) => `${part[0]}.`)
+        .join("-"),
+    )
+    .join(" ");
+}
+
+function formatAuthors(names: Person[]): string {
+  const formatted = names.map(({ last, first }) =>
+    first ? `${last}, ${initials(first)}` : last,
+  );
+  if (formatted.length <= 1) return formatted[0] ?? "";
+  return `${formatted.slice(0, -1).join(", ")}, & ${formatted[formatted.length - 1]}`;
+}
+
+// "Gundersen, 2025", "De Moivre & Laplace, 1733", "Feller et al., 1968"
+export function citationLabel(entry: BibEntry): string {
+  const names = entry.authors;
+  const year = entry.fields.year ?? "n.d.";
+  if (names.length === 0) return `${entry.fields.title ?? entry.key}, ${year}`;
+  const authors =
+    names.length === 1
+      ? names[0].last
+      : names.length === 2
+        ? `${names[0].last} & ${names[1].last}`
+        : `${names[0].last} et al.`;
+  return `${authors}, ${year}`;
+}
+
+// "1733", or "2025, March 8" when the entry has a month and day
+function formatDate(fields: Record<string, string>): string {
+  const year = fields.year ?? "n.d.";
+  if (!fields.month) return year;
+  const index = Number(fields.month) - 1;
+  const month =
+    MONTHS[index] ??
+    MONTHS.find((name) => name.toLowerCase().startsWith(fields.month.toLowerCase())) ??
+    fields.month;
+  return fields.day ? `${year}, ${month} ${fields.day}` : `${year}, ${month}`;
+}
+
+// Ends a sentence with a period unless it ends in punctuation already
+const sentence = (text: string) => (/[.?!]$/.test(text) ? text : `${text}.`);
+
+export function formatReference(entry: BibEntry): Reference {
+  const { fields } = entry;
+  const segments: CitationSegment[] = [];
+  const add = (text: string, style: CitationSegment["style"] = "plain") =>
+    segments.push({ text, style });
+
+  const authors = formatAuthors(entry.authors);
+  if (authors) add(authors, "bold");
+  add(`${authors ? " " : ""}(${formatDate(fields)}). `);
+
+  const title = fields.title ?? entry.key;
+  const container = fields.journal ?? fields.booktitle;
+  if (entry.type === "article" || entry.type === "incollection" || entry.type === "inproceedings") {
+    add(`${sentence(title)} `);
+    if (container) add(container, "italic");
+    const details = [fields.volume, fields.pages].filter(Boolean).join(", ");
+    add(details ? `, ${details}.` : ".");
+  } else if (entry.type === "book") {
+    add(title, "italic");
+    const edition = [
+      fields.volume ? `Vol. ${fields.volume}` : "",
+      fields.edition ? `${fields.edition} ed.` : "",
+    ].filter(Boolean);
+    add(edition.length > 0 ? ` (${edition.join(", ")}).` : ".");
+    const publisher = [fields.address, fields.publisher].filter(Boolean).join(": ");
+    if (publisher) add(` ${sentence(publisher)}`);
+  } else {
+    add(sentence(title));
+    if (fields.howpublished) add(` ${sentence(fields.howpublished)}`);
+  }
+
+  if (fields.url && !isSafeHref(fields.url)) {
+    throw new ContentError(`url of ${entry.key} is not a web or mail address`);
+  }
+  return {
+    key: entry.key,
+    label: citationLabel(entry),
+    segments,
+    url: fields.url ?? null,
+  };
+}
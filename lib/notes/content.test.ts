@@ -0,0 +1,29 @@
+import { describe, expect, it } from "vitest";
+import { loadBibliography, loadNotes, loadReferences } from "./content";
+
+// The authored content itself: every file must parse and every reference
+// must resolve, or the build fails
+describe("content", () => {
+  it("loads the bibliography", () => {
+    expect(loadBibliography().map((entry) => entry.key)).toContain("gundersen2025");
+  });
+
+  it("loads the notes in order", () => {
+    const notes = loadNotes();
+    expect(notes[0].slug).toBe("de-moivre-laplace");
+    expect(notes[0].toc.length).toBeGreaterThan(0);
+    expect(notes.map((note) => note.order)).toEqual(
+      [...notes.map((note) => note.order)].sort((a, b) => a - b),
+    );
+  });
+
+  it("loads the references page", () => {
+    const references = loadReferences();
+    expect(references.blocks.some((block) => block.type === "bibliography")).toBe(true);
+    expect(
+      references.blocks.flatMap((block) =>
+        block.type === "directive" ? [block.name] : [],
+      ),
+    ).toEqual(["proportions-graph", "counts-graph"]);
+  });
+});
@@ -0,0 +1,55 @@
+// Loading the authored notes from the content directory. This reads files,
+// so it only runs at build time, from the page's server component.
+
+import { readdirSync, readFileSync } from "node:fs";
+import path from "node:path";
+import { parseBibtex } from "./bibtex";
+import { buildDocument } from "./document";
+import { ContentError, type BibEntry, type NoteDocument } from "./types";
+
+export const CONTENT_DIRECTORY = path.join(process.cwd(), "content");
+
+function load(
+  file: string,
+  bibliography: BibEntry[],
+  directory: string,
+): NoteDocument {
+  const slug = path.basename(file, ".md");
+  try {
+    return buildDocument(
+      slug,
+      readFileSync(path.join(directory, file), "utf8"),
+      bibliography,
+    );
+  } catch (error) {
+    if (error instanceof ContentError) throw new ContentError(error.message, file);
+    throw error;
+  }
+}
+
+// references.bib, shared by every page
+export function loadBibliography(directory: string = CONTENT_DIRECTORY): BibEntry[] {
+  try {
+    return parseBibtex(readFileSync(path.join(directory, "references.bib"), "utf8"));
+  } catch (error) {
+    if (error instanceof ContentError) {
+      throw new ContentError(error.message, "references.bib");
+    }
+    throw error;
+  }
+}
+
+// Every notes/*.md file, by the order in its front matter and then by title
+export function loadNotes(directory: string = CONTENT_DIRECTORY): NoteDocument[] {
+  const bibliography = loadBibliography(directory);
+  const notesDirectory = path.join(directory, "notes");
+  return readdirSync(notesDirectory)
+    .filter((file) => file.endsWith(".md"))
+    .map((file) => load(file, bibliography, notesDirectory))
+    .sort((a, b) => a.order - b.order || a.title.localeCompare(b.title));
+}
+
+// The References/Notes page, references.md
+export function loadReferences(directory: string = CONTENT_DIRECTORY): NoteDocument {
+  return load("references.md", loadBibliography(directory), directory);
+}
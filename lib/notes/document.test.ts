@@ -0,0 +1,94 @@
+import { describe, expect, it } from "vitest";
+import { parseBibtex } from "./bibtex";
+import { buildDocument } from "./document";
+import { ContentError } from "./types";
+
+const BIBLIOGRAPHY = parseBibtex(`
+@book{feller1968, author = {Feller, William}, title = {Probability}, year = {1968}}
+@book{durrett2019, author = {Durrett, Rick}, title = {Probability}, year = {2019}}
+`);
+
+const SOURCE = `---
+title: A Proof
+author: A. Author
+order: 3
+---
+
+## First
+
+$$
+a = b
+\\label{eq:a}
+$$
+
+$$ c = d $$
+
+### Detail
+
+$$ e = f \\label{eq:e} $$
+
+## Second
+
+By \\eqref{eq:e} and \\eqref{eq:a} [@durrett2019].
+`;
+
+describe("buildDocument", () => {
+  const note = buildDocument("proof", SOURCE, BIBLIOGRAPHY);
+
+  it("reads the front matter", () => {
+    expect(note.slug).toBe("proof");
+    expect(note.title).toBe("A Proof");
+    expect(note.author).toBe("A. Author");
+    expect(note.order).toBe(3);
+  });
+
+  it("lists the sections", () => {
+    expect(note.toc.map(({ id, level }) => [id, level])).toEqual([
+      ["first", 2],
+      ["detail", 3],
+      ["second", 2],
+    ]);
+  });
+
+  it("numbers labelled equations and resolves references to them", () => {
+    const equations = note.blocks.filter((block) => block.type === "math");
+    expect(equations).toEqual([
+      { type: "math", tex: "a = b \\tag{1}", label: "eq:a", number: 1 },
+      { type: "math", tex: "c = d" },
+      { type: "math", tex: "e = f \\tag{2}", label: "eq:e", number: 2 },
+    ]);
+    const last = note.blocks[note.blocks.length - 1];
+    expect(last.type === "paragraph" && last.children).toContainEqual({
+      type: "eqref",
+      label: "eq:e",
+      number: 2,
+    });
+  });
+
+  it("labels citations and lists the cited entries", () => {
+    const last = note.blocks[note.blocks.length - 1];
+    expect(last.type === "paragraph" && last.children).toContainEqual({
+      type: "cite",
+      keys: ["durrett2019"],
+      labels: ["Durrett, 2019"],
+    });
+    expect(note.references.map((reference) => reference.key)).toEqual(["durrett2019"]);
+  });
+
+  it("expands ::bibliography to every entry", () => {
+    const { blocks } = buildDocument("refs", "::bibliography\n", BIBLIOGRAPHY);
+    expect(blocks[0].type === "bibliography" && blocks[0].references.length).toBe(2);
+  });
+
+  it("rejects references to missing equations and entries", () => {
+    expect(() => buildDocument("x", "See \\eqref{eq:z}.", BIBLIOGRAPHY)).toThrow(
+      ContentError,
+    );
+    expect(() => buildDocument("x", "See [@nobody2000].", BIBLIOGRAPHY)).toThrow(
+      ContentError,
+    );
+    expect(() =>
+      buildDocument("x", "$$ a \\label{eq:a} $$\n\n$$ b \\label{eq:a} $$", BIBLIOGRAPHY),
+    ).toThrow(ContentError);
+  });
+});
@@ -0,0 +1,99 @@
+// Turning a notes file into a NoteDocument: front matter, a table of
+// contents, numbered equations and resolved cross-references and citations
+
+import { formatReference } from "./bibtex";
+import { parseNote } from "./markdown";
+import {
+  ContentError,
+  type BibEntry,
+  type Block,
+  type Inline,
+  type NoteDocument,
+} from "./types";
+
+// Headings up to this level are listed in the table of contents
+const TOC_DEPTH = 3;
+
+export function buildDocument(
+  slug: string,
+  source: string,
+  bibliography: BibEntry[],
+): NoteDocument {
+  const { data, blocks } = parseNote(source);
+
+  // Number the labelled equations in order of appearance
+  const equations = new Map<string, number>();
+  const numbered = blocks.map((block): Block => {
+    if (block.type !== "math" || block.label === undefined) return block;
+    if (equations.has(block.label)) {
+      throw new ContentError(`equation label ${block.label} is used twice`);
+    }
+    const number = equations.size + 1;
+    equations.set(block.label, number);
+    return { ...block, tex: `${block.tex} \\tag{${number}}`, number };
+  });
+
+  const entries = new Map(bibliography.map((entry) => [entry.key, entry]));
+  const cited = new Set<string>();
+  const resolve = (nodes: Inline[]): Inline[] =>
+    nodes.map((node): Inline => {
+      switch (node.type) {
+        case "eqref": {
+          const number = equations.get(node.label);
+          if (number === undefined) {
+            throw new ContentError(`\\eqref to unknown equation ${node.label}`);
+          }
+          return { ...node, number };
+        }
+        case "cite":
+          return {
+            ...node,
+            labels: node.keys.map((key) => {
+              const entry = entries.get(key);
+              if (!entry) throw new ContentError(`citation of unknown entry ${key}`);
+              cited.add(key);
+              return formatReference(entry).label;
+            }),
+          };
+        case "strong":
+        case "emphasis":
+        case "link":
+          return { ...node, children: resolve(node.children) };
+        default:
+          return node;
+      }
+    });
+
+  const resolved = numbered.map((block): Block => {
+    switch (block.type) {
+      case "heading":
+      case "paragraph":
+        return { ...block, children: resolve(block.children) };
+      case "list":
+        return { ...block, items: block.items.map(resolve) };
+      case "directive":
+        return block.name === "bibliography"
+          ? { type: "bibliography", references: bibliography.map(formatReference) }
+          : block;
+      default:
+        return block;
+    }
+  });
+
+  const order = Number(data.order);
+  return {
+    slug,
+    title: data.title ?? slug,
+    author: data.author ?? null,
+    order: Number.isFinite(order) ? order : Infinity,
+    toc: resolved.flatMap((block) =>
+      block.type === "heading" && block.level > 1 && block.level <= TOC_DEPTH
+        ? [{ id: block.id, level: block.level, children: block.children }]
+        : [],
+    ),
+    blocks: resolved,
+    references: bibliography
+      .filter((entry) => cited.has(entry.key))
+      .map(formatReference),
+  };
+}
@@ -0,0 +1,122 @@
+import { describe, expect, it } from "vitest";
+import { parseInline, parseNote, slugify } from "./markdown";
+import { ContentError } from "./types";
+
+describe("front matter", () => {
+  it("reads the YAML block at the top as strings", () => {
+    const { data, blocks } = parseNote('---\ntitle: "The CLT"\norder: 2\n---\n\nText\n');
+    expect(data).toEqual({ title: "The CLT", order: "2" });
+    expect(blocks).toEqual([{ type: "paragraph", children: [{ type: "text", text: "Text" }] }]);
+  });
+
+  it("is empty for a file without front matter", () => {
+    expect(parseNote("Text\n").data).toEqual({});
+  });
+
+  it("rejects front matter that is not key: value lines", () => {
+    expect(() => parseNote("---\n- a\n- b\n---\n")).toThrow(ContentError);
+  });
+});
+
+describe("slugify", () => {
+  it("keeps the words of a heading", () => {
+    expect(slugify("Step 3: Stirling's Approximation")).toBe(
+      "step-3-stirling-s-approximation",
+    );
+    expect(slugify("Théorie of ")).toBe("theorie-of");
+  });
+});
+
+describe("parseInline", () => {
+  it("splits out math, emphasis and links", () => {
+    expect(parseInline("Let $x_{n,k}$ be **very *small* steps** [here](https://a.b)")).toEqual([
+      { type: "text", text: "Let " },
+      { type: "math", tex: "x_{n,k}" },
+      { type: "text", text: " be " },
+      {
+        type: "strong",
+        children: [
+          { type: "text", text: "very " },
+          { type: "emphasis", children: [{ type: "text", text: "small" }] },
+          { type: "text", text: " steps" },
+        ],
+      },
+      { type: "text", text: " " },
+      { type: "link", href: "https://a.b", children: [{ type: "text", text: "here" }] },
+    ]);
+  });
+
+  it("reads equation references and citations", () => {
+    expect(parseInline("by \\eqref{eq:a} [@feller1968; @durrett2019]")).toEqual([
+      { type: "text", text: "by " },
+      { type: "eqref", label: "eq:a" },
+      { type: "text", text: " " },
+      { type: "cite", keys: ["feller1968", "durrett2019"] },
+    ]);
+  });
+
+  it("only links to web and mail addresses, anchors and relative paths", () => {
+    ["https://a.b", "http://a.b", "mailto:me@a.b", "#eq-1", "notes/other", "../x"].forEach(
+      (href) => expect(parseInline(`[x](${href})`)[0]).toMatchObject({ type: "link", href }),
+    );
+    expect(() => parseInline("[x](javascript:alert`1`)")).toThrow(ContentError);
+    expect(() => parseInline("[x](JavaScript:void0)")).toThrow(ContentError);
+    expect(() => parseInline("[x](data:text/html,hi)")).toThrow(ContentError);
+  });
+
+  it("keeps the colon of a label in an equation reference", () => {
+    expect(parseInline("see \\eqref{eq:stirling} at 10:30")).toEqual([
+      { type: "text", text: "see " },
+      { type: "eqref", label: "eq:stirling" },
+      { type: "text", text: " at 10:30" },
+    ]);
+  });
+
+  it("does not look for markup inside math or after a backslash", () => {
+    expect(parseInline("$a * b$ costs \\$5 \\*")).toEqual([
+      { type: "math", tex: "a * b" },
+      { type: "text", text: " costs $5 *" },
+    ]);
+  });
+});
+
+describe("parseNote", () => {
+  it("reads headings, paragraphs, lists and directives", () => {
+    const { blocks } = parseNote(
+      "## Intro\n\nOne\nparagraph.\n\n1. First\n2. Second\n   continued\n\n::stirling-plot\n\n## Intro\n",
+    );
+    expect(blocks).toEqual([
+      { type: "heading", level: 2, id: "intro", children: [{ type: "text", text: "Intro" }] },
+      { type: "paragraph", children: [{ type: "text", text: "One paragraph." }] },
+      {
+        type: "list",
+        ordered: true,
+        start: 1,
+        items: [
+          [{ type: "text", text: "First" }],
+          [{ type: "text", text: "Second continued" }],
+        ],
+      },
+      { type: "directive", name: "stirling-plot" },
+      { type: "heading", level: 2, id: "intro-2", children: [{ type: "text", text: "Intro" }] },
+    ]);
+  });
+
+  it("reads display math on one line or several, with its label", () => {
+    expect(parseNote("$$ a = b $$\n\n$$\nc = d\n\\label{eq:c}\n$$").blocks).toEqual([
+      { type: "math", tex: "a = b" },
+      { type: "math", tex: "c = d", label: "eq:c" },
+    ]);
+  });
+
+  it("rejects unclosed display math", () => {
+    expect(() => parseNote("$$\nx = 1\n")).toThrow(ContentError);
+  });
+
+  it("rejects Markdown the notes page cannot draw", () => {
+    ["> quote", "    code", "![plot](plot.png)", "<div>x</div>", "- a\n  - b"].forEach(
+      (source) => expect(() => parseNote(source)).toThrow(ContentError),
+    );
+    expect(parseNote("<!-- draft -->\n\nText").blocks).toHaveLength(1);
+  });
+});
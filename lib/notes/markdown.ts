@@ -0,0 +1,282 @@
+// The notes are CommonMark read by remark, with
+//
+// - a YAML front matter block (remark-frontmatter)
+// - inline $math$ and display math between $$ fences (remark-math); display
+//   math is numbered when it has a \label{...}
+// - `::name` leaf directives for a figure, or `::bibliography` for the full
+//   list of references (remark-directive)
+// - \eqref{label} and [@key; @key] citations in text
+//
+// Markdown the notes page cannot draw, such as code, quotes, tables, images
+// or HTML other than comments, is a ContentError.
+
+import type {
+  Heading,
+  Link,
+  List,
+  Nodes,
+  PhrasingContent,
+  RootContent,
+} from "mdast";
+import remarkDirective from "remark-directive";
+import remarkFrontmatter from "remark-frontmatter";
+import remarkMath from "remark-math";
+import remarkParse from "remark-parse";
+import { unified } from "unified";
+import { parse as parseYaml } from "yaml";
+import { ContentError, type Block, type Inline, type ParsedNote } from "./types";
+
+const SAFE_SCHEMES = ["http", "https", "mailto"];
+
+// Whether a link target is a web or mail address, an in-page #anchor or a
+// relative path. Browsers drop control characters and spaces from a scheme,
+// so they are dropped here too before it is read.
+export function isSafeHref(href: string): boolean {
+  const scheme = href.replace(/[\u0000-\u0020]/g, "").match(/^([a-z][a-z\d+.-]*):/i);
+  return !scheme || SAFE_SCHEMES.includes(scheme[1].toLowerCase());
+}
+
+// Anchor for a heading: its words in lower case joined by dashes
+export function slugify(text: string): string {
+  return text
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+}
+
+const processor = unified()
+  .use(remarkParse)
+  .use(remarkFrontmatter)
+  .use(remarkMath)
+  .use(remarkDirective);
+
+export function parseNote(source: string): ParsedNote {
+  const tree = processor.parse(source);
+  const usedIds = new Map<string, number>();
+  let data: Record<string, string> = {};
+  const blocks: Block[] = [];
+
+  tree.children.forEach((node) => {
+    switch (node.type) {
+      case "yaml":
+        data = parseFrontMatter(node.value);
+        break;
+      case "heading": {
+        const block = heading(node, source);
+        const seen = usedIds.get(block.id) ?? 0;
+        usedIds.set(block.id, seen + 1);
+        blocks.push(seen === 0 ? block : { ...block, id: `${block.id}-${seen + 1}` });
+        break;
+      }
+      case "paragraph":
+        blocks.push(
+          isDisplayMath(node.children, source)
+            ? displayMath(node.children[0].value)
+            : { type: "paragraph", children: toInlines(node.children, source) },
+        );
+        break;
+      case "list":
+        blocks.push(list(node, source));
+        break;
+      case "math":
+        if (!sourceOf(node, source).trimEnd().endsWith("$$")) {
+          throw new ContentError(`unclosed $$ display math on line ${line(node)}`);
+        }
+        blocks.push(displayMath(node.value));
+        break;
+      case "leafDirective":
+        blocks.push({ type: "directive", name: node.name });
+        break;
+      case "html":
+        if (!isComment(node.value)) throw unsupported(node);
+        break;
+      default:
+        throw unsupported(node);
+    }
+  });
+  return { data, blocks };
+}
+
+// The inline content of one paragraph of text
+export function parseInline(text: string): Inline[] {
+  const { blocks } = parseNote(text);
+  const [block] = blocks;
+  if (blocks.length !== 1 || block.type !== "paragraph") {
+    throw new ContentError("expected a single paragraph");
+  }
+  return block.children;
+}
+
+function parseFrontMatter(yaml: string): Record<string, string> {
+  let value: unknown;
+  try {
+    value = parseYaml(yaml);
+  } catch (error) {
+    throw new ContentError(`front matter: ${(error as Error).message}`);
+  }
+  if (value === null) return {};
+  if (typeof value !== "object" || Array.isArray(value)) {
+    throw new ContentError("front matter is not a list of key: value lines");
+  }
+  return Object.fromEntries(
+    Object.entries(value).map(([key, entry]) => [key, String(entry)]),
+  );
+}
+
+function heading(
+  node: Heading,
+  source: string,
+): Extract<Block, { type: "heading" }> {
+  const children = toInlines(node.children, source);
+  return {
+    type: "heading",
+    level: node.depth,
+    id: slugify(plainText(children)) || "section",
+    children,
+  };
+}
+
+function list(node: List, source: string): Block {
+  return {
+    type: "list",
+    ordered: node.ordered ?? false,
+    start: node.start ?? 1,
+    // Paragraphs of one item run together
+    items: node.children.map((item) =>
+      item.children.flatMap((child, i): Inline[] => {
+        if (child.type !== "paragraph") throw unsupported(child);
+        const inlines = toInlines(child.children, source);
+        return i === 0 ? inlines : [{ type: "text", text: " " }, ...inlines];
+      }),
+    ),
+  };
+}
+
+// `$$ x = 1 $$` on a line of its own is display math too
+function isDisplayMath(
+  nodes: PhrasingContent[],
+  source: string,
+): nodes is [Extract<PhrasingContent, { type: "inlineMath" }>] {
+  return (
+    nodes.length === 1 &&
+    nodes[0].type === "inlineMath" &&
+    sourceOf(nodes[0], source).startsWith("$$")
+  );
+}
+
+function displayMath(tex: string): Block {
+  const label = tex.match(/\\label\{([^}]*)\}/);
+  if (!label) return { type: "math", tex: tex.trim() };
+  return {
+    type: "math",
+    tex: tex.replace(label[0], "").trim(),
+    label: label[1],
+  };
+}
+
+function toInlines(nodes: PhrasingContent[], source: string): Inline[] {
+  const inlines: Inline[] = [];
+  let text = "";
+  const flushText = () => {
+    inlines.push(...textInlines(text));
+    text = "";
+  };
+
+  nodes.forEach((node) => {
+    switch (node.type) {
+      case "text":
+        text += node.value;
+        break;
+      // A colon before a word, as in \eqref{eq:a}, reads as a text
+      // directive; the notes have none, so it is put back as written
+      case "textDirective":
+        text += sourceOf(node, source);
+        break;
+      case "break":
+        text += " ";
+        break;
+      case "inlineMath":
+        flushText();
+        inlines.push({ type: "math", tex: node.value });
+        break;
+      case "strong":
+      case "emphasis":
+        flushText();
+        inlines.push({ type: node.type, children: toInlines(node.children, source) });
+        break;
+      case "link":
+        flushText();
+        inlines.push(link(node, source));
+        break;
+      case "html":
+        if (!isComment(node.value)) throw unsupported(node);
+        break;
+      default:
+        throw unsupported(node);
+    }
+  });
+  flushText();
+  return inlines;
+}
+
+function link(node: Link, source: string): Inline {
+  if (!isSafeHref(node.url)) {
+    throw new ContentError(
+      `link to ${node.url} is not allowed; use http(s), mailto, # or a relative path`,
+    );
+  }
+  return { type: "link", href: node.url, children: toInlines(node.children, source) };
+}
+
+const TEXT_REFERENCE = /\\eqref\{([^}]+)\}|\[(@[\w:.-]+(?:\s*;\s*@[\w:.-]+)*)\]/g;
+
+// Text with its equation references and citations split out, and its line
+// breaks read as spaces
+function textInlines(text: string): Inline[] {
+  const inlines: Inline[] = [];
+  const flat = text.replace(/[ \t]*\n[ \t]*/g, " ");
+  let last = 0;
+  for (const match of flat.matchAll(TEXT_REFERENCE)) {
+    if (match.index > last) {
+      inlines.push({ type: "text", text: flat.slice(last, match.index) });
+    }
+    inlines.push(
+      match[1] !== undefined
+        ? { type: "eqref", label: match[1] }
+        : { type: "cite", keys: match[2].split(";").map((key) => key.trim().slice(1)) },
+    );
+    last = match.index + match[0].length;
+  }
+  if (last < flat.length) inlines.push({ type: "text", text: flat.slice(last) });
+  return inlines;
+}
+
+// The words of some inline content, without its math
+function plainText(inlines: Inline[]): string {
+  return inlines
+    .map((node) =>
+      node.type === "text"
+        ? node.text
+        : "children" in node
+          ? plainText(node.children)
+          : "",
+    )
+    .join("");
+}
+
+const isComment = (html: string) => /^<!--[\s\S]*-->$/.test(html.trim());
+
+function sourceOf(node: Nodes, source: string): string {
+  const { start, end } = node.position ?? {};
+  return start?.offset === undefined || end?.offset === undefined
+    ? ""
+    : source.slice(start.offset, end.offset);
+}
+
+const line = (node: Nodes) => node.position?.start.line ?? "?";
+
+function unsupported(node: RootContent): ContentError {
+  return new ContentError(`${node.type} on line ${line(node)} is not supported in the notes`);
+}
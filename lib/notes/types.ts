@@ -0,0 +1,83 @@
+export type Inline =
+  | { type: "text"; text: string }
+  | { type: "math"; tex: string }
+  | { type: "strong"; children: Inline[] }
+  | { type: "emphasis"; children: Inline[] }
+  | { type: "link"; href: string; children: Inline[] }
+  // number is filled in once the equations are numbered
+  | { type: "eqref"; label: string; number?: number }
+  // labels are filled in from the bibliography, e.g. "Feller, 1968"
+  | { type: "cite"; keys: string[]; labels?: string[] };
+
+export type Block =
+  | { type: "heading"; level: number; id: string; children: Inline[] }
+  | { type: "paragraph"; children: Inline[] }
+  | { type: "list"; ordered: boolean; start: number; items: Inline[][] }
+  // A numbered equation has its \label{...} replaced by \tag{number}
+  | { type: "math"; tex: string; label?: string; number?: number }
+  | { type: "directive"; name: string }
+  // What `::bibliography` becomes: every entry of the bibliography
+  | { type: "bibliography"; references: Reference[] };
+
+// A notes file as read: its front matter and its body
+export interface ParsedNote {
+  data: Record<string, string>;
+  blocks: Block[];
+}
+
+export interface Person {
+  last: string;
+  first: string;
+}
+
+// One @type{key, field = {value}, ...} entry of a BibTeX file: its fields
+// as plain text, with the field names in lower case, and its authors (or
+// editors when it has no authors)
+export interface BibEntry {
+  type: string;
+  key: string;
+  fields: Record<string, string>;
+  authors: Person[];
+}
+
+export interface CitationSegment {
+  text: string;
+  style: "plain" | "bold" | "italic";
+}
+
+// A bibliography entry ready to render: "Feller, W. (1968). *An
+// Introduction ...*" as styled segments, followed by its URL if it has one
+export interface Reference {
+  key: string;
+  label: string;
+  segments: CitationSegment[];
+  url: string | null;
+}
+
+export interface TocEntry {
+  id: string;
+  level: number;
+  children: Inline[];
+}
+
+// A notes page after parsing, numbering and resolving its references. It is
+// plain data, so it can be built at build time and handed to the page.
+export interface NoteDocument {
+  slug: string;
+  title: string;
+  author: string | null;
+  order: number;
+  toc: TocEntry[];
+  blocks: Block[];
+  // The entries it cites, in bibliography order
+  references: Reference[];
+}
+
+// Thrown for content that cannot be parsed or that refers to an equation or
+// a bibliography entry that does not exist
+export class ContentError extends Error {
+  constructor(reason: string, file?: string) {
+    super(file ? `${file}: ${reason}` : reason);
+    this.name = "ContentError";
+  }
+}
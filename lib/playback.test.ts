@@ -0,0 +1,33 @@
+import { describe, expect, it } from "vitest";
+import { playbackTrialCounts } from "./playback";
+
+describe("playbackTrialCounts", () => {
+  it("steps evenly in n", () => {
+    expect(playbackTrialCounts(10, 50, 5, "linear")).toEqual([
+      10, 20, 30, 40, 50,
+    ]);
+  });
+
+  it("steps evenly in log n", () => {
+    expect(playbackTrialCounts(1, 1000, 4, "log")).toEqual([1, 10, 100, 1000]);
+  });
+
+  it("drops repeated n", () => {
+    const counts = playbackTrialCounts(1, 100, 60, "log");
+    expect(new Set(counts).size).toBe(counts.length);
+    expect(counts[0]).toBe(1);
+    expect(counts[counts.length - 1]).toBe(100);
+    expect(playbackTrialCounts(1, 3, 10, "linear")).toEqual([1, 2, 3]);
+  });
+
+  it("plays backwards when the end is below the start", () => {
+    expect(playbackTrialCounts(50, 10, 5, "linear")).toEqual([
+      50, 40, 30, 20, 10,
+    ]);
+  });
+
+  it("has a single frame for a single n", () => {
+    expect(playbackTrialCounts(7, 7, 10, "log")).toEqual([7]);
+    expect(playbackTrialCounts(7, 20, 1, "log")).toEqual([7]);
+  });
+});
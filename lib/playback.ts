@@ -0,0 +1,54 @@
+// Animating n from a start value to an end value, one frame per n
+
+export type PlaybackSpacing = "linear" | "log";
+
+// Axes held fixed while n plays: as set, z-scores (with densities, so the
+// bell keeps its height) or proportions (so the support keeps its width)
+export type PlaybackAxes = "free" | "standardized" | "proportions";
+
+// Frame rates offered for playback, in frames per second
+export const PLAYBACK_FPS_OPTIONS = [2, 5, 10, 20, 30];
+
+export interface PlaybackSettings {
+  // First and last n
+  from: number;
+  to: number;
+  // Number of frames requested; repeated n are skipped
+  frames: number;
+  spacing: PlaybackSpacing;
+  fps: number;
+  loop: boolean;
+  axes: PlaybackAxes;
+}
+
+export const DEFAULT_PLAYBACK: PlaybackSettings = {
+  from: 1,
+  to: 200,
+  frames: 60,
+  spacing: "log",
+  fps: 10,
+  loop: false,
+  axes: "free",
+};
+
+// The n of each frame: `frames` values from start to end (in either
+// direction), evenly spaced in n or in log n and rounded, with repeats
+// dropped
+export function playbackTrialCounts(
+  start: number,
+  end: number,
+  frames: number,
+  spacing: PlaybackSpacing,
+): number[] {
+  if (frames < 2 || start === end) return [start];
+  const counts = new Set<number>();
+  for (let i = 0; i < frames; i++) {
+    const t = i / (frames - 1);
+    const n =
+      spacing === "log"
+        ? start * Math.pow(end / start, t)
+        : start + (end - start) * t;
+    counts.add(Math.round(n));
+  }
+  return [...counts];
+}
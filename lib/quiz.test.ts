@@ -0,0 +1,136 @@
+import { describe, expect, it } from "vitest";
+import { binomialSum, normalIntegral } from "./distributions";
+import {
+  DEFAULT_QUIZ_PROGRESS,
+  generateQuizProblem,
+  isQuizAnswerCorrect,
+  parseQuizProgress,
+  QUIZ_DIFFICULTIES,
+  quizEventLatex,
+  quizSolutionSteps,
+  recordQuizAnswer,
+  solveQuizProblem,
+  type QuizProblem,
+} from "./quiz";
+
+const PROBLEM: QuizProblem = {
+  difficulty: "easy",
+  n: 80,
+  p: 0.3,
+  region: "between",
+  a: 20,
+  b: 30,
+  correction: "continuity",
+};
+
+describe("generateQuizProblem", () => {
+  it("is reproducible from the seed and index", () => {
+    expect(generateQuizProblem(7, 3, "medium")).toEqual(
+      generateQuizProblem(7, 3, "medium"),
+    );
+    expect(generateQuizProblem(7, 3, "medium")).not.toEqual(
+      generateQuizProblem(7, 4, "medium"),
+    );
+  });
+
+  it("keeps to the rules of each difficulty", () => {
+    QUIZ_DIFFICULTIES.forEach((difficulty) => {
+      for (let index = 0; index < 50; index++) {
+        const problem = generateQuizProblem(11, index, difficulty);
+        const { n, p, a, b } = problem;
+        expect(problem.difficulty).toBe(difficulty);
+        expect(0 <= a && a < b && b <= n).toBe(true);
+        expect(p).toBeGreaterThan(0);
+        expect(p).toBeLessThan(1);
+        if (difficulty === "easy") {
+          expect(problem.region).toBe("between");
+          expect(problem.correction).toBe("continuity");
+          expect(Math.min(n * p, n * (1 - p))).toBeGreaterThanOrEqual(10);
+        }
+      }
+    });
+  });
+});
+
+describe("solveQuizProblem", () => {
+  it("widens the bounds by half a bar with the continuity correction", () => {
+    const solution = solveQuizProblem(PROBLEM);
+    expect(solution.mean).toBeCloseTo(24, 12);
+    expect(solution.stdDev).toBeCloseTo(Math.sqrt(16.8), 12);
+    expect([solution.lower, solution.upper]).toEqual([19.5, 30.5]);
+    expect(solution.approximation).toBeCloseTo(
+      normalIntegral(19.5, 30.5, 24, Math.sqrt(16.8)),
+      12,
+    );
+    expect(solution.exact).toBeCloseTo(binomialSum(80, 0.3, 20, 30), 12);
+    expect(Math.abs(solution.exact - solution.approximation)).toBeLessThan(0.01);
+  });
+
+  it("handles tails and the outside of the range", () => {
+    const below = solveQuizProblem({ ...PROBLEM, region: "below", correction: "none" });
+    expect(below.lower).toBe(-Infinity);
+    expect(below.upper).toBe(30);
+    expect(below.exact).toBeCloseTo(binomialSum(80, 0.3, 0, 30), 12);
+
+    const outside = solveQuizProblem({ ...PROBLEM, region: "outside" });
+    const between = solveQuizProblem(PROBLEM);
+    expect(outside.approximation).toBeCloseTo(1 - between.approximation, 12);
+    expect(outside.exact).toBeCloseTo(1 - between.exact, 12);
+  });
+});
+
+describe("isQuizAnswerCorrect", () => {
+  it("accepts answers within the tolerance of the approximation", () => {
+    const solution = solveQuizProblem(PROBLEM);
+    expect(isQuizAnswerCorrect(solution.approximation + 0.004, solution, 0.005)).toBe(true);
+    expect(isQuizAnswerCorrect(solution.approximation - 0.006, solution, 0.005)).toBe(false);
+    expect(isQuizAnswerCorrect(NaN, solution, 0.005)).toBe(false);
+  });
+});
+
+describe("quizSolutionSteps", () => {
+  it("works through the standardization to the exact sum", () => {
+    const steps = quizSolutionSteps(PROBLEM, solveQuizProblem(PROBLEM));
+    expect(quizEventLatex(PROBLEM)).toBe("20 \\le X \\le 30");
+    expect(steps[0]).toBe("\\mu = np = 80 \\times 0.3 = 24");
+    expect(steps[2]).toContain("P(19.5 \\le Y \\le 30.5)");
+    expect(steps[3]).toContain("z_a = \\frac{19.5 - 24}{4.0988} = -1.0979");
+    expect(steps[5]).toContain("\\sum_{k=20}^{30}");
+  });
+
+  it("uses one z-score for a tail", () => {
+    const problem: QuizProblem = { ...PROBLEM, region: "above" };
+    const steps = quizSolutionSteps(problem, solveQuizProblem(problem));
+    expect(steps[3]).toMatch(/^z_a = /);
+    expect(steps[4]).toMatch(/^1 - \\Phi\(z_a\)/);
+    expect(steps[5]).toContain("\\sum_{k=20}^{80}");
+  });
+});
+
+describe("quiz progress", () => {
+  it("falls back to the defaults for missing or malformed storage", () => {
+    expect(parseQuizProgress(null)).toEqual(DEFAULT_QUIZ_PROGRESS);
+    expect(parseQuizProgress("not json")).toEqual(DEFAULT_QUIZ_PROGRESS);
+    expect(
+      parseQuizProgress('{"difficulty":"expert","tolerance":0.3,"index":-2}'),
+    ).toEqual(DEFAULT_QUIZ_PROGRESS);
+  });
+
+  it("round-trips through JSON", () => {
+    const progress = recordQuizAnswer(
+      recordQuizAnswer({ ...DEFAULT_QUIZ_PROGRESS, difficulty: "hard" }, true),
+      true,
+    );
+    expect(parseQuizProgress(JSON.stringify(progress))).toEqual(progress);
+  });
+
+  it("counts answers and streaks per difficulty", () => {
+    let progress = recordQuizAnswer(DEFAULT_QUIZ_PROGRESS, true);
+    progress = recordQuizAnswer(progress, true);
+    progress = recordQuizAnswer(progress, false);
+    expect(progress.scores.easy).toEqual({ answered: 3, correct: 2 });
+    expect(progress.scores.medium).toEqual({ answered: 0, correct: 0 });
+    expect(progress.streak).toBe(0);
+    expect(progress.bestStreak).toBe(2);
+  });
+});
@@ -0,0 +1,345 @@
+// Exercise mode: seeded normal-approximation problems for the binomial,
+// their worked solutions and the score kept between visits
+
+import {
+  applyContinuityCorrection,
+  axisRegion,
+  binomialSum,
+  createRandom,
+  normalCDF,
+  normalIntegral,
+  regionProbability,
+  type ContinuityCorrection,
+  type Random,
+  type RegionMode,
+} from "./distributions";
+
+export type QuizDifficulty = "easy" | "medium" | "hard";
+
+export const QUIZ_DIFFICULTIES: QuizDifficulty[] = ["easy", "medium", "hard"];
+
+// The regions a problem can ask about
+export type QuizRegion = Exclude<RegionMode, "sigma">;
+
+interface DifficultyRules {
+  trials: [number, number];
+  // p is drawn from [min, max] in steps of `step`
+  probability: { min: number; max: number; step: number };
+  // Smallest np and n(1 - p) allowed
+  minExpected: number;
+  regions: QuizRegion[];
+  // Whether the problem may ask for the uncorrected approximation
+  mixedCorrection: boolean;
+  // Range endpoints lie within this many standard deviations of the mean
+  spreadSigmas: number;
+}
+
+// Easy problems are two-sided with a continuity correction and comfortably
+// inside the usual rules of thumb; harder ones add tails, the uncorrected
+// approximation, larger n and more skewed p
+const DIFFICULTY_RULES: Record<QuizDifficulty, DifficultyRules> = {
+  easy: {
+    trials: [20, 100],
+    probability: { min: 0.2, max: 0.8, step: 0.05 },
+    minExpected: 10,
+    regions: ["between"],
+    mixedCorrection: false,
+    spreadSigmas: 2,
+  },
+  medium: {
+    trials: [30, 300],
+    probability: { min: 0.1, max: 0.9, step: 0.05 },
+    minExpected: 5,
+    regions: ["between", "below", "above"],
+    mixedCorrection: true,
+    spreadSigmas: 2.5,
+  },
+  hard: {
+    trials: [50, 1000],
+    probability: { min: 0.02, max: 0.98, step: 0.01 },
+    minExpected: 2,
+    regions: ["between", "below", "above", "outside"],
+    mixedCorrection: true,
+    spreadSigmas: 3,
+  },
+};
+
+// Approximate P(X in region) for X ~ Binomial(n, p), where the region is
+// built from the counts a ≤ b (below uses only b, above only a)
+export interface QuizProblem {
+  difficulty: QuizDifficulty;
+  n: number;
+  p: number;
+  region: QuizRegion;
+  a: number;
+  b: number;
+  correction: ContinuityCorrection;
+}
+
+// Generator state for problem `index` of a seeded sequence, so each
+// problem can be regenerated on its own
+function problemRandom(seed: number, index: number): Random {
+  return createRandom((Math.imul(seed >>> 0, 0x9e3779b1) + index) >>> 0);
+}
+
+const uniformInteger = (random: Random, min: number, max: number) =>
+  min + Math.floor(random.next() * (max - min + 1));
+
+export function generateQuizProblem(
+  seed: number,
+  index: number,
+  difficulty: QuizDifficulty,
+): QuizProblem {
+  const rules = DIFFICULTY_RULES[difficulty];
+  const random = problemRandom(seed, index);
+  const { min, max, step } = rules.probability;
+  const steps = Math.round((max - min) / step);
+
+  let n: number;
+  let p: number;
+  // Redraw until np and n(1 - p) are large enough; rules whose extremes
+  // meet the bound make this end quickly
+  do {
+    n = uniformInteger(random, rules.trials[0], rules.trials[1]);
+    p = Number((min + uniformInteger(random, 0, steps) * step).toFixed(2));
+  } while (Math.min(n * p, n * (1 - p)) < rules.minExpected);
+
+  const mean = n * p;
+  const stdDev = Math.sqrt(n * p * (1 - p));
+  const endpoint = () => {
+    const z = (2 * random.next() - 1) * rules.spreadSigmas;
+    return Math.min(n, Math.max(0, Math.round(mean + z * stdDev)));
+  };
+  let a = endpoint();
+  let b = endpoint();
+  if (a > b) [a, b] = [b, a];
+  if (a === b) b = Math.min(n, b + 1);
+  if (a === b) a = b - 1;
+
+  const region = rules.regions[uniformInteger(random, 0, rules.regions.length - 1)];
+  const correction: ContinuityCorrection =
+    rules.mixedCorrection && random.next() < 0.5 ? "none" : "continuity";
+  return { difficulty, n, p, region, a, b, correction };
+}
+
+export interface QuizSolution {
+  mean: number;
+  stdDev: number;
+  // Bounds of the normal integral after any correction; tails are infinite
+  lower: number;
+  upper: number;
+  zLower: number;
+  zUpper: number;
+  // The requested normal approximation and the exact binomial probability
+  approximation: number;
+  exact: number;
+}
+
+export function solveQuizProblem(problem: QuizProblem): QuizSolution {
+  const { n, p, a, b } = problem;
+  const mean = n * p;
+  const stdDev = Math.sqrt(n * p * (1 - p));
+  const region = axisRegion(problem.region, a, b, { mean, stdDev }, 0);
+  const [lower, upper] = applyContinuityCorrection(
+    region.from,
+    region.to,
+    problem.correction === "continuity" ? 0.5 : 0,
+  );
+  return {
+    mean,
+    stdDev,
+    lower,
+    upper,
+    zLower: (lower - mean) / stdDev,
+    zUpper: (upper - mean) / stdDev,
+    approximation: regionProbability(region, () =>
+      normalIntegral(lower, upper, mean, stdDev),
+    ),
+    exact: regionProbability(region, (from, to) => binomialSum(n, p, from, to)),
+  };
+}
+
+// Absolute tolerances offered for answers
+export const QUIZ_TOLERANCES = [0.001, 0.005, 0.01, 0.02];
+
+export const DEFAULT_QUIZ_TOLERANCE = 0.005;
+
+export function isQuizAnswerCorrect(
+  answer: number,
+  solution: QuizSolution,
+  tolerance: number,
+): boolean {
+  return (
+    Number.isFinite(answer) &&
+    Math.abs(answer - solution.approximation) <= tolerance
+  );
+}
+
+// The event asked about, in LaTeX, e.g. "20 \le X \le 30"
+export function quizEventLatex(problem: QuizProblem): string {
+  const { a, b } = problem;
+  switch (problem.region) {
+    case "between":
+      return `${a} \\le X \\le ${b}`;
+    case "below":
+      return `X \\le ${b}`;
+    case "above":
+      return `X \\ge ${a}`;
+    case "outside":
+      return `X < ${a} \\text{ or } X > ${b}`;
+  }
+}
+
+const boundLatex = (x: number) =>
+  Number.isFinite(x) ? `${+x.toFixed(2)}` : x > 0 ? "\\infty" : "-\\infty";
+
+// The worked solution, one LaTeX line per step, in the style of the
+// probability comparison panel
+export function quizSolutionSteps(
+  problem: QuizProblem,
+  solution: QuizSolution,
+): string[] {
+  const { n, p, a, b } = problem;
+  const q = Number((1 - p).toFixed(2));
+  const { mean, stdDev, lower, upper, zLower, zUpper } = solution;
+  const event = quizEventLatex(problem);
+  const steps = [
+    `\\mu = np = ${n} \\times ${p} = ${+mean.toFixed(4)}`,
+    `\\sigma = \\sqrt{np(1-p)} = \\sqrt{${n} \\times ${p} \\times ${q}} = ${stdDev.toFixed(4)}`,
+  ];
+
+  const outside = problem.region === "outside";
+  const interval = outside ? `${a} \\le X \\le ${b}` : event;
+  const normalEvent = Number.isFinite(lower)
+    ? Number.isFinite(upper)
+      ? `${boundLatex(lower)} \\le Y \\le ${boundLatex(upper)}`
+      : `Y \\ge ${boundLatex(lower)}`
+    : `Y \\le ${boundLatex(upper)}`;
+  steps.push(
+    `${outside ? `P(${event}) = 1 - P(${interval}) \\approx 1 - ` : `P(${event}) \\approx `}P(${normalEvent}), \\; Y \\sim \\mathcal{N}(\\mu, \\sigma^2)${problem.correction === "continuity" ? " \\text{ (continuity correction)}" : ""}`,
+  );
+
+  const zLines: string[] = [];
+  if (Number.isFinite(lower)) {
+    zLines.push(`z_a = \\frac{${boundLatex(lower)} - ${+mean.toFixed(4)}}{${stdDev.toFixed(4)}} = ${zLower.toFixed(4)}`);
+  }
+  if (Number.isFinite(upper)) {
+    zLines.push(`z_b = \\frac{${boundLatex(upper)} - ${+mean.toFixed(4)}}{${stdDev.toFixed(4)}} = ${zUpper.toFixed(4)}`);
+  }
+  steps.push(zLines.join(", \\quad "));
+
+  const phiLower = normalCDF(zLower, 0, 1);
+  const phiUpper = normalCDF(zUpper, 0, 1);
+  const approximation = solution.approximation.toFixed(6);
+  if (!Number.isFinite(lower)) {
+    steps.push(`\\Phi(z_b) = ${approximation}`);
+  } else if (!Number.isFinite(upper)) {
+    steps.push(`1 - \\Phi(z_a) = 1 - ${phiLower.toFixed(6)} = ${approximation}`);
+  } else if (outside) {
+    steps.push(`1 - [\\Phi(z_b) - \\Phi(z_a)] = 1 - (${phiUpper.toFixed(6)} - ${phiLower.toFixed(6)}) = ${approximation}`);
+  } else {
+    steps.push(`\\Phi(z_b) - \\Phi(z_a) = ${phiUpper.toFixed(6)} - ${phiLower.toFixed(6)} = ${approximation}`);
+  }
+
+  const [from, to] =
+    problem.region === "below" ? [0, b] : problem.region === "above" ? [a, n] : [a, b];
+  steps.push(
+    `\\text{Exact: } ${outside ? "1 - " : ""}\\sum_{k=${from}}^{${to}} \\binom{${n}}{k} ${p}^k \\, ${q}^{${n}-k} = ${solution.exact.toFixed(6)}`,
+  );
+  steps.push(
+    `|\\text{Exact} - \\text{Normal}| = ${Math.abs(solution.exact - solution.approximation).toFixed(6)}`,
+  );
+  return steps;
+}
+
+export interface QuizScore {
+  answered: number;
+  correct: number;
+}
+
+// Everything kept in localStorage: where the sequence of problems is, the
+// settings and the score per difficulty
+export interface QuizProgress {
+  seed: number;
+  index: number;
+  difficulty: QuizDifficulty;
+  tolerance: number;
+  scores: Record<QuizDifficulty, QuizScore>;
+  streak: number;
+  bestStreak: number;
+}
+
+export const QUIZ_STORAGE_KEY = "clt-quiz-progress";
+
+export const DEFAULT_QUIZ_PROGRESS: QuizProgress = {
+  seed: 1,
+  index: 0,
+  difficulty: "easy",
+  tolerance: DEFAULT_QUIZ_TOLERANCE,
+  scores: {
+    easy: { answered: 0, correct: 0 },
+    medium: { answered: 0, correct: 0 },
+    hard: { answered: 0, correct: 0 },
+  },
+  streak: 0,
+  bestStreak: 0,
+};
+
+const count = (value: unknown) =>
+  typeof value === "number" && Number.isInteger(value) && value >= 0 ? value : 0;
+
+// Stored progress, with anything missing or malformed replaced by the
+// defaults
+export function parseQuizProgress(text: string | null): QuizProgress {
+  let stored: Record<string, unknown>;
+  try {
+    const parsed: unknown = text === null ? null : JSON.parse(text);
+    if (typeof parsed !== "object" || parsed === null) return DEFAULT_QUIZ_PROGRESS;
+    stored = parsed as Record<string, unknown>;
+  } catch {
+    return DEFAULT_QUIZ_PROGRESS;
+  }
+
+  const difficulty = QUIZ_DIFFICULTIES.find((level) => level === stored.difficulty);
+  const tolerance = QUIZ_TOLERANCES.find((value) => value === stored.tolerance);
+  const scores = (stored.scores ?? {}) as Record<string, Record<string, unknown> | undefined>;
+  const streak = count(stored.streak);
+  return {
+    seed: count(stored.seed) || DEFAULT_QUIZ_PROGRESS.seed,
+    index: count(stored.index),
+    difficulty: difficulty ?? DEFAULT_QUIZ_PROGRESS.difficulty,
+    tolerance: tolerance ?? DEFAULT_QUIZ_PROGRESS.tolerance,
+    scores: Object.fromEntries(
+      QUIZ_DIFFICULTIES.map((level) => {
+        const answered = count(scores[level]?.answered);
+        return [
+          level,
+          { answered, correct: Math.min(count(scores[level]?.correct), answered) },
+        ];
+      }),
+    ) as Record<QuizDifficulty, QuizScore>,
+    streak,
+    bestStreak: Math.max(count(stored.bestStreak), streak),
+  };
+}
+
+// Progress after answering the current problem
+export function recordQuizAnswer(
+  progress: QuizProgress,
+  correct: boolean,
+): QuizProgress {
+  const score = progress.scores[progress.difficulty];
+  const streak = correct ? progress.streak + 1 : 0;
+  return {
+    ...progress,
+    scores: {
+      ...progress.scores,
+      [progress.difficulty]: {
+        answered: score.answered + 1,
+        correct: score.correct + (correct ? 1 : 0),
+      },
+    },
+    streak,
+    bestStreak: Math.max(progress.bestStreak, streak),
+  };
+}
@@ -0,0 +1,43 @@
+import { describe, expect, it } from "vitest";
+import { dragRange, grabbedEdge, snapToStep } from "./rangeDrag";
+
+describe("grabbedEdge", () => {
+  it("picks the nearest edge within reach", () => {
+    expect(grabbedEdge(103, [100, 108])).toBe(0);
+    expect(grabbedEdge(105, [100, 108])).toBe(1);
+    expect(grabbedEdge(150, [100, 108])).toBeNull();
+  });
+
+  it("skips open ends", () => {
+    expect(grabbedEdge(100, [null, 102])).toBe(1);
+    expect(grabbedEdge(100, [null, null])).toBeNull();
+  });
+});
+
+describe("dragRange", () => {
+  it("orders the anchor and the pointer", () => {
+    expect(dragRange(10, 20, 0, 50, 1)).toEqual([10, 20]);
+    expect(dragRange(20, 10, 0, 50, 1)).toEqual([10, 20]);
+  });
+
+  it("keeps the range inside the scale", () => {
+    expect(dragRange(10, 70, 0, 50, 1)).toEqual([10, 50]);
+    expect(dragRange(-Infinity, 30, 0, 50, 1)).toEqual([0, 30]);
+    expect(dragRange(Infinity, 30, 0, 50, 1)).toEqual([30, 50]);
+  });
+
+  it("widens a range that is too narrow on the pointer's side", () => {
+    expect(dragRange(10, 10, 0, 50, 1)).toEqual([10, 11]);
+    expect(dragRange(1, 0.98, -4, 4, 0.05)[0]).toBeCloseTo(0.95, 12);
+    expect(dragRange(50, 50, 0, 50, 1)).toEqual([49, 50]);
+    expect(dragRange(0, 0, 0, 50, 1)).toEqual([0, 1]);
+  });
+});
+
+describe("snapToStep", () => {
+  it("rounds to a multiple of the step", () => {
+    expect(snapToStep(0.31, 0.1)).toBe(0.3);
+    expect(snapToStep(2.26, 0.05)).toBe(2.25);
+    expect(snapToStep(7, 0.1)).toBe(7);
+  });
+});
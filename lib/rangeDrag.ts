@@ -0,0 +1,53 @@
+// Setting the range by pressing and dragging on the distribution chart
+
+// Pixels either side of a range edge within which a press takes hold of it
+export const EDGE_GRAB_PIXELS = 6;
+
+// Index of the edge nearest to x if it is within grabPixels, or null. An
+// open end of the range (null) cannot be grabbed.
+export function grabbedEdge(
+  x: number,
+  edges: (number | null)[],
+  grabPixels: number = EDGE_GRAB_PIXELS,
+): number | null {
+  let nearest: number | null = null;
+  let nearestDistance = grabPixels;
+  edges.forEach((edge, i) => {
+    if (edge === null) return;
+    const distance = Math.abs(x - edge);
+    if (distance <= nearestDistance) {
+      nearest = i;
+      nearestDistance = distance;
+    }
+  });
+  return nearest;
+}
+
+// [a, b] spanned by a fixed anchor and the pointer, in order, inside
+// [min, max] and at least minWidth wide. An infinite anchor pins its end to
+// min or max. When the two are closer than minWidth the pointer's end moves
+// away from the anchor, unless that runs off the scale.
+export function dragRange(
+  anchor: number,
+  pointer: number,
+  min: number,
+  max: number,
+  minWidth: number,
+): [number, number] {
+  const clamp = (x: number) => Math.min(Math.max(x, min), max);
+  let a = clamp(Math.min(anchor, pointer));
+  let b = clamp(Math.max(anchor, pointer));
+  if (b - a < minWidth) {
+    if (pointer >= anchor) b = a + minWidth;
+    else a = b - minWidth;
+  }
+  if (b > max) [a, b] = [Math.max(max - minWidth, min), max];
+  if (a < min) [a, b] = [min, Math.min(min + minWidth, max)];
+  return [a, b];
+}
+
+// Nearest multiple of step, without the floating-point noise of the
+// multiplication
+export function snapToStep(x: number, step: number): number {
+  return Number((Math.round(x / step) * step).toFixed(10));
+}
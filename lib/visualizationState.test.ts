@@ -0,0 +1,210 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_SOURCE_PARAMETERS } from "./distributions";
+import {
+  activeViewHash,
+  DEFAULT_VISUALIZATION_STATE,
+  MAX_CONVOLUTION_TRIALS,
+  MAX_PINS,
+  MAX_TRIALS,
+  parseActiveView,
+  parseVisualizationState,
+  serializeVisualizationState,
+  Z_LIMIT,
+} from "./visualizationState";
+
+function parse(query: string) {
+  return parseVisualizationState(new URLSearchParams(query));
+}
+
+describe("parseVisualizationState", () => {
+  it("uses the defaults for an empty query", () => {
+    expect(parse("")).toEqual(DEFAULT_VISUALIZATION_STATE);
+  });
+
+  it("reads a shared configuration", () => {
+    const state = parse("n=12&p=0.1&correction=continuity&xmin=0&xmax=3");
+    expect(state.n).toBe(12);
+    expect(state.p).toBe(0.1);
+    expect(state.correction).toBe("continuity");
+    expect([state.xMin, state.xMax]).toEqual([0, 3]);
+  });
+
+  it("clamps out-of-range numbers", () => {
+    expect(parse("n=0").n).toBe(1);
+    expect(parse("n=1e9").n).toBe(MAX_TRIALS);
+    expect(parse("n=12.6").n).toBe(13);
+    expect(parse("p=1.5").p).toBe(0.99);
+    expect(parse("p=-2").p).toBe(0.01);
+    expect(parse("source=discreteUniform&faces=7.4").faces).toBe(7);
+    const z = parse("zmin=-10&zmax=10");
+    expect([z.zMin, z.zMax]).toEqual([-Z_LIMIT, Z_LIMIT]);
+  });
+
+  it("caps n lower for convolution sources", () => {
+    expect(parse("source=poisson&n=5000").n).toBe(MAX_CONVOLUTION_TRIALS);
+    expect(parse("source=bernoulli&n=5000").n).toBe(5000);
+  });
+
+  it("falls back to the defaults for malformed values", () => {
+    const state = parse(
+      "n=abc&p=&axis=sideways&source=cauchy&y=log&pmf=1,-1&seed=-3&maxn=7&rangeerror=yes&edgeworth=2&poisson=on&chart=map&x=1.5e&alpha=0.2&alt=both&region=left&k=",
+    );
+    expect(state).toEqual(DEFAULT_VISUALIZATION_STATE);
+  });
+
+  it("turns the continuity correction off for continuous sources", () => {
+    expect(parse("source=uniform&correction=continuity").correction).toBe("none");
+    expect(parse("source=poisson&correction=continuity").correction).toBe(
+      "continuity",
+    );
+  });
+
+  it("keeps the observed count within [0, n]", () => {
+    expect(parse("n=20&x=35").observed).toBe(20);
+    expect(parse("x=-4").observed).toBe(0);
+    expect(parse("n=10").observed).toBe(10);
+  });
+
+  it("puts reversed ranges in order", () => {
+    const state = parse("xmin=30&xmax=10&zmin=2&zmax=-1");
+    expect([state.xMin, state.xMax]).toEqual([10, 30]);
+    expect([state.zMin, state.zMax]).toEqual([-1, 2]);
+  });
+
+  it("reads and clamps the rule thresholds and the error tolerance", () => {
+    const state = parse("rules=4,12,-3&tol=2");
+    expect(state.ruleThresholds).toEqual({
+      np5: 4,
+      np10: 12,
+      npq9: 0,
+      threeSigma: 3,
+    });
+    expect(state.errorTolerance).toBe(1);
+    expect(parse("rules=x,,7").ruleThresholds.npq9).toBe(7);
+    expect(parse("rules=x,,7").ruleThresholds.np5).toBe(5);
+    expect(parse("tol=-1").errorTolerance).toBe(0);
+  });
+
+  it("reads pinned series, clamping them and dropping unreadable ones", () => {
+    const pins = [
+      {
+        name: "big",
+        n: 1e9,
+        source: "poisson",
+        axis: "counts",
+        params: { lambda: 40 },
+      },
+      { name: "bad axis", n: 10, source: "bernoulli", axis: "sideways" },
+      {
+        name: "bad pmf",
+        n: 10,
+        source: "custom",
+        axis: "counts",
+        params: { customPMF: [1] },
+      },
+      "not a pin",
+    ];
+    const state = parse(`pins=${encodeURIComponent(JSON.stringify(pins))}`);
+    expect(state.pins).toEqual([
+      {
+        name: "big",
+        n: MAX_CONVOLUTION_TRIALS,
+        source: "poisson",
+        params: { ...DEFAULT_SOURCE_PARAMETERS, lambda: 10 },
+        xAxisMode: "counts",
+      },
+    ]);
+    expect(parse("pins=%5B").pins).toEqual([]);
+
+    const many = Array.from({ length: 10 }, (_, i) => ({
+      name: `pin ${i}`,
+      n: 10,
+      source: "uniform",
+      axis: "proportions",
+    }));
+    const query = `pins=${encodeURIComponent(JSON.stringify(many))}`;
+    expect(parse(query).pins).toHaveLength(MAX_PINS);
+  });
+
+  it("ignores an empty range", () => {
+    const state = parse("xmin=5&xmax=5");
+    expect([state.xMin, state.xMax]).toEqual([
+      DEFAULT_VISUALIZATION_STATE.xMin,
+      DEFAULT_VISUALIZATION_STATE.xMax,
+    ]);
+  });
+});
+
+describe("serializeVisualizationState", () => {
+  it("writes nothing for the defaults", () => {
+    expect(serializeVisualizationState(DEFAULT_VISUALIZATION_STATE).toString()).toBe("");
+  });
+
+  it("round-trips through parseVisualizationState", () => {
+    const state = {
+      ...DEFAULT_VISUALIZATION_STATE,
+      n: 200,
+      p: 0.25,
+      source: "custom" as const,
+      customPMF: "1, 0, 3",
+      xAxisMode: "standardized" as const,
+      zMin: -1.5,
+      zMax: 0.5,
+      regionMode: "sigma" as const,
+      sigmaK: 2.5,
+      chartView: "regime" as const,
+      showRangeError: false,
+      showEdgeworth: true,
+      showPoisson: true,
+      showTest: true,
+      observed: 120,
+      alpha: 0.01,
+      alternative: "greater" as const,
+      seed: 42,
+      ruleThresholds: { np5: 4, np10: 15, npq9: 9, threeSigma: 2.5 },
+      errorTolerance: 0.02,
+      pins: [
+        {
+          name: "n=30, p=0.2",
+          n: 30,
+          source: "bernoulli" as const,
+          params: { ...DEFAULT_SOURCE_PARAMETERS, p: 0.2 },
+          xAxisMode: "counts" as const,
+        },
+        {
+          name: "skewed",
+          n: 12,
+          source: "custom" as const,
+          params: { ...DEFAULT_SOURCE_PARAMETERS, customPMF: [1, 0, 3] },
+          xAxisMode: "standardized" as const,
+        },
+      ],
+    };
+    const params = serializeVisualizationState(state);
+    expect(parseVisualizationState(params)).toEqual(state);
+  });
+
+  it("rounds floating-point noise", () => {
+    const params = serializeVisualizationState({
+      ...DEFAULT_VISUALIZATION_STATE,
+      p: 0.35000000000000003,
+    });
+    expect(params.toString()).toBe("p=0.35");
+  });
+});
+
+describe("parseActiveView", () => {
+  it("reads the view from the hash", () => {
+    expect(parseActiveView("#notes")).toBe("notes");
+    expect(parseActiveView("#references")).toBe("references");
+    expect(parseActiveView("#quiz")).toBe("quiz");
+    expect(parseActiveView("")).toBe("visualization");
+    expect(parseActiveView("#elsewhere")).toBe("visualization");
+  });
+
+  it("round-trips through activeViewHash", () => {
+    (["visualization", "notes", "references", "quiz"] as const).forEach((view) => {
+      expect(parseActiveView(activeViewHash(view))).toBe(view);
+    });
+  });
+});
@@ -0,0 +1,540 @@
+import {
+  DEFAULT_ERROR_TOLERANCE,
+  DEFAULT_RULE_THRESHOLDS,
+  DEFAULT_SOURCE_PARAMETERS,
+  type Alternative,
+  type RegionMode,
+  parseCustomPMF,
+  RULES_OF_THUMB,
+  SOURCE_OPTIONS,
+  sourceDistribution,
+  type ContinuityCorrection,
+  type RuleOfThumbId,
+  type SourceKind,
+  type SourceParameters,
+  type XAxisMode,
+  type YAxisMode,
+} from "./distributions";
+
+// Limits on n. Non-Bernoulli sources are convolved numerically, which is
+// kept fast by capping n lower.
+export const MAX_TRIALS = 10000;
+export const MAX_CONVOLUTION_TRIALS = 500;
+
+// Range and step of the a/b sliders in standardized mode
+export const Z_LIMIT = 4;
+export const Z_STEP = 0.05;
+
+// Largest n offered for the convergence sweep
+export const CONVERGENCE_MAX_N_OPTIONS = [100, 1000, 10000];
+
+// Range of the k slider for the μ ± kσ band
+export const SIGMA_K_MIN = 0.1;
+export const SIGMA_K_MAX = 4;
+export const SIGMA_K_STEP = 0.1;
+
+// Significance levels offered by the hypothesis test; the confidence
+// intervals and the coverage plot use the level 1 - α
+export const SIGNIFICANCE_LEVELS = [0.1, 0.05, 0.01];
+
+export type ActiveView = "visualization" | "notes" | "references" | "quiz";
+export type ChartView =
+  | "distribution"
+  | "convergence"
+  | "regime"
+  | "coverage";
+export type ChartMode = "exact" | "simulate";
+
+// At most this many series can be pinned at once
+export const MAX_PINS = 6;
+
+// A configuration frozen by "Pin" and overlaid on the chart
+export interface PinState {
+  name: string;
+  n: number;
+  source: SourceKind;
+  params: SourceParameters;
+  // Axis mode when pinned, shown in the comparison table
+  xAxisMode: XAxisMode;
+}
+
+// Everything needed to reproduce a configuration of the visualization
+export interface VisualizationState {
+  n: number;
+  p: number;
+  source: SourceKind;
+  faces: number;
+  lambda: number;
+  geometricP: number;
+  rate: number;
+  // Custom PMF weights as typed, e.g. "0.2, 0.5, 0.3"
+  customPMF: string;
+  // Range in units of S_n (counts and proportions modes)
+  xMin: number;
+  xMax: number;
+  // Range in z units (standardized mode)
+  zMin: number;
+  zMax: number;
+  // Which probability the range selects, and k for the μ ± kσ band
+  regionMode: RegionMode;
+  sigmaK: number;
+  xAxisMode: XAxisMode;
+  yAxisMode: YAxisMode;
+  correction: ContinuityCorrection;
+  // Draw the first-order Edgeworth curve next to the normal
+  showEdgeworth: boolean;
+  // Draw the Poisson(np) probabilities next to the bars (Bernoulli only)
+  showPoisson: boolean;
+  // Hypothesis test of H₀: p = p₀ (the p slider) for x successes out of n
+  showTest: boolean;
+  observed: number;
+  alpha: number;
+  alternative: Alternative;
+  chartView: ChartView;
+  chartMode: ChartMode;
+  seed: number;
+  convergenceMaxN: number;
+  showRangeError: boolean;
+  // Thresholds of the rules of thumb, and the Kolmogorov distance they are
+  // judged against
+  ruleThresholds: Record<RuleOfThumbId, number>;
+  errorTolerance: number;
+  pins: PinState[];
+}
+
+export const DEFAULT_VISUALIZATION_STATE: VisualizationState = {
+  n: 50,
+  p: DEFAULT_SOURCE_PARAMETERS.p,
+  source: "bernoulli",
+  faces: DEFAULT_SOURCE_PARAMETERS.faces,
+  lambda: DEFAULT_SOURCE_PARAMETERS.lambda,
+  geometricP: DEFAULT_SOURCE_PARAMETERS.geometricP,
+  rate: DEFAULT_SOURCE_PARAMETERS.rate,
+  customPMF: DEFAULT_SOURCE_PARAMETERS.customPMF.join(", "),
+  xMin: 20,
+  xMax: 30,
+  zMin: -1,
+  zMax: 1,
+  regionMode: "between",
+  sigmaK: 1,
+  xAxisMode: "counts",
+  yAxisMode: "probability",
+  correction: "none",
+  showEdgeworth: false,
+  showPoisson: false,
+  showTest: false,
+  observed: 30,
+  alpha: 0.05,
+  alternative: "twoSided",
+  chartView: "distribution",
+  chartMode: "exact",
+  seed: 1,
+  convergenceMaxN: 1000,
+  showRangeError: true,
+  ruleThresholds: DEFAULT_RULE_THRESHOLDS,
+  errorTolerance: DEFAULT_ERROR_TOLERANCE,
+  pins: [],
+};
+
+// Query parameter for each field. Short names keep shared links readable.
+const PARAM_NAMES: Record<keyof VisualizationState, string> = {
+  n: "n",
+  p: "p",
+  source: "source",
+  faces: "faces",
+  lambda: "lambda",
+  geometricP: "gp",
+  rate: "rate",
+  customPMF: "pmf",
+  xMin: "xmin",
+  xMax: "xmax",
+  zMin: "zmin",
+  zMax: "zmax",
+  regionMode: "region",
+  sigmaK: "k",
+  xAxisMode: "axis",
+  yAxisMode: "y",
+  correction: "correction",
+  showEdgeworth: "edgeworth",
+  showPoisson: "poisson",
+  showTest: "test",
+  observed: "x",
+  alpha: "alpha",
+  alternative: "alt",
+  chartView: "chart",
+  chartMode: "mode",
+  seed: "seed",
+  convergenceMaxN: "maxn",
+  showRangeError: "rangeerror",
+  ruleThresholds: "rules",
+  errorTolerance: "tol",
+  pins: "pins",
+};
+
+const SOURCE_KINDS = SOURCE_OPTIONS.map((option) => option.kind);
+const REGION_MODES: RegionMode[] = [
+  "between",
+  "below",
+  "above",
+  "outside",
+  "sigma",
+];
+const X_AXIS_MODES: XAxisMode[] = ["counts", "proportions", "standardized"];
+const Y_AXIS_MODES: YAxisMode[] = ["probability", "density"];
+const CORRECTIONS: ContinuityCorrection[] = ["none", "continuity"];
+const CHART_VIEWS: ChartView[] = [
+  "distribution",
+  "convergence",
+  "regime",
+  "coverage",
+];
+const CHART_MODES: ChartMode[] = ["exact", "simulate"];
+const ALTERNATIVES: Alternative[] = ["twoSided", "less", "greater"];
+const ACTIVE_VIEWS: ActiveView[] = ["visualization", "notes", "references", "quiz"];
+
+// Largest n allowed for a source
+export function maxTrialsFor(source: SourceKind): number {
+  return source === "bernoulli" ? MAX_TRIALS : MAX_CONVOLUTION_TRIALS;
+}
+
+// Parameters of the configured source distribution
+export function sourceParametersOf(state: VisualizationState): SourceParameters {
+  return {
+    p: state.p,
+    faces: state.faces,
+    lambda: state.lambda,
+    geometricP: state.geometricP,
+    rate: state.rate,
+    customPMF: parseCustomPMF(state.customPMF),
+  };
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(Math.max(value, min), max);
+}
+
+function readNumber(params: URLSearchParams, name: string): number | null {
+  const raw = params.get(name);
+  if (raw === null || raw.trim() === "") return null;
+  const value = Number(raw);
+  return Number.isFinite(value) ? value : null;
+}
+
+function readChoice<T extends string>(
+  params: URLSearchParams,
+  name: string,
+  choices: readonly T[],
+  fallback: T,
+): T {
+  const raw = params.get(name);
+  return choices.find((choice) => choice === raw) ?? fallback;
+}
+
+// Flags are written as 1 or 0
+function readFlag(
+  params: URLSearchParams,
+  name: string,
+  fallback: boolean,
+): boolean {
+  const raw = params.get(name);
+  if (raw === "1") return true;
+  if (raw === "0") return false;
+  return fallback;
+}
+
+// Rule thresholds written in the order of RULES_OF_THUMB, e.g. "5,10,9,3".
+// Missing or malformed entries keep their defaults; negative ones become 0.
+function readRuleThresholds(
+  params: URLSearchParams,
+  name: string,
+): Record<RuleOfThumbId, number> {
+  const thresholds = { ...DEFAULT_RULE_THRESHOLDS };
+  const raw = params.get(name);
+  if (raw === null) return thresholds;
+  const values = raw.split(",");
+  RULES_OF_THUMB.forEach((rule, i) => {
+    const text = values[i]?.trim();
+    const value = Number(text);
+    if (text && Number.isFinite(value)) thresholds[rule.id] = Math.max(value, 0);
+  });
+  return thresholds;
+}
+
+// One pinned series from its JSON form, with its parameters clamped like
+// the current configuration's; null when it cannot be read
+function readPin(value: unknown): PinState | null {
+  if (typeof value !== "object" || value === null) return null;
+  const stored = value as Record<string, unknown>;
+  const option = SOURCE_OPTIONS.find((candidate) => candidate.kind === stored.source);
+  const xAxisMode = X_AXIS_MODES.find((mode) => mode === stored.axis);
+  if (
+    typeof stored.name !== "string" ||
+    typeof stored.n !== "number" ||
+    !Number.isFinite(stored.n) ||
+    !option ||
+    !xAxisMode
+  ) {
+    return null;
+  }
+
+  const params: SourceParameters = { ...DEFAULT_SOURCE_PARAMETERS };
+  const storedParams = (stored.params ?? {}) as Record<string, unknown>;
+  option.parameters.forEach((spec) => {
+    const param = storedParams[spec.key];
+    if (typeof param !== "number" || !Number.isFinite(param)) return;
+    const clamped = clamp(param, spec.min, spec.max);
+    params[spec.key] = spec.step >= 1 ? Math.round(clamped) : clamped;
+  });
+  if (option.kind === "custom") {
+    if (!Array.isArray(storedParams.customPMF)) return null;
+    try {
+      params.customPMF = parseCustomPMF(storedParams.customPMF.join(", "));
+    } catch {
+      return null;
+    }
+  }
+
+  return {
+    name: stored.name,
+    n: clamp(Math.round(stored.n), 1, maxTrialsFor(option.kind)),
+    source: option.kind,
+    params,
+    xAxisMode,
+  };
+}
+
+// Pinned series, written as a JSON list; unreadable entries are dropped
+function readPins(params: URLSearchParams, name: string): PinState[] {
+  const raw = params.get(name);
+  if (raw === null) return [];
+  let stored: unknown;
+  try {
+    stored = JSON.parse(raw);
+  } catch {
+    return [];
+  }
+  if (!Array.isArray(stored)) return [];
+  return stored
+    .map(readPin)
+    .filter((pin): pin is PinState => pin !== null)
+    .slice(0, MAX_PINS);
+}
+
+// An ordered pair [min, max] from two optional values; reversed pairs are
+// swapped and equal ones fall back to the defaults
+function readRange(
+  min: number | null,
+  max: number | null,
+  fallback: [number, number],
+): [number, number] {
+  const lo = min ?? fallback[0];
+  const hi = max ?? fallback[1];
+  if (lo === hi) return fallback;
+  return lo < hi ? [lo, hi] : [hi, lo];
+}
+
+// Read a configuration from URL search params. Unknown values fall back to
+// the defaults and out-of-range numbers are clamped, so any link opens a
+// valid configuration. The x range is only checked for order here; the
+// page clamps it to the support of S_n.
+export function parseVisualizationState(
+  params: URLSearchParams,
+): VisualizationState {
+  const defaults = DEFAULT_VISUALIZATION_STATE;
+  const state: VisualizationState = { ...defaults };
+
+  state.source = readChoice(
+    params,
+    PARAM_NAMES.source,
+    SOURCE_KINDS,
+    defaults.source,
+  );
+
+  // Source parameters are clamped to their slider ranges
+  SOURCE_OPTIONS.forEach((option) => {
+    option.parameters.forEach((spec) => {
+      const value = readNumber(params, PARAM_NAMES[spec.key]);
+      if (value === null) return;
+      const clamped = clamp(value, spec.min, spec.max);
+      state[spec.key] = spec.step >= 1 ? Math.round(clamped) : clamped;
+    });
+  });
+
+  const customPMF = params.get(PARAM_NAMES.customPMF);
+  if (customPMF !== null) {
+    try {
+      parseCustomPMF(customPMF);
+      state.customPMF = customPMF;
+    } catch {
+      // Keep the default weights
+    }
+  }
+
+  const n = readNumber(params, PARAM_NAMES.n);
+  if (n !== null) {
+    state.n = clamp(Math.round(n), 1, maxTrialsFor(state.source));
+  }
+
+  [state.xMin, state.xMax] = readRange(
+    readNumber(params, PARAM_NAMES.xMin),
+    readNumber(params, PARAM_NAMES.xMax),
+    [defaults.xMin, defaults.xMax],
+  );
+  const [zMin, zMax] = readRange(
+    readNumber(params, PARAM_NAMES.zMin),
+    readNumber(params, PARAM_NAMES.zMax),
+    [defaults.zMin, defaults.zMax],
+  );
+  state.zMin = clamp(zMin, -Z_LIMIT, Z_LIMIT - Z_STEP);
+  state.zMax = clamp(zMax, state.zMin + Z_STEP, Z_LIMIT);
+
+  state.regionMode = readChoice(
+    params,
+    PARAM_NAMES.regionMode,
+    REGION_MODES,
+    defaults.regionMode,
+  );
+  const sigmaK = readNumber(params, PARAM_NAMES.sigmaK);
+  if (sigmaK !== null) {
+    state.sigmaK = clamp(sigmaK, SIGMA_K_MIN, SIGMA_K_MAX);
+  }
+
+  state.xAxisMode = readChoice(
+    params,
+    PARAM_NAMES.xAxisMode,
+    X_AXIS_MODES,
+    defaults.xAxisMode,
+  );
+  state.yAxisMode = readChoice(
+    params,
+    PARAM_NAMES.yAxisMode,
+    Y_AXIS_MODES,
+    defaults.yAxisMode,
+  );
+  state.correction = readChoice(
+    params,
+    PARAM_NAMES.correction,
+    CORRECTIONS,
+    defaults.correction,
+  );
+  state.chartView = readChoice(
+    params,
+    PARAM_NAMES.chartView,
+    CHART_VIEWS,
+    defaults.chartView,
+  );
+  // Continuous sources have no continuity correction
+  if (sourceDistribution(state.source, sourceParametersOf(state)).continuous) {
+    state.correction = "none";
+  }
+  state.chartMode = readChoice(
+    params,
+    PARAM_NAMES.chartMode,
+    CHART_MODES,
+    defaults.chartMode,
+  );
+
+  const seed = readNumber(params, PARAM_NAMES.seed);
+  if (seed !== null && Number.isInteger(seed) && seed >= 0) {
+    state.seed = seed;
+  }
+
+  const maxN = readNumber(params, PARAM_NAMES.convergenceMaxN);
+  if (maxN !== null && CONVERGENCE_MAX_N_OPTIONS.includes(maxN)) {
+    state.convergenceMaxN = maxN;
+  }
+
+  state.showRangeError = readFlag(
+    params,
+    PARAM_NAMES.showRangeError,
+    defaults.showRangeError,
+  );
+  state.showEdgeworth = readFlag(
+    params,
+    PARAM_NAMES.showEdgeworth,
+    defaults.showEdgeworth,
+  );
+  state.showPoisson = readFlag(
+    params,
+    PARAM_NAMES.showPoisson,
+    defaults.showPoisson,
+  );
+
+  state.showTest = readFlag(params, PARAM_NAMES.showTest, defaults.showTest);
+  const observed = readNumber(params, PARAM_NAMES.observed);
+  state.observed = clamp(
+    observed === null ? defaults.observed : Math.round(observed),
+    0,
+    state.n,
+  );
+  const alpha = readNumber(params, PARAM_NAMES.alpha);
+  if (alpha !== null && SIGNIFICANCE_LEVELS.includes(alpha)) {
+    state.alpha = alpha;
+  }
+  state.alternative = readChoice(
+    params,
+    PARAM_NAMES.alternative,
+    ALTERNATIVES,
+    defaults.alternative,
+  );
+
+  state.ruleThresholds = readRuleThresholds(params, PARAM_NAMES.ruleThresholds);
+  const tolerance = readNumber(params, PARAM_NAMES.errorTolerance);
+  if (tolerance !== null) {
+    // The Kolmogorov distance lies in [0, 1]
+    state.errorTolerance = clamp(tolerance, 0, 1);
+  }
+  state.pins = readPins(params, PARAM_NAMES.pins);
+
+  return state;
+}
+
+// Slider arithmetic leaves values like 0.35000000000000003; round them so
+// links show 0.35
+function formatNumber(value: number): string {
+  return String(Number(value.toPrecision(12)));
+}
+
+// A pin keeps only the parameters of its own source
+function pinParam(pin: PinState) {
+  const option = SOURCE_OPTIONS.find((candidate) => candidate.kind === pin.source);
+  const params: Partial<SourceParameters> = {};
+  option?.parameters.forEach((spec) => {
+    params[spec.key] = Number(formatNumber(pin.params[spec.key]));
+  });
+  if (pin.source === "custom") params.customPMF = pin.params.customPMF;
+  return { name: pin.name, n: pin.n, source: pin.source, axis: pin.xAxisMode, params };
+}
+
+function formatParam(value: VisualizationState[keyof VisualizationState]): string {
+  if (typeof value === "boolean") return value ? "1" : "0";
+  if (typeof value === "number") return formatNumber(value);
+  if (typeof value === "string") return value;
+  if (Array.isArray(value)) return JSON.stringify(value.map(pinParam));
+  return RULES_OF_THUMB.map((rule) => formatNumber(value[rule.id])).join(",");
+}
+
+// Write a configuration as URL search params, leaving out fields that match
+// the defaults so shared links stay short
+export function serializeVisualizationState(
+  state: VisualizationState,
+): URLSearchParams {
+  const params = new URLSearchParams();
+  (Object.keys(PARAM_NAMES) as (keyof VisualizationState)[]).forEach((key) => {
+    const value = formatParam(state[key]);
+    if (value === formatParam(DEFAULT_VISUALIZATION_STATE[key])) return;
+    params.set(PARAM_NAMES[key], value);
+  });
+  return params;
+}
+
+// The page view named by the URL hash, e.g. "#notes"
+export function parseActiveView(hash: string): ActiveView {
+  const name = hash.replace(/^#/, "");
+  return ACTIVE_VIEWS.find((view) => view === name) ?? "visualization";
+}
+
+// Hash for a page view; the visualization is the default and has none
+export function activeViewHash(view: ActiveView): string {
+  return view === "visualization" ? "" : `#${view}`;
+}